@@ -4,16 +4,17 @@
  * This example demonstrates:
  * 1. Creating a multi-step workflow
  * 2. Integrating with CRM (Salesforce)
- * 3. Conditional logic
+ * 3. Branching with a graph workflow
  * 4. Event tracking
  *
  * Prerequisites:
- * - SALESFORCE_API_KEY environment variable (format: username:password)
+ * - SALESFORCE_API_KEY environment variable (format: username:password);
+ *   without it, leads are kept in an in-memory CRM
  */
 
 import 'dotenv/config';
 import { AgentWorkflow } from '@cognio/core';
-import { CRMAgent } from '@cognio/crm';
+import { CRMAgent, CRMConfig } from '@cognio/crm';
 
 async function main() {
   console.log('🚀 Lead Qualification Workflow Example\n');
@@ -21,15 +22,23 @@ async function main() {
   // Step 1: Initialize CRM Agent
   console.log('Initializing CRM agent...');
 
-  const crmAgent = new CRMAgent({
-    name: 'salesforce-crm',
-    crm: {
+  const crm: CRMConfig = process.env.SALESFORCE_API_KEY
+    ? {
       provider: 'salesforce',
-      apiKey: process.env.SALESFORCE_API_KEY || 'demo:demo',
+      apiKey: process.env.SALESFORCE_API_KEY,
       options: {
         loginUrl: process.env.SALESFORCE_LOGIN_URL || 'https://login.salesforce.com'
       }
-    },
+    }
+    : {
+      // Demo mode: an in-memory CRM with realistic latency
+      provider: 'memory',
+      options: { latency: { min: 50, max: 150 } }
+    };
+
+  const crmAgent = new CRMAgent({
+    name: `${crm.provider}-crm`,
+    crm,
     timeout: 10000
   });
 
@@ -43,14 +52,18 @@ async function main() {
     }
   });
 
+  // Without a CRM connection the CRM step is skipped
+  let crmAvailable = false;
+
   try {
     await crmAgent.initialize();
-    console.log('✓ CRM agent initialized\n');
+    crmAvailable = true;
+    console.log(`✓ CRM agent initialized (${crm.provider})\n`);
   } catch (error: any) {
     console.error('✗ Failed to initialize CRM agent');
-    console.error('  Make sure SALESFORCE_API_KEY is set');
+    console.error('  Make sure SALESFORCE_API_KEY is valid');
     console.error(`  Error: ${error.message}\n`);
-    console.log('Running in demo mode without actual CRM...\n');
+    console.log('Continuing without CRM...\n');
   }
 
   // Step 2: Create workflow
@@ -59,7 +72,8 @@ async function main() {
   const workflow = new AgentWorkflow({
     name: 'lead-qualification-pipeline',
     timeout: 60000,
-    onError: 'stop'
+    onError: 'rollback',
+    mode: 'graph'
   });
 
   // Listen to workflow events
@@ -77,6 +91,9 @@ async function main() {
     if (event.type === 'workflow:complete') {
       console.log(`\n✓ Workflow completed in ${event.data.executionTime}ms`);
     }
+    if (event.type === 'compensation:complete') {
+      console.log(`  ↩ Rolled back: ${event.data.step}`);
+    }
   });
 
   // Build workflow
@@ -124,11 +141,14 @@ async function main() {
         score,
         scoreCalculatedAt: new Date()
       };
-    })
-    .step('create-in-crm', async (context) => {
-      // Create lead in CRM
-      try {
-        const lead = await crmAgent.createLead({
+    }, { dependsOn: ['validate-lead'] })
+    // Create lead in CRM by running the CRM agent as a step
+    .agent('create-in-crm', crmAgent, {
+      dependsOn: ['calculate-score'],
+      condition: () => crmAvailable,
+      input: (context) => ({
+        operation: 'createLead',
+        data: {
           firstName: context.data.firstName,
           lastName: context.data.lastName,
           email: context.data.email,
@@ -137,32 +157,37 @@ async function main() {
           title: context.data.title,
           industry: context.data.industry,
           score: context.data.score
-        });
-
-        return {
-          ...context.data,
-          crmId: lead.id,
-          crmProviderId: lead.providerId
-        };
-      } catch (error: any) {
-        console.log('  ⚠️  CRM not available, skipping creation');
-        return {
-          ...context.data,
-          crmId: 'demo-' + Date.now()
-        };
+        }
+      }),
+      output: (lead, context) => ({
+        ...context.data,
+        crmId: lead.id,
+        crmProviderId: lead.providerId
+      }),
+      // Remove the lead again if a later step fails
+      compensate: async (_context, result) => {
+        if (result.data?.crmId) {
+          await crmAgent.deleteLead(result.data.crmId);
+        }
       }
     })
-    .when(
-      // Conditional step: Only for high-scoring leads
+    .ifElse(
+      // Route high-scoring leads to qualification, the rest to rejection
+      'qualification',
       (context) => context.data.score >= 60,
+      'mark-as-qualified',
+      'mark-as-unqualified',
+      { dependsOn: ['calculate-score'] }
+    )
+    .step(
       'mark-as-qualified',
       async (context) => {
         // Mark as qualified in CRM
         try {
-          if (context.data.crmId && !context.data.crmId.startsWith('demo')) {
+          if (context.data.crmId) {
             await crmAgent.updateLead(context.data.crmId, {
               status: 'Qualified'
-            });
+            }, { signal: context.signal });
           }
         } catch (error) {
           console.log('  ⚠️  Could not update CRM status');
@@ -175,9 +200,7 @@ async function main() {
         };
       }
     )
-    .when(
-      // Conditional step: Only for low-scoring leads
-      (context) => context.data.score < 60,
+    .step(
       'mark-as-unqualified',
       async (context) => {
         return {
@@ -189,7 +212,8 @@ async function main() {
       }
     );
 
-  console.log('✓ Workflow built with 5 steps\n');
+  workflow.build();
+  console.log('✓ Workflow built with 6 steps\n');
 
   // Step 3: Test with sample leads
   const sampleLeads = [
@@ -232,7 +256,7 @@ async function main() {
       console.log(`\n✅ Lead Processed Successfully`);
       console.log(`   Score: ${result.data.score}`);
       console.log(`   Status: ${result.data.status}`);
-      console.log(`   CRM ID: ${result.data.crmId}`);
+      console.log(`   CRM ID: ${result.data.crmId ?? 'not created (no CRM)'}`);
 
       if (result.data.status === 'Qualified') {
         console.log(`   🎯 This is a qualified lead!`);
@@ -245,7 +269,7 @@ async function main() {
     }
 
     console.log(`   Execution time: ${result.executionTime}ms`);
-    console.log(`   Steps completed: ${result.steps.filter(s => s.success).length}/${result.steps.length}`);
+    console.log(`   Steps completed: ${result.steps.filter(s => s.success && !s.skipped).length}/${result.steps.length}`);
   }
 
   // Step 4: Cleanup
@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentRegistry } from './AgentRegistry';
+import { BaseAgent } from './BaseAgent';
+import { PLUGIN_KEYWORD } from './plugins';
+import { AgentContext, AgentError } from './types';
+
+/** Agent recording its initialization and close */
+class TestAgent extends BaseAgent {
+  constructor(name: string, private calls: string[], private failOn?: 'initialize' | 'close') {
+    super({ name });
+  }
+
+  async initialize(): Promise<void> {
+    if (this.failOn === 'initialize') {
+      throw new Error(`${this.getConfig().name} unavailable`);
+    }
+    this.calls.push(`initialize:${this.getConfig().name}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.failOn === 'close') {
+      throw new Error(`${this.getConfig().name} stuck`);
+    }
+    this.calls.push(`close:${this.getConfig().name}`);
+  }
+
+  protected async run(context: AgentContext): Promise<any> {
+    return context.data;
+  }
+}
+
+function codeOf(action: () => unknown): Promise<string | undefined> {
+  return Promise.resolve().then(action).then(() => undefined, (error: AgentError) => error.code);
+}
+
+describe('AgentRegistry', () => {
+  let calls: string[];
+  let registry: AgentRegistry;
+
+  beforeEach(() => {
+    calls = [];
+    registry = new AgentRegistry();
+  });
+
+  describe('lifecycle', () => {
+    it('initializes agents after their dependencies and closes them in reverse', async () => {
+      registry
+        .registerAgent('router', new TestAgent('router', calls), { dependsOn: ['scoring', 'crm'] })
+        .registerAgent('scoring', deps => {
+          calls.push(`create:scoring with ${Object.keys(deps)}`);
+          return new TestAgent('scoring', calls);
+        }, { dependsOn: ['crm@^1.0.0'] })
+        .registerAgent('crm', new TestAgent('crm', calls), { version: '1.2.0' });
+
+      await registry.initialize();
+      await registry.close();
+
+      expect(calls).toEqual([
+        'initialize:crm',
+        'create:scoring with crm',
+        'initialize:scoring',
+        'initialize:router',
+        'close:router',
+        'close:scoring',
+        'close:crm'
+      ]);
+    });
+
+    it('initializes only the named agents and their dependencies', async () => {
+      registry
+        .registerAgent('crm', new TestAgent('crm', calls))
+        .registerAgent('scoring', new TestAgent('scoring', calls), { dependsOn: ['crm'] })
+        .registerAgent('unused', new TestAgent('unused', calls));
+
+      await registry.initialize(['scoring']);
+      await registry.initialize(['scoring']);
+
+      expect(calls).toEqual(['initialize:crm', 'initialize:scoring']);
+    });
+
+    it('runs global hooks before the agent\'s own', async () => {
+      registry
+        .addHooks({
+          beforeInitialize: (_agent, name) => { calls.push(`global before ${name}`); },
+          afterClose: (_agent, name) => { calls.push(`global after close ${name}`); }
+        })
+        .registerAgent('crm', new TestAgent('crm', calls), {
+          hooks: { beforeInitialize: (_agent, name) => { calls.push(`own before ${name}`); } }
+        });
+
+      await registry.initialize();
+      await registry.close();
+
+      expect(calls).toEqual(['global before crm', 'own before crm', 'initialize:crm', 'close:crm', 'global after close crm']);
+    });
+
+    it('closes the agents initialized so far when one fails', async () => {
+      registry
+        .registerAgent('crm', new TestAgent('crm', calls))
+        .registerAgent('scoring', new TestAgent('scoring', calls, 'initialize'), { dependsOn: ['crm'] });
+
+      await expect(registry.initialize()).rejects.toMatchObject({
+        code: 'INITIALIZATION_FAILED',
+        details: { agent: 'scoring' }
+      });
+      expect(calls).toEqual(['initialize:crm', 'close:crm']);
+    });
+
+    it('closes every agent and reports the failures together', async () => {
+      registry
+        .registerAgent('crm', new TestAgent('crm', calls, 'close'))
+        .registerAgent('scoring', new TestAgent('scoring', calls), { dependsOn: ['crm'] });
+      await registry.initialize();
+
+      await expect(registry.close()).rejects.toMatchObject({
+        code: 'CLOSE_FAILED',
+        details: { errors: [expect.objectContaining({ agent: 'crm' })] }
+      });
+      expect(calls).toContain('close:scoring');
+    });
+
+    it('creates an agent once and passes the registry to factories', async () => {
+      const factory = jest.fn(() => new TestAgent('crm', calls));
+      registry.registerAgent('crm', factory);
+
+      const [first, second] = await Promise.all([registry.getAgent('crm'), registry.getAgent('crm')]);
+
+      expect(first).toBe(second);
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(factory).toHaveBeenCalledWith({}, registry);
+    });
+  });
+
+  describe('dependencies', () => {
+    it('detects cycles', async () => {
+      registry
+        .registerAgent('a', new TestAgent('a', calls), { dependsOn: ['b'] })
+        .registerAgent('b', new TestAgent('b', calls), { dependsOn: ['c'] })
+        .registerAgent('c', new TestAgent('c', calls), { dependsOn: ['a'] });
+
+      await expect(registry.initialize()).rejects.toMatchObject({
+        code: 'DEPENDENCY_CYCLE',
+        details: { cycle: ['a', 'b', 'c', 'a'] }
+      });
+      expect(calls).toEqual([]);
+    });
+
+    it('rejects missing dependencies and unsatisfied versions', async () => {
+      registry
+        .registerAgent('scoring', new TestAgent('scoring', calls), { dependsOn: ['crm'] })
+        .registerAgent('router', new TestAgent('router', calls), { dependsOn: ['@acme/enrich@~2.1'] })
+        .registerAgent('@acme/enrich', new TestAgent('enrich', calls), { version: '2.2.0' });
+
+      expect(await codeOf(() => registry.getAgent('scoring'))).toBe('MISSING_DEPENDENCY');
+      expect(await codeOf(() => registry.getAgent('router'))).toBe('VERSION_MISMATCH');
+      expect(await codeOf(() => registry.getAgent('missing'))).toBe('NOT_REGISTERED');
+      expect(await codeOf(() => registry.registerAgent('x', new TestAgent('x', calls), { dependsOn: ['crm@'] })))
+        .toBe('INVALID_REGISTRATION');
+    });
+
+    it.each([
+      ['1.4.2', '^1.2.0', true],
+      ['2.0.0', '^1.2.0', false],
+      ['0.2.5', '^0.2.1', true],
+      ['0.3.0', '^0.2.1', false],
+      ['1.2.9', '~1.2.3', true],
+      ['1.3.0', '~1.2.3', false],
+      ['1.5.0', '1.x', true],
+      ['3.0.0', '>=1.0.0 <3.0.0', false],
+      ['3.1.0', '^1.0.0 || ^3.0.0', true]
+    ])('checks %s against %s', async (version, range, satisfied) => {
+      registry
+        .registerAgent('crm', new TestAgent('crm', calls), { version })
+        .registerAgent('scoring', new TestAgent('scoring', calls), { dependsOn: [`crm@${range}`] });
+
+      expect(await codeOf(() => registry.getAgent('scoring'))).toBe(satisfied ? undefined : 'VERSION_MISMATCH');
+    });
+  });
+
+  describe('registrations', () => {
+    it('rejects a second registration of a name per kind', () => {
+      registry.registerHandler('score', async context => context.data);
+      registry.registerMiddleware('score', async (_context, next) => next());
+
+      expect(() => registry.registerHandler('score', async context => context.data)).toThrow(
+        expect.objectContaining({ code: 'DUPLICATE_REGISTRATION', details: { kind: 'handler', name: 'score' } })
+      );
+      expect(() => registry.registerAgent('', new TestAgent('a', calls))).toThrow(
+        expect.objectContaining({ code: 'INVALID_REGISTRATION' })
+      );
+    });
+
+    it('registers plugin components with the plugin\'s version', async () => {
+      const plugin = {
+        name: 'acme',
+        version: '1.0.0',
+        register(target: AgentRegistry) {
+          target
+            .registerProvider('memory', (config: { prefix: string }) => ({ prefix: config.prefix }))
+            .registerHandler('score', async context => context.data, { version: '2.0.0' });
+        }
+      };
+
+      await registry.use(plugin);
+      await registry.use(plugin);
+
+      expect(registry.list()).toEqual([
+        expect.objectContaining({ kind: 'provider', name: 'memory', version: '1.0.0', plugin: 'acme' }),
+        expect.objectContaining({ kind: 'handler', name: 'score', version: '2.0.0', plugin: 'acme' })
+      ]);
+      expect(registry.createProvider('memory', { prefix: 'x' })).toEqual({ prefix: 'x' });
+      expect(await codeOf(() => registry.use({ ...plugin }))).toBe('DUPLICATE_REGISTRATION');
+      expect(await codeOf(() => registry.use({ name: 'broken' } as any))).toBe('INVALID_PLUGIN');
+    });
+  });
+
+  describe('loadPlugins', () => {
+    let cwd: string;
+
+    function writePackage(name: string, packageJson: object, files: Record<string, string> = {}): void {
+      const directory = path.join(cwd, 'node_modules', name);
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(path.join(directory, 'package.json'), JSON.stringify({ name, ...packageJson }));
+      for (const [file, content] of Object.entries(files)) {
+        fs.writeFileSync(path.join(directory, file), content);
+      }
+    }
+
+    beforeEach(() => {
+      cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+      fs.writeFileSync(path.join(cwd, 'package.json'), JSON.stringify({
+        dependencies: { 'acme-scoring': '1.0.0', lodash: '4.0.0' },
+        devDependencies: { '@acme/enrich': '2.0.0' }
+      }));
+      writePackage('acme-scoring', { version: '1.3.0', main: 'index.js', keywords: [PLUGIN_KEYWORD] }, {
+        'index.js': `module.exports = {
+          plugin: { name: 'acme-scoring', register: registry => registry.registerHandler('score', async () => 1) }
+        };`
+      });
+      writePackage('@acme/enrich', { version: '2.0.0', cognio: { plugin: './plugin.js' } }, {
+        'plugin.js': `exports.default = {
+          name: '@acme/enrich', version: '2.1.0', register: registry => registry.registerHandler('enrich', async () => 2)
+        };`
+      });
+      writePackage('lodash', { version: '4.0.0', main: 'index.js' }, { 'index.js': 'module.exports = {};' });
+    });
+
+    afterEach(() => {
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it('loads the plugin packages the project depends on', async () => {
+      const loaded = await registry.loadPlugins({ cwd });
+
+      expect(loaded).toEqual(['acme-scoring', '@acme/enrich']);
+      expect(registry.list('handler')).toEqual([
+        expect.objectContaining({ name: 'score', version: '1.3.0', plugin: 'acme-scoring' }),
+        expect.objectContaining({ name: 'enrich', version: '2.1.0', plugin: '@acme/enrich' })
+      ]);
+      expect(registry.getHandler('score')).toBeDefined();
+    });
+
+    it('rejects missing packages and packages without a plugin', async () => {
+      expect(await codeOf(() => registry.loadPlugins({ cwd, packages: ['missing'] }))).toBe('PLUGIN_NOT_FOUND');
+      expect(await codeOf(() => registry.loadPlugins({ cwd, packages: ['lodash'] }))).toBe('INVALID_PLUGIN');
+    });
+  });
+});
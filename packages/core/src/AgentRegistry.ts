@@ -0,0 +1,503 @@
+/**
+ * Agent Registry
+ * Named agents, providers, step handlers and middleware with versions, dependencies
+ * and lifecycle hooks
+ */
+
+import { BaseAgent } from './BaseAgent';
+import { StepRegistry, RegisteredHandler } from './StepRegistry';
+import { discoverPlugins, loadPlugin } from './plugins';
+import {
+  AgentError,
+  AgentFactory,
+  AgentMiddleware,
+  AgentPlugin,
+  LifecycleHooks,
+  ProviderFactory,
+  RegistrationMetadata,
+  RegistryEntry,
+  RegistryKind
+} from './types';
+
+/**
+ * Options for loading plugins
+ */
+export interface LoadPluginsOptions {
+  /** Directory whose package.json lists the installed packages (default: process.cwd()) */
+  cwd?: string;
+  /** Packages to load; discovered from the package.json when omitted */
+  packages?: string[];
+}
+
+interface Registration {
+  kind: RegistryKind;
+  name: string;
+  value: any;
+  metadata: RegistrationMetadata;
+  plugin?: string;
+}
+
+interface Dependency {
+  name: string;
+  range?: string;
+}
+
+/**
+ * Registry of named components, resolved and initialized in dependency order
+ *
+ * Agents are registered as instances or as factories receiving the agents they
+ * depend on. initialize() creates and initializes every agent after its
+ * dependencies; close() closes them in reverse order.
+ */
+export class AgentRegistry {
+  private registrations: Record<RegistryKind, Map<string, Registration>> = {
+    agent: new Map(),
+    provider: new Map(),
+    handler: new Map(),
+    middleware: new Map()
+  };
+  private plugins: Map<string, AgentPlugin> = new Map();
+  private currentPlugin?: AgentPlugin;
+  private hooks: LifecycleHooks[] = [];
+  private agents: Map<string, Promise<BaseAgent>> = new Map();
+  private initialized: string[] = [];
+
+  /**
+   * Register an agent, or a factory creating it from its dependencies
+   */
+  registerAgent(name: string, agent: BaseAgent | AgentFactory, metadata: RegistrationMetadata = {}): this {
+    for (const dependency of metadata.dependsOn || []) {
+      parseDependency(dependency);
+    }
+    return this.register('agent', name, agent, metadata);
+  }
+
+  /**
+   * Register a provider factory, e.g. a CRM provider
+   */
+  registerProvider(name: string, factory: ProviderFactory, metadata: RegistrationMetadata = {}): this {
+    return this.register('provider', name, factory, metadata);
+  }
+
+  /**
+   * Register a step handler
+   */
+  registerHandler(name: string, handler: RegisteredHandler, metadata: RegistrationMetadata = {}): this {
+    return this.register('handler', name, handler, metadata);
+  }
+
+  /**
+   * Register middleware
+   */
+  registerMiddleware(name: string, middleware: AgentMiddleware, metadata: RegistrationMetadata = {}): this {
+    return this.register('middleware', name, middleware, metadata);
+  }
+
+  /**
+   * Add hooks called around the initialization and close of every agent
+   */
+  addHooks(hooks: LifecycleHooks): this {
+    this.hooks.push(hooks);
+    return this;
+  }
+
+  /**
+   * Register the components of a plugin
+   * Registrations without a version get the plugin's version.
+   */
+  async use(plugin: AgentPlugin): Promise<this> {
+    if (!plugin || typeof plugin.name !== 'string' || typeof plugin.register !== 'function') {
+      throw new AgentError('Plugin must have a name and a register function', 'INVALID_PLUGIN');
+    }
+
+    const existing = this.plugins.get(plugin.name);
+    if (existing === plugin) {
+      return this;
+    }
+    if (existing) {
+      throw new AgentError(`Plugin already registered: ${plugin.name}`, 'DUPLICATE_REGISTRATION', {
+        kind: 'plugin',
+        name: plugin.name
+      });
+    }
+
+    this.plugins.set(plugin.name, plugin);
+    this.currentPlugin = plugin;
+    try {
+      await plugin.register(this);
+    } finally {
+      this.currentPlugin = undefined;
+    }
+    return this;
+  }
+
+  /**
+   * Load plugins from installed packages
+   * Returns the names of the loaded plugins.
+   */
+  async loadPlugins(options: LoadPluginsOptions = {}): Promise<string[]> {
+    const cwd = options.cwd || process.cwd();
+    const packages = options.packages || discoverPlugins(cwd);
+
+    const loaded: string[] = [];
+    for (const packageName of packages) {
+      const plugin = loadPlugin(packageName, cwd);
+      await this.use(plugin);
+      loaded.push(plugin.name);
+    }
+    return loaded;
+  }
+
+  /**
+   * Get an agent, creating it and its dependencies if needed
+   */
+  async getAgent<T extends BaseAgent = BaseAgent>(name: string): Promise<T> {
+    this.resolveOrder([name]);
+    return await this.createAgent(name) as T;
+  }
+
+  /**
+   * Get a provider factory
+   */
+  getProvider<TConfig = any, TProvider = any>(name: string): ProviderFactory<TConfig, TProvider> | undefined {
+    return this.registrations.provider.get(name)?.value;
+  }
+
+  /**
+   * Create a provider with a registered factory
+   */
+  createProvider<TProvider = any>(name: string, config?: any): TProvider {
+    const factory = this.getProvider(name);
+    if (!factory) {
+      throw notRegistered('provider', name);
+    }
+    return factory(config);
+  }
+
+  /**
+   * Get a step handler
+   */
+  getHandler(name: string): RegisteredHandler | undefined {
+    return this.registrations.handler.get(name)?.value;
+  }
+
+  /**
+   * Get middleware
+   */
+  getMiddleware(name: string): AgentMiddleware | undefined {
+    return this.registrations.middleware.get(name)?.value;
+  }
+
+  /**
+   * Whether a component is registered
+   */
+  has(kind: RegistryKind, name: string): boolean {
+    return this.registrations[kind].has(name);
+  }
+
+  /**
+   * Registered components, optionally of one kind
+   */
+  list(kind?: RegistryKind): RegistryEntry[] {
+    const kinds = kind ? [kind] : (Object.keys(this.registrations) as RegistryKind[]);
+    return kinds.flatMap(current => [...this.registrations[current].values()].map(registration => ({
+      kind: registration.kind,
+      name: registration.name,
+      version: registration.metadata.version,
+      description: registration.metadata.description,
+      dependsOn: registration.metadata.dependsOn || [],
+      plugin: registration.plugin
+    })));
+  }
+
+  /**
+   * Create and initialize agents after their dependencies
+   * Initializes all agents, or the named ones and their dependencies. If one fails,
+   * the agents initialized so far are closed.
+   */
+  async initialize(names?: string[]): Promise<void> {
+    const order = this.resolveOrder(names || [...this.registrations.agent.keys()]);
+
+    for (const name of order) {
+      if (this.initialized.includes(name)) {
+        continue;
+      }
+
+      try {
+        const agent = await this.createAgent(name);
+        await this.runHooks(name, 'beforeInitialize', agent);
+        await agent.initialize();
+        this.initialized.push(name);
+        await this.runHooks(name, 'afterInitialize', agent);
+      } catch (error) {
+        await this.close().catch(() => undefined);
+        throw new AgentError(
+          `Failed to initialize agent: ${name}`,
+          'INITIALIZATION_FAILED',
+          { agent: name, originalError: error }
+        );
+      }
+    }
+  }
+
+  /**
+   * Close initialized agents in reverse dependency order
+   * Every agent is closed even if others fail; failures are thrown together.
+   */
+  async close(): Promise<void> {
+    const errors: Array<{ agent: string; error: any }> = [];
+
+    while (this.initialized.length > 0) {
+      const name = this.initialized.pop()!;
+      try {
+        const agent = await this.agents.get(name)!;
+        await this.runHooks(name, 'beforeClose', agent);
+        await agent.close();
+        await this.runHooks(name, 'afterClose', agent);
+      } catch (error) {
+        errors.push({ agent: name, error });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new AgentError(
+        `Failed to close agents: ${errors.map(failure => failure.agent).join(', ')}`,
+        'CLOSE_FAILED',
+        { errors }
+      );
+    }
+  }
+
+  /**
+   * Step registry with the registered handlers and the agents created so far,
+   * for workflow definitions
+   */
+  async createStepRegistry(): Promise<StepRegistry> {
+    const steps = new StepRegistry();
+    for (const [name, registration] of this.registrations.handler) {
+      steps.registerHandler(name, registration.value);
+    }
+    for (const [name, agent] of this.agents) {
+      steps.registerAgent(name, await agent);
+    }
+    return steps;
+  }
+
+  private register(kind: RegistryKind, name: string, value: any, metadata: RegistrationMetadata): this {
+    if (!name) {
+      throw new AgentError(`A ${kind} must be registered under a name`, 'INVALID_REGISTRATION', { kind });
+    }
+    if (this.registrations[kind].has(name)) {
+      throw new AgentError(`${capitalize(kind)} already registered: ${name}`, 'DUPLICATE_REGISTRATION', {
+        kind,
+        name,
+        plugin: this.registrations[kind].get(name)!.plugin
+      });
+    }
+
+    this.registrations[kind].set(name, {
+      kind,
+      name,
+      value,
+      metadata: { ...metadata, version: metadata.version ?? this.currentPlugin?.version },
+      plugin: this.currentPlugin?.name
+    });
+    return this;
+  }
+
+  /**
+   * Create an agent once, after the agents it depends on
+   */
+  private createAgent(name: string): Promise<BaseAgent> {
+    let agent = this.agents.get(name);
+    if (!agent) {
+      agent = this.instantiate(this.registrations.agent.get(name)!);
+      this.agents.set(name, agent);
+      // A failed factory can be retried
+      agent.catch(() => this.agents.delete(name));
+    }
+    return agent;
+  }
+
+  private async instantiate(registration: Registration): Promise<BaseAgent> {
+    if (registration.value instanceof BaseAgent) {
+      return registration.value;
+    }
+
+    const dependencies: Record<string, BaseAgent> = {};
+    for (const dependency of (registration.metadata.dependsOn || []).map(parseDependency)) {
+      dependencies[dependency.name] = await this.createAgent(dependency.name);
+    }
+
+    const agent = await (registration.value as AgentFactory)(dependencies, this);
+    if (!(agent instanceof BaseAgent)) {
+      throw new AgentError(`Factory of agent ${registration.name} did not return an agent`, 'INVALID_REGISTRATION', {
+        kind: 'agent',
+        name: registration.name
+      });
+    }
+    return agent;
+  }
+
+  /**
+   * Agents in initialization order, dependencies first
+   * Checks that dependencies are registered, satisfy their version ranges and
+   * do not form a cycle.
+   */
+  private resolveOrder(names: string[]): string[] {
+    const order: string[] = [];
+    const visiting: string[] = [];
+
+    const visit = (name: string, dependent?: string) => {
+      if (order.includes(name)) {
+        return;
+      }
+      if (visiting.includes(name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+        throw new AgentError(`Dependency cycle: ${cycle.join(' -> ')}`, 'DEPENDENCY_CYCLE', { cycle });
+      }
+
+      const registration = this.registrations.agent.get(name);
+      if (!registration) {
+        throw dependent
+          ? new AgentError(`Agent ${dependent} depends on unregistered agent ${name}`, 'MISSING_DEPENDENCY', {
+            agent: dependent,
+            dependency: name
+          })
+          : notRegistered('agent', name);
+      }
+
+      visiting.push(name);
+      for (const dependency of (registration.metadata.dependsOn || []).map(parseDependency)) {
+        this.checkVersion(name, dependency);
+        visit(dependency.name, name);
+      }
+      visiting.pop();
+      order.push(name);
+    };
+
+    for (const name of names) {
+      visit(name);
+    }
+    return order;
+  }
+
+  private checkVersion(agent: string, dependency: Dependency): void {
+    if (!dependency.range) {
+      return;
+    }
+
+    const version = this.registrations.agent.get(dependency.name)?.metadata.version;
+    if (version && !satisfies(version, dependency.range)) {
+      throw new AgentError(
+        `Agent ${agent} requires ${dependency.name}@${dependency.range}, but ${version} is registered`,
+        'VERSION_MISMATCH',
+        { agent, dependency: dependency.name, range: dependency.range, version }
+      );
+    }
+  }
+
+  private async runHooks(name: string, hook: keyof LifecycleHooks, agent: BaseAgent): Promise<void> {
+    const own = this.registrations.agent.get(name)?.metadata.hooks;
+    for (const hooks of own ? [...this.hooks, own] : this.hooks) {
+      await hooks[hook]?.(agent, name);
+    }
+  }
+}
+
+function notRegistered(kind: RegistryKind, name: string): AgentError {
+  return new AgentError(`${capitalize(kind)} not registered: ${name}`, 'NOT_REGISTERED', { kind, name });
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Parse 'name' or 'name@range'; scoped names such as '@acme/scoring@^1.0.0' keep their '@'
+ */
+function parseDependency(dependency: string): Dependency {
+  const separator = dependency.lastIndexOf('@');
+  if (separator <= 0) {
+    return { name: dependency };
+  }
+
+  const range = dependency.slice(separator + 1).trim();
+  if (!range) {
+    throw new AgentError(`Invalid dependency: ${dependency}`, 'INVALID_REGISTRATION', { dependency });
+  }
+  return { name: dependency.slice(0, separator), range };
+}
+
+type Version = [number, number, number];
+
+/**
+ * Whether a version satisfies a range
+ * Supports exact versions, x wildcards, ^, ~ and comparisons, space-separated
+ * comparisons that must all hold and alternatives separated by ||.
+ */
+function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+
+  return range.split('||').some(alternative => alternative.trim().split(/\s+/).every(comparator => {
+    const match = /^(\^|~|>=|<=|>|<|=)?v?(.*)$/.exec(comparator)!;
+    const operator = match[1] || '';
+    const target = match[2];
+
+    if (target === '' || target === '*' || target.toLowerCase() === 'x') {
+      return true;
+    }
+
+    const parts = target.split('.');
+    const wildcard = parts.findIndex(part => part === '*' || part.toLowerCase() === 'x');
+    const precision = wildcard === -1 ? parts.length : wildcard;
+    const bound = parseVersion(parts.slice(0, precision).join('.'));
+    if (!bound) {
+      return false;
+    }
+
+    switch (operator) {
+      case '^': {
+        // Changes left of the first non-zero part are breaking
+        const fixed = bound[0] > 0 || precision === 1 ? 1 : bound[1] > 0 || precision === 2 ? 2 : 3;
+        return compare(parsed, bound) >= 0 && samePrefix(parsed, bound, fixed);
+      }
+      case '~':
+        return compare(parsed, bound) >= 0 && samePrefix(parsed, bound, Math.min(precision, 2));
+      case '>=':
+        return compare(parsed, bound) >= 0;
+      case '>':
+        return precision < 3 ? !samePrefix(parsed, bound, precision) && compare(parsed, bound) > 0 : compare(parsed, bound) > 0;
+      case '<=':
+        return precision < 3 ? samePrefix(parsed, bound, precision) || compare(parsed, bound) < 0 : compare(parsed, bound) <= 0;
+      case '<':
+        return compare(parsed, bound) < 0;
+      default:
+        return samePrefix(parsed, bound, precision);
+    }
+  }));
+}
+
+function parseVersion(version: string): Version | null {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2] || 0), Number(match[3] || 0)];
+}
+
+function compare(a: Version, b: Version): number {
+  for (let index = 0; index < 3; index++) {
+    if (a[index] !== b[index]) {
+      return a[index] - b[index];
+    }
+  }
+  return 0;
+}
+
+function samePrefix(a: Version, b: Version, length: number): boolean {
+  return a.slice(0, length).every((part, index) => part === b[index]);
+}
@@ -0,0 +1,470 @@
+import { z } from 'zod';
+import { AgentWorkflow } from './AgentWorkflow';
+import { BaseAgent } from './BaseAgent';
+import { InMemoryCheckpointStore } from './checkpoint/InMemoryCheckpointStore';
+import { AgentConfig, AgentContext, WorkflowCheckpoint } from './types';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Step that fails shortly after its run is aborted, like a cancelled request */
+const interruptible = (context: AgentContext) => new Promise((_, reject) => {
+  context.signal!.addEventListener('abort', () => {
+    setTimeout(() => reject(new Error('interrupted')), 5);
+  });
+});
+
+describe('AgentWorkflow', () => {
+  describe('cancellation and timeouts', () => {
+    it('keeps the cancelled checkpoint when the interrupted step fails afterwards', async () => {
+      const store = new InMemoryCheckpointStore();
+      const workflow = new AgentWorkflow({ name: 'cancel', checkpointStore: store })
+        .step('a', async context => ({ ...context.data, a: true }))
+        .step('slow', interruptible);
+
+      setTimeout(() => workflow.cancel(), 20);
+      const result = await workflow.execute({});
+      await delay(30);
+
+      expect(result.status).toBe('cancelled');
+      const checkpoint = await store.load(result.runId);
+      expect(checkpoint?.status).toBe('cancelled');
+      expect(checkpoint?.completedSteps).toEqual(['a']);
+      expect(checkpoint?.context.history.map(step => `${step.step}:${step.success}`)).toEqual(['a:true']);
+    });
+
+    it('keeps the failed checkpoint of a timed out, rolled back run', async () => {
+      const store = new InMemoryCheckpointStore();
+      const statuses: string[] = [];
+      const save = store.save.bind(store);
+      store.save = async checkpoint => {
+        statuses.push(checkpoint.status);
+        await save(checkpoint);
+      };
+
+      const workflow = new AgentWorkflow({ name: 'timeout', checkpointStore: store, timeout: 20, onError: 'rollback' })
+        .step('a', async context => context.data, { compensate: async () => undefined })
+        .step('slow', interruptible);
+
+      const result = await workflow.execute({});
+      await delay(30);
+
+      expect(result.status).toBe('failed');
+      expect(result.error?.message).toBe('Workflow timeout');
+      expect(statuses[statuses.length - 1]).toBe('failed');
+      const checkpoint = await store.load(result.runId);
+      expect(checkpoint?.status).toBe('failed');
+      expect(checkpoint?.completedSteps).toEqual(['a']);
+    });
+
+    it('does not resume runs that have ended', async () => {
+      const store = new InMemoryCheckpointStore();
+      const workflow = new AgentWorkflow({ name: 'ended', checkpointStore: store })
+        .step('slow', interruptible);
+
+      setTimeout(() => workflow.cancel(), 10);
+      const { runId } = await workflow.execute({});
+
+      await expect(workflow.resume(runId)).rejects.toMatchObject({ code: 'RUN_NOT_RESUMABLE' });
+    });
+  });
+
+  describe('rollback', () => {
+    it('compensates completed steps in reverse order with their results', async () => {
+      const compensated: string[] = [];
+      const compensate = async (_context: AgentContext, result: { step: string; data?: any }) => {
+        compensated.push(`${result.step}:${result.data.created}`);
+      };
+      const workflow = new AgentWorkflow({ name: 'rollback', onError: 'rollback' })
+        .step('a', async () => ({ created: 'lead' }), { compensate })
+        .step('skipped', async () => ({ created: 'never' }), { compensate, condition: () => false })
+        .step('b', async () => ({ created: 'deal' }), { compensate })
+        .step('fail', async () => {
+          throw new Error('boom');
+        });
+
+      const result = await workflow.execute({});
+
+      expect(result.status).toBe('failed');
+      expect(compensated).toEqual(['b:deal', 'a:lead']);
+      expect(result.rollback?.map(compensation => `${compensation.step}:${compensation.success}`))
+        .toEqual(['b:true', 'a:true']);
+    });
+
+    it('leaves completed steps alone when the workflow stops on errors', async () => {
+      const compensate = jest.fn();
+      const workflow = new AgentWorkflow({ name: 'stop' })
+        .step('a', async context => context.data, { compensate })
+        .step('fail', async () => {
+          throw new Error('boom');
+        });
+
+      const result = await workflow.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.rollback).toBeUndefined();
+      expect(compensate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parallel groups', () => {
+    it('runs branches concurrently and merges their outputs', async () => {
+      const events: string[] = [];
+      const branch = (name: string, output: any) => ({
+        name,
+        handler: async () => {
+          events.push(`start:${name}`);
+          await delay(10);
+          events.push(`end:${name}`);
+          return output;
+        }
+      });
+      const workflow = new AgentWorkflow({ name: 'parallel' })
+        .parallel('enrich', [branch('company', { size: 250 }), branch('email', { valid: true })]);
+
+      const result = await workflow.execute({ id: 1 });
+
+      expect(events.slice(0, 2)).toEqual(['start:company', 'start:email']);
+      expect(result.data).toEqual({ id: 1, size: 250, valid: true });
+      expect(result.steps.map(step => `${step.step}:${step.group ?? '-'}`))
+        .toEqual(expect.arrayContaining(['company:enrich', 'email:enrich']));
+    });
+
+    it('stores outputs by branch name with the namespace strategy', async () => {
+      const workflow = new AgentWorkflow({ name: 'namespace' })
+        .parallel('enrich', [
+          { name: 'company', handler: async () => ({ size: 250 }) },
+          { name: 'email', handler: async () => ({ valid: true }) }
+        ], { merge: 'namespace' });
+
+      const result = await workflow.execute({ id: 1 });
+
+      expect(result.data).toEqual({ id: 1, company: { size: 250 }, email: { valid: true } });
+    });
+
+    it('applies the failure policy of the group', async () => {
+      const branches = [
+        { name: 'ok', handler: async () => ({ ok: true }) },
+        {
+          name: 'broken',
+          handler: async () => {
+            throw new Error('boom');
+          }
+        }
+      ];
+
+      const all = await new AgentWorkflow({ name: 'all' }).parallel('group', branches).execute({});
+      const any = await new AgentWorkflow({ name: 'any' }).parallel('group', branches, { policy: 'any' }).execute({});
+
+      expect(all.success).toBe(false);
+      expect(any.success).toBe(true);
+      expect(any.data).toEqual({ ok: true });
+      expect(any.steps.find(step => step.step === 'broken')?.success).toBe(false);
+    });
+  });
+
+  describe('graph mode', () => {
+    const qualification = () => new AgentWorkflow({ name: 'qualification', mode: 'graph' })
+      .step('score', async context => ({ ...context.data, score: context.data.points * 10 }))
+      .ifElse('qualify', context => context.data.score >= 60, 'qualified', 'unqualified', { dependsOn: ['score'] })
+      .step('qualified', async context => ({ ...context.data, route: 'sales' }))
+      .step('unqualified', async context => ({ ...context.data, route: 'nurture' }));
+
+    it('runs the selected side of an if/else and skips the other', async () => {
+      const result = await qualification().execute({ points: 8 });
+
+      expect(result.data).toEqual({ points: 8, score: 80, route: 'sales' });
+      expect(result.steps.find(step => step.step === 'qualify')?.branch).toBe('true');
+      expect(result.steps.find(step => step.step === 'unqualified')).toMatchObject({ skipped: true });
+    });
+
+    it('follows the else side', async () => {
+      const result = await qualification().execute({ points: 2 });
+
+      expect(result.data.route).toBe('nurture');
+      expect(result.steps.find(step => step.step === 'qualified')).toMatchObject({ skipped: true });
+    });
+
+    it('rejects cycles and unknown steps when built', () => {
+      const cycle = new AgentWorkflow({ name: 'cycle', mode: 'graph' })
+        .step('a', async context => context.data, { dependsOn: ['b'] })
+        .step('b', async context => context.data, { dependsOn: ['a'] });
+      const unknown = new AgentWorkflow({ name: 'unknown', mode: 'graph' })
+        .ifElse('route', () => true, 'missing');
+
+      expect(() => cycle.build()).toThrow(expect.objectContaining({ code: 'WORKFLOW_CYCLE' }));
+      expect(() => unknown.build()).toThrow(expect.objectContaining({ code: 'INVALID_WORKFLOW' }));
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('resumes an interrupted run without repeating completed steps', async () => {
+      // Checkpoints of a process that died in step b: only the running ones were saved
+      const store = new InMemoryCheckpointStore();
+      const crashing = new InMemoryCheckpointStore();
+      crashing.save = async (checkpoint: WorkflowCheckpoint) => {
+        if (checkpoint.status === 'running') {
+          await store.save(checkpoint);
+        }
+      };
+      const calls: string[] = [];
+      const define = (config: { checkpointStore: InMemoryCheckpointStore }, failB: boolean) =>
+        new AgentWorkflow({ name: 'intake', ...config })
+          .step('a', async context => {
+            calls.push('a');
+            return { ...context.data, a: true };
+          })
+          .step('b', async context => {
+            calls.push('b');
+            if (failB) {
+              throw new Error('process died');
+            }
+            return { ...context.data, b: true };
+          });
+
+      const first = await define({ checkpointStore: crashing }, true).execute({ id: 1 });
+      expect((await store.load(first.runId))?.completedSteps).toEqual(['a']);
+
+      const resumed = await define({ checkpointStore: store }, false).resume(first.runId);
+
+      expect(calls).toEqual(['a', 'b', 'b']);
+      expect(resumed).toMatchObject({ runId: first.runId, status: 'completed', data: { id: 1, a: true, b: true } });
+      expect((await store.load(first.runId))?.status).toBe('completed');
+    });
+
+    it('fails to resume unknown runs and runs of other workflows', async () => {
+      const store = new InMemoryCheckpointStore();
+      const other = await new AgentWorkflow({ name: 'other', checkpointStore: store })
+        .step('a', async context => context.data)
+        .execute({});
+      const workflow = new AgentWorkflow({ name: 'mine', checkpointStore: store });
+
+      await expect(workflow.resume('missing')).rejects.toMatchObject({ code: 'CHECKPOINT_NOT_FOUND' });
+      await expect(workflow.resume(other.runId)).rejects.toMatchObject({ code: 'CHECKPOINT_MISMATCH' });
+    });
+  });
+
+  describe('step retries and timeouts', () => {
+    it('retries a failing step and records the failed attempts', async () => {
+      let calls = 0;
+      const workflow = new AgentWorkflow({ name: 'retry' })
+        .step('flaky', async () => {
+          if (++calls < 3) {
+            throw new Error(`attempt ${calls}`);
+          }
+          return { ok: true };
+        }, { retry: { maxAttempts: 3, delay: 1 } });
+
+      const result = await workflow.execute({});
+      const step = result.steps[0];
+
+      expect(result.success).toBe(true);
+      expect(step.attempts).toBe(3);
+      expect(step.attemptErrors?.map(error => error.message)).toEqual(['attempt 1', 'attempt 2']);
+    });
+
+    it('fails an attempt that exceeds the step timeout', async () => {
+      const workflow = new AgentWorkflow({ name: 'step-timeout' })
+        .step('slow', () => delay(200), { timeout: 10 });
+
+      const result = await workflow.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.steps[0].error).toMatchObject({ code: 'STEP_TIMEOUT' });
+    });
+  });
+
+  describe('concurrent runs', () => {
+    it('keeps the context, results and status of each run apart', async () => {
+      const release: Record<string, () => void> = {};
+      const workflow = new AgentWorkflow({ name: 'concurrent' })
+        .step('enrich', context => new Promise(resolve => {
+          release[context.data.id] = () => resolve({ ...context.data, enriched: context.data.id });
+        }))
+        .step('check', async context => {
+          if (context.data.id === 'bad') {
+            throw new Error('bad lead');
+          }
+          return { ...context.data, checked: true };
+        });
+
+      const good = workflow.execute({ id: 'good' });
+      const bad = workflow.execute({ id: 'bad' });
+      await delay(5);
+
+      const runs = workflow.getRuns();
+      expect(runs).toHaveLength(2);
+      expect(runs.map(run => `${run.context.data.id}:${run.status}:${run.currentSteps}`))
+        .toEqual(['good:running:enrich', 'bad:running:enrich']);
+
+      release.bad();
+      const badResult = await bad;
+      expect(workflow.getRun(runs[0].runId)?.status).toBe('running');
+      release.good();
+      const goodResult = await good;
+
+      expect(goodResult).toMatchObject({ status: 'completed', data: { id: 'good', enriched: 'good', checked: true } });
+      expect(badResult).toMatchObject({ status: 'failed', error: { message: 'bad lead' } });
+      expect(badResult.steps[0].data).toEqual({ id: 'bad', enriched: 'bad' });
+      expect(goodResult.runId).not.toBe(badResult.runId);
+      expect(goodResult.steps.map(step => `${step.step}:${step.success}`)).toEqual(['enrich:true', 'check:true']);
+      expect(badResult.steps.map(step => `${step.step}:${step.success}`)).toEqual(['enrich:true', 'check:false']);
+      expect(workflow.getRuns()).toEqual([]);
+    });
+
+    it('cancels one run without touching the other', async () => {
+      const workflow = new AgentWorkflow({ name: 'cancel-one' })
+        .step('slow', async context => {
+          await delay(30);
+          return context.data;
+        });
+
+      const first = workflow.execute({ id: 1 });
+      const second = workflow.execute({ id: 2 });
+      const [run] = workflow.getRuns();
+      workflow.cancel(run.runId);
+
+      expect((await first).status).toBe('cancelled');
+      expect((await second)).toMatchObject({ status: 'completed', data: { id: 2 } });
+    });
+  });
+
+  describe('sub-workflows', () => {
+    it('runs a child workflow as a step and maps its output', async () => {
+      const enrichment = new AgentWorkflow({ name: 'enrichment' })
+        .step('company', async context => ({ ...context.data, size: 250 }));
+      const workflow = new AgentWorkflow({ name: 'intake' })
+        .subworkflow('enrich', enrichment, { output: (output, context) => ({ ...context.data, size: output.size }) });
+
+      const result = await workflow.execute({ id: 1 });
+
+      expect(result.data).toEqual({ id: 1, size: 250 });
+      expect(result.steps[0].child).toMatchObject({ type: 'workflow', name: 'enrichment', result: { status: 'completed' } });
+    });
+
+    it('refuses child workflows with approval steps at any depth when built', () => {
+      const review = new AgentWorkflow({ name: 'review' }).approval('sign-off');
+      const wrapper = new AgentWorkflow({ name: 'wrapper' }).subworkflow('review', review);
+
+      const direct = new AgentWorkflow({ name: 'direct' }).subworkflow('review', review);
+      const nested = new AgentWorkflow({ name: 'nested' })
+        .parallel('group', [AgentWorkflow.workflowStep('wrapped', wrapper)]);
+
+      expect(() => direct.build()).toThrow(expect.objectContaining({
+        code: 'INVALID_WORKFLOW',
+        details: { step: 'review', workflow: 'review', approval: 'sign-off' }
+      }));
+      expect(() => nested.build()).toThrow(expect.objectContaining({
+        code: 'INVALID_WORKFLOW',
+        details: { step: 'wrapped', workflow: 'review', approval: 'sign-off' }
+      }));
+    });
+
+    it('fails the step without suspending a child that gained an approval step after the parent was built', async () => {
+      const child = new AgentWorkflow({ name: 'child' })
+        .step('a', async context => context.data);
+      const workflow = new AgentWorkflow({ name: 'parent' })
+        .subworkflow('child', child)
+        .build();
+      child.approval('sign-off', { timeout: 60000 });
+
+      const result = await workflow.execute({});
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toMatchObject({ code: 'INVALID_WORKFLOW' });
+      expect(child.getRuns()).toEqual([]);
+    });
+  });
+
+  describe('approvals', () => {
+    const conversion = (store: InMemoryCheckpointStore) =>
+      new AgentWorkflow({ name: 'conversion', mode: 'graph', checkpointStore: store })
+        .step('score', async context => ({ ...context.data, score: 90 }))
+        .approval('review', {
+          assignee: 'manager',
+          approved: 'convert',
+          rejected: 'nurture',
+          dependsOn: ['score']
+        })
+        .step('convert', async context => ({ ...context.data, converted: true }))
+        .step('nurture', async context => ({ ...context.data, nurtured: true }));
+
+    it('suspends the run until it is approved and routes on the decision', async () => {
+      const store = new InMemoryCheckpointStore();
+      const workflow = conversion(store);
+
+      const pending = await workflow.execute({ id: 1 });
+
+      expect(pending.status).toBe('pending');
+      expect(pending.pending?.[0]).toMatchObject({ step: 'review', assignee: 'manager', status: 'pending' });
+      expect(await workflow.getPendingApprovals({ assignee: 'manager' })).toHaveLength(1);
+      expect((await store.load(pending.runId))?.status).toBe('pending');
+
+      const result = await workflow.approve(pending.runId, 'review', { by: 'jane' });
+
+      expect(result).toMatchObject({ status: 'completed', data: { id: 1, score: 90, converted: true } });
+      expect(result.steps.find(step => step.step === 'nurture')).toMatchObject({ skipped: true });
+      expect(result.steps.find(step => step.step === 'review')?.approval?.decision).toMatchObject({ approved: true, by: 'jane' });
+    });
+
+    it('takes decisions for runs suspended by another process', async () => {
+      const store = new InMemoryCheckpointStore();
+      const { runId } = await conversion(store).execute({ id: 1 });
+
+      const result = await conversion(store).reject(runId, 'review');
+
+      expect(result.data).toEqual({ id: 1, score: 90, nurtured: true });
+      await expect(conversion(store).approve(runId, 'review')).rejects.toMatchObject({ code: 'RUN_NOT_PENDING' });
+    });
+
+    it('fails the step on rejection without a rejected route', async () => {
+      const workflow = new AgentWorkflow({ name: 'sign-off' })
+        .approval('sign-off')
+        .step('after', async context => context.data);
+      const { runId } = await workflow.execute({});
+
+      const result = await workflow.reject(runId, 'sign-off');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toMatchObject({ code: 'APPROVAL_REJECTED' });
+    });
+
+    it('rejects overdue requests when approvals expire', async () => {
+      const workflow = new AgentWorkflow({ name: 'deadline' })
+        .approval('sign-off', { timeout: 60000 });
+      const { runId } = await workflow.execute({});
+
+      const [result] = await workflow.expireApprovals(new Date(Date.now() + 120000));
+
+      expect(result).toMatchObject({ runId, status: 'failed' });
+      expect(result.steps[0].approval?.decision).toMatchObject({ approved: false, automatic: true });
+    });
+  });
+
+  describe('agent schemas', () => {
+    class ScoringAgent extends BaseAgent {
+      constructor(config: Partial<AgentConfig>, public handler: jest.Mock) {
+        super({ name: 'scoring', ...config });
+      }
+
+      protected async run(context: AgentContext): Promise<any> {
+        return this.handler(context);
+      }
+    }
+
+    it.each([
+      ['INVALID_INPUT', { inputSchema: z.object({ email: z.string().email() }) }, 0],
+      ['INVALID_OUTPUT', { outputSchema: z.object({ score: z.number() }) }, 1]
+    ])('fails the step on %s without retrying it', async (code, config, calls) => {
+      const handler = jest.fn().mockResolvedValue({ score: 'high' });
+      const workflow = new AgentWorkflow({ name: 'scoring' })
+        .agent('score', new ScoringAgent(config, handler), { retry: { maxAttempts: 3, delay: 1 } });
+
+      const result = await workflow.execute({ email: 'jane' });
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toMatchObject({ code });
+      expect(result.steps).toEqual([expect.objectContaining({ step: 'score', attempts: 1 })]);
+      expect(handler).toHaveBeenCalledTimes(calls);
+    });
+  });
+});
@@ -7,55 +7,444 @@ import { EventEmitter } from 'eventemitter3';
 import {
   WorkflowConfig,
   WorkflowStep,
+  StepOptions,
+  ChildStepOptions,
+  StepChild,
+  ChildRun,
+  RetryConfig,
+  ParallelGroup,
+  WorkflowBranch,
+  WorkflowApproval,
+  ApprovalConfig,
+  ApprovalRequest,
+  ApprovalDecision,
+  BranchValue,
   AgentContext,
   StepResult,
+  CompensationResult,
+  WorkflowRunStatus,
+  WorkflowCheckpoint,
+  WorkflowRunInfo,
   AgentEvent,
   EventListener,
-  AgentError
+  AgentMiddleware,
+  AgentError,
+  WorkflowDefinition,
+  WorkflowEntryDefinition,
+  StepDefinition,
+  DefinitionIssue,
+  DefinitionFormat,
+  IMetricsRegistry,
+  ILogger
 } from './types';
+import { calculateRetryDelay, isRetryableError, sleep } from './retry';
+import { runMiddleware } from './middleware';
+import { Span, getGlobalTracer, getActiveTrace, withActiveTrace } from './tracing/Tracer';
+import { getGlobalMetrics } from './metrics/MetricsRegistry';
+import {
+  recordWorkflowRun,
+  recordWorkflowStep,
+  recordWorkflowStepRetry
+} from './metrics/instruments';
+import { getGlobalLogger, logEvent } from './logging/Logger';
+import { executeIdempotent } from './idempotency/idempotent';
+import { abortReason, throwIfAborted, linkAbortSignal, raceAbort } from './abort';
+import { expression, isWorkflowExpression } from './expression';
+import { StepRegistry, RegisteredHandler } from './StepRegistry';
+import type { BaseAgent } from './BaseAgent';
+import {
+  MERGE_STRATEGIES,
+  parseWorkflowDefinition,
+  validateWorkflowDefinition,
+  stringifyWorkflowDefinition,
+  isParallelGroupDefinition,
+  isApprovalDefinition,
+  isBranchDefinition
+} from './definition';
 
 /**
  * Workflow execution result
  */
 export interface WorkflowResult<T = any> {
   success: boolean;
+  /** Run ID, used to resume the run from a checkpoint */
+  runId: string;
   data?: T;
   steps: StepResult[];
   error?: Error;
   executionTime: number;
+  /** Compensations run during rollback, in execution order */
+  rollback?: CompensationResult[];
+  /** Whether the run was cancelled */
+  cancelled?: boolean;
+  /** Run status; 'pending' when the run is suspended for approval */
+  status: WorkflowRunStatus;
+  /** Approval requests the run is waiting for */
+  pending?: ApprovalRequest[];
+  /** Metadata, including the idempotency outcome under `idempotency` */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Entry in the workflow: a single step, a group of parallel steps, a branch or an approval
+ */
+type WorkflowEntry = WorkflowStep | ParallelGroup | WorkflowBranch | WorkflowApproval;
+
+/**
+ * Thrown by an approval step to suspend the run until a decision is submitted
+ */
+class ApprovalPending extends Error {
+  constructor(public step: string) {
+    super(`Waiting for approval: ${step}`);
+    this.name = 'ApprovalPending';
+  }
+}
+
+/**
+ * State of a single run, kept apart from the workflow definition
+ */
+interface WorkflowRun {
+  /** Run context; its ID is the run ID */
+  context: AgentContext;
+  /** Run status */
+  status: WorkflowRunStatus;
+  /** Entries that completed and are not executed again on resume */
+  completedSteps: Set<string>;
+  /** Steps currently executing */
+  currentSteps: Set<string>;
+  /** Approval requests by step name */
+  approvals: Map<string, ApprovalRequest>;
+  /** Aborts the run */
+  controller: AbortController;
+  /** Start time */
+  startedAt: Date;
+  /** End time */
+  completedAt?: Date;
+  /** Passes the run's events to the parent run, when run as a sub-workflow */
+  forward?: (event: AgentEvent) => void;
+  /** Span of the current execution of the run, when tracing */
+  span?: Span;
+  /** Logger carrying the workflow name and run ID */
+  logger?: ILogger;
+  /** Last checkpoint write; writes are made one after another */
+  checkpointWrite?: Promise<void>;
+  /** Set once the final status is saved; later writes are dropped */
+  checkpointClosed?: boolean;
 }
 
+/** Statuses of runs that have ended and cannot be resumed */
+const TERMINAL_STATUSES: WorkflowRunStatus[] = ['completed', 'failed', 'cancelled'];
+
 /**
  * Agent Workflow class for building multi-step workflows
  */
 export class AgentWorkflow extends EventEmitter {
   private config: WorkflowConfig;
-  private steps: WorkflowStep[] = [];
-  private context: AgentContext | null = null;
+  private steps: WorkflowEntry[] = [];
+  private order: WorkflowEntry[] | null = null;
+  private runs: Map<string, WorkflowRun> = new Map();
+  private suspended: Map<string, WorkflowRun> = new Map();
+  private approvalTimers: Map<string, ReturnType<typeof setTimeout>[]> = new Map();
+  private lastRun: WorkflowRun | null = null;
 
   constructor(config: WorkflowConfig) {
     super();
     this.config = {
-      timeout: 300000, // 5 minute default timeout
-      onError: 'stop',
-      ...config
+      ...config,
+      timeout: config.timeout ?? 300000, // 5 minute default timeout
+      onError: config.onError ?? 'stop'
     };
   }
 
+  /**
+   * Create a workflow from a definition object or a JSON/YAML document
+   * Handlers and agents are resolved from the registry. Runtime-only settings,
+   * such as the checkpoint store, are passed in config.
+   */
+  static fromDefinition(
+    definition: WorkflowDefinition | string,
+    registry: StepRegistry,
+    config?: Partial<Omit<WorkflowConfig, 'name'>>
+  ): AgentWorkflow {
+    const validated = typeof definition === 'string'
+      ? parseWorkflowDefinition(definition, registry)
+      : validateWorkflowDefinition(definition, registry);
+
+    const { steps, ...settings } = validated;
+    const workflow = new AgentWorkflow({ ...settings, ...config });
+
+    for (const entry of steps) {
+      if (isParallelGroupDefinition(entry)) {
+        workflow.parallel(
+          entry.name,
+          entry.parallel.map(step => AgentWorkflow.stepFromDefinition(step, registry)),
+          {
+            merge: entry.merge && !MERGE_STRATEGIES.includes(entry.merge)
+              ? registry.getHandler(entry.merge) as ParallelGroup['merge']
+              : entry.merge as ParallelGroup['merge'],
+            policy: entry.policy,
+            condition: entry.condition !== undefined ? expression(entry.condition) : undefined,
+            dependsOn: entry.dependsOn
+          }
+        );
+      } else if (isApprovalDefinition(entry)) {
+        const { payload, ...approval } = entry.approval;
+        workflow.approval(entry.name, {
+          ...approval,
+          payload: payload ? registry.getHandler(payload) : undefined,
+          approved: entry.approved,
+          rejected: entry.rejected,
+          condition: entry.condition !== undefined ? expression(entry.condition) : undefined,
+          dependsOn: entry.dependsOn
+        });
+      } else if (isBranchDefinition(entry)) {
+        workflow.branch(entry.name, expression(entry.select), entry.cases, {
+          default: entry.default,
+          dependsOn: entry.dependsOn
+        });
+      } else {
+        workflow.addEntry(AgentWorkflow.stepFromDefinition(entry, registry));
+      }
+    }
+
+    return workflow.build();
+  }
+
+  /**
+   * Create a step from its definition
+   */
+  private static stepFromDefinition(step: StepDefinition, registry: StepRegistry): WorkflowStep {
+    const options: StepOptions = {
+      condition: step.condition !== undefined ? expression(step.condition) : undefined,
+      onError: step.onError ? registry.getHandler(step.onError) : undefined,
+      compensate: step.compensate ? registry.getHandler(step.compensate) : undefined,
+      dependsOn: step.dependsOn,
+      retry: step.retry,
+      timeout: step.timeout
+    };
+    const mapping: Pick<ChildStepOptions, 'input' | 'output'> = {
+      input: step.input ? registry.getHandler(step.input) : undefined,
+      output: step.output ? registry.getHandler(step.output) : undefined
+    };
+
+    if (step.agent) {
+      return AgentWorkflow.agentStep(step.name, registry.getAgent(step.agent)!, { ...options, ...mapping });
+    }
+    if (step.workflow) {
+      return AgentWorkflow.workflowStep(step.name, registry.getWorkflow(step.workflow)!, { ...options, ...mapping });
+    }
+    return { name: step.name, handler: registry.getHandler(step.handler!)!, ...options };
+  }
+
+  /**
+   * Describe the workflow as a definition
+   * Handlers must be registered in the registry and conditions must be
+   * expressions; otherwise an AgentError with code 'DEFINITION_EXPORT_FAILED'
+   * lists what cannot be exported.
+   */
+  toDefinition(registry: StepRegistry): WorkflowDefinition {
+    const issues: DefinitionIssue[] = [];
+
+    const steps = this.steps.map((entry, index): WorkflowEntryDefinition => {
+      const path = `steps[${index}]`;
+
+      if (this.isParallelGroup(entry)) {
+        return {
+          name: entry.name,
+          parallel: entry.steps.map((step, stepIndex) =>
+            this.stepDefinition(step, `${path}.parallel[${stepIndex}]`, registry, issues)
+          ),
+          merge: typeof entry.merge === 'function'
+            ? this.handlerReference(entry.merge, `${path}.merge`, registry, issues)
+            : entry.merge,
+          policy: entry.policy,
+          condition: this.expressionSource(entry.condition, `${path}.condition`, issues),
+          dependsOn: entry.dependsOn
+        };
+      }
+
+      if (this.isApproval(entry)) {
+        const { approval } = entry;
+        for (const key of ['assignee', 'escalateTo'] as const) {
+          if (typeof approval[key] === 'function') {
+            issues.push({ path: `${path}.approval.${key}`, message: 'Only fixed assignees can be exported' });
+          }
+        }
+
+        return {
+          name: entry.name,
+          approval: {
+            payload: approval.payload &&
+              this.handlerReference(approval.payload, `${path}.approval.payload`, registry, issues),
+            assignee: approval.assignee as string | undefined,
+            timeout: approval.timeout,
+            onTimeout: approval.onTimeout,
+            escalateTo: approval.escalateTo as string | undefined,
+            escalationTimeout: approval.escalationTimeout
+          },
+          approved: entry.cases.approved,
+          rejected: entry.cases.rejected,
+          condition: this.expressionSource(entry.condition, `${path}.condition`, issues),
+          dependsOn: entry.dependsOn
+        };
+      }
+
+      if (this.isBranch(entry)) {
+        return {
+          name: entry.name,
+          select: this.expressionSource(entry.select, `${path}.select`, issues)!,
+          cases: entry.cases,
+          default: entry.default,
+          dependsOn: entry.dependsOn
+        };
+      }
+
+      return this.stepDefinition(entry, path, registry, issues);
+    });
+
+    if (issues.length > 0) {
+      throw new AgentError(
+        `Workflow "${this.config.name}" cannot be exported:\n` +
+          issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n'),
+        'DEFINITION_EXPORT_FAILED',
+        { issues }
+      );
+    }
+
+    const definition: WorkflowDefinition = {
+      name: this.config.name,
+      description: this.config.description,
+      timeout: this.config.timeout,
+      onError: this.config.onError,
+      mode: this.config.mode,
+      steps
+    };
+
+    // Drop unset fields
+    return JSON.parse(JSON.stringify(definition));
+  }
+
+  /**
+   * Export the workflow as a JSON or YAML document
+   */
+  exportDefinition(registry: StepRegistry, format: DefinitionFormat = 'yaml'): string {
+    return stringifyWorkflowDefinition(this.toDefinition(registry), format);
+  }
+
+  /**
+   * Describe a step as a definition
+   */
+  private stepDefinition(
+    step: WorkflowStep,
+    path: string,
+    registry: StepRegistry,
+    issues: DefinitionIssue[]
+  ): StepDefinition {
+    const { child } = step;
+    let reference: Pick<StepDefinition, 'handler' | 'agent' | 'workflow'>;
+
+    if (child?.type === 'agent') {
+      const agent = registry.findAgentName(child.agent);
+      if (!agent) {
+        issues.push({ path: `${path}.agent`, message: 'Agent is not registered in the step registry' });
+      }
+      reference = { agent };
+    } else if (child?.type === 'workflow') {
+      const workflow = registry.findWorkflowName(child.workflow);
+      if (!workflow) {
+        issues.push({ path: `${path}.workflow`, message: 'Workflow is not registered in the step registry' });
+      }
+      reference = { workflow };
+    } else {
+      reference = { handler: this.handlerReference(step.handler, `${path}.handler`, registry, issues) };
+    }
+
+    return {
+      name: step.name,
+      ...reference,
+      input: child?.input && this.handlerReference(child.input, `${path}.input`, registry, issues),
+      output: child?.output && this.handlerReference(child.output, `${path}.output`, registry, issues),
+      condition: this.expressionSource(step.condition, `${path}.condition`, issues),
+      onError: step.onError && this.handlerReference(step.onError, `${path}.onError`, registry, issues),
+      compensate: step.compensate &&
+        this.handlerReference(step.compensate, `${path}.compensate`, registry, issues),
+      dependsOn: step.dependsOn,
+      retry: step.retry && this.retryDefinition(step.retry, `${path}.retry`, issues),
+      timeout: step.timeout
+    };
+  }
+
+  /**
+   * Retry configuration without the retryable predicate, which cannot be exported
+   */
+  private retryDefinition(
+    retry: RetryConfig,
+    path: string,
+    issues: DefinitionIssue[]
+  ): StepDefinition['retry'] {
+    const { retryable, ...definition } = retry;
+    if (retryable) {
+      issues.push({ path: `${path}.retryable`, message: 'Retry predicates cannot be exported' });
+    }
+    return definition;
+  }
+
+  /**
+   * Registered name of a handler
+   */
+  private handlerReference(
+    handler: RegisteredHandler,
+    path: string,
+    registry: StepRegistry,
+    issues: DefinitionIssue[]
+  ): string | undefined {
+    const name = registry.findHandlerName(handler);
+    if (!name) {
+      issues.push({ path, message: 'Function is not registered in the step registry' });
+    }
+    return name;
+  }
+
+  /**
+   * Source of an expression condition or selector
+   */
+  private expressionSource(
+    fn: ((context: AgentContext) => any) | undefined,
+    path: string,
+    issues: DefinitionIssue[]
+  ): string | undefined {
+    if (!fn) {
+      return undefined;
+    }
+    if (!isWorkflowExpression(fn)) {
+      issues.push({ path, message: 'Function is not an expression; create it with expression()' });
+      return undefined;
+    }
+    return fn.source;
+  }
+
+  /**
+   * Add middleware around every step, after the configured middleware
+   */
+  use(middleware: AgentMiddleware): this {
+    this.config.middleware = [...(this.config.middleware || []), middleware];
+    return this;
+  }
+
   /**
    * Add a step to the workflow
    */
-  step(name: string, handler: WorkflowStep['handler'], options?: {
-    condition?: WorkflowStep['condition'];
-    onError?: WorkflowStep['onError'];
-  }): this {
-    this.steps.push({
+  step(name: string, handler: WorkflowStep['handler'], options?: StepOptions): this {
+    return this.addEntry({
       name,
       handler,
       condition: options?.condition,
-      onError: options?.onError
+      onError: options?.onError,
+      compensate: options?.compensate,
+      dependsOn: options?.dependsOn,
+      retry: options?.retry,
+      timeout: options?.timeout
     });
-    return this;
   }
 
   /**
@@ -64,75 +453,636 @@ export class AgentWorkflow extends EventEmitter {
   when(
     condition: (context: AgentContext) => boolean | Promise<boolean>,
     name: string,
-    handler: WorkflowStep['handler']
+    handler: WorkflowStep['handler'],
+    options?: Omit<StepOptions, 'condition'>
+  ): this {
+    return this.step(name, handler, { ...options, condition });
+  }
+
+  /**
+   * Add a step that executes an agent
+   * The agent's AgentResult is recorded in the step result; a failed result fails the step.
+   */
+  agent(name: string, agent: BaseAgent, options?: ChildStepOptions): this {
+    return this.addEntry(AgentWorkflow.agentStep(name, agent, options));
+  }
+
+  /**
+   * Add a step that runs another workflow
+   * The child's WorkflowResult is recorded in the step result; a failed run fails the step.
+   */
+  subworkflow(name: string, workflow: AgentWorkflow, options?: ChildStepOptions): this {
+    return this.addEntry(AgentWorkflow.workflowStep(name, workflow, options));
+  }
+
+  /**
+   * Create a step that executes an agent, e.g. as a branch of a parallel group
+   * The agent receives the context data, or the result of options.input, and its
+   * output, mapped by options.output, becomes the step output.
+   */
+  static agentStep(name: string, agent: BaseAgent, options?: ChildStepOptions): WorkflowStep {
+    const { input, output, ...stepOptions } = options || {};
+    return AgentWorkflow.childStep(name, { type: 'agent', agent, input, output }, stepOptions);
+  }
+
+  /**
+   * Create a step that runs another workflow, e.g. as a branch of a parallel group
+   */
+  static workflowStep(name: string, workflow: AgentWorkflow, options?: ChildStepOptions): WorkflowStep {
+    const { input, output, ...stepOptions } = options || {};
+    return AgentWorkflow.childStep(name, { type: 'workflow', workflow, input, output }, stepOptions);
+  }
+
+  /**
+   * Create a step running a child
+   * Inside a workflow the child is run by executeChild(); the handler covers
+   * direct calls and does not forward events.
+   */
+  private static childStep(name: string, child: StepChild, options: StepOptions): WorkflowStep {
+    return {
+      name,
+      ...options,
+      child,
+      handler: async context => AgentWorkflow.childOutput(child, await AgentWorkflow.runChild(name, child, context), context)
+    };
+  }
+
+  /**
+   * Run the agent or workflow of a child step
+   * A failed child is returned, not thrown, so its result can be recorded.
+   */
+  private static async runChild(
+    step: string,
+    child: StepChild,
+    context: AgentContext,
+    forward?: (event: AgentEvent) => void
+  ): Promise<ChildRun> {
+    const input = child.input ? await child.input(context) : context.data;
+    const metadata = { ...context.metadata };
+
+    if (child.type === 'agent') {
+      const { agent } = child;
+      const name = agent.getConfig().name;
+      const runId = `${name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      // The agent may serve other callers, forward only this execution's events
+      const listener = (event: AgentEvent) => {
+        if (event.runId === runId) {
+          forward!(event);
+        }
+      };
+      if (forward) {
+        agent.onEvent(listener);
+      }
+
+      try {
+        const result = await agent.execute(input, {
+          id: runId,
+          metadata,
+          signal: context.signal,
+          trace: context.trace,
+          logger: context.logger,
+          idempotencyKey: context.idempotencyKey
+        });
+        return { type: 'agent', name, runId, result };
+      } finally {
+        agent.offEvent(listener);
+      }
+    }
+
+    const { workflow } = child;
+    // Steps may have been added to the child since the parent was built
+    AgentWorkflow.assertNoApprovals(step, workflow);
+
+    const run = workflow.createRun(workflow.createContext(input, {
+      metadata,
+      trace: context.trace,
+      logger: context.logger,
+      idempotencyKey: context.idempotencyKey
+    }), []);
+    run.forward = forward;
+
+    const result = await workflow.executeRun(run, 'workflow:start', context.signal);
+    return { type: 'workflow', name: workflow.config.name, runId: result.runId, result };
+  }
+
+  /**
+   * Refuse a sub-workflow containing approval steps, at any depth
+   * A child cannot suspend: its parent would fail while the child waited for a decision.
+   */
+  private static assertNoApprovals(
+    step: string,
+    workflow: AgentWorkflow,
+    visited: Set<AgentWorkflow> = new Set()
+  ): void {
+    if (visited.has(workflow)) {
+      return;
+    }
+    visited.add(workflow);
+
+    for (const entry of workflow.steps) {
+      if (workflow.isApproval(entry)) {
+        throw new AgentError(
+          `Step "${step}" runs workflow "${workflow.config.name}", whose approval step "${entry.name}" cannot suspend a sub-workflow`,
+          'INVALID_WORKFLOW',
+          { step, workflow: workflow.config.name, approval: entry.name }
+        );
+      }
+      const steps = workflow.isParallelGroup(entry) ? entry.steps : workflow.isRouting(entry) ? [] : [entry];
+      for (const child of steps) {
+        if (child.child?.type === 'workflow') {
+          AgentWorkflow.assertNoApprovals(step, child.child.workflow, visited);
+        }
+      }
+    }
+  }
+
+  /**
+   * Output of a child step; throws the child's error if it failed
+   */
+  private static childOutput(child: StepChild, childRun: ChildRun, context: AgentContext): any {
+    const { result } = childRun;
+    if (!result.success) {
+      throw result.error || new AgentError(
+        `Child ${childRun.type} "${childRun.name}" failed`,
+        'CHILD_FAILED',
+        { runId: childRun.runId }
+      );
+    }
+    return child.output ? child.output(result.data, context) : result.data;
+  }
+
+  /**
+   * Add a group of steps that run concurrently
+   * Branch outputs are merged into the context data once every branch has settled.
+   */
+  parallel(name: string, steps: WorkflowStep[], options?: {
+    merge?: ParallelGroup['merge'];
+    policy?: ParallelGroup['policy'];
+    condition?: ParallelGroup['condition'];
+    dependsOn?: ParallelGroup['dependsOn'];
+  }): this {
+    return this.addEntry({
+      name,
+      steps: [...steps],
+      merge: options?.merge || 'shallow',
+      policy: options?.policy || 'all',
+      condition: options?.condition,
+      dependsOn: options?.dependsOn
+    });
+  }
+
+  /**
+   * Add a branch node (graph mode)
+   * The selected case's steps run; steps only reachable through other cases are skipped.
+   */
+  branch(
+    name: string,
+    select: WorkflowBranch['select'],
+    cases: WorkflowBranch['cases'],
+    options?: {
+      default?: WorkflowBranch['default'];
+      dependsOn?: WorkflowBranch['dependsOn'];
+    }
+  ): this {
+    return this.addEntry({
+      name,
+      select,
+      cases: { ...cases },
+      default: options?.default,
+      dependsOn: options?.dependsOn
+    });
+  }
+
+  /**
+   * Add an if/else branch node (graph mode)
+   */
+  ifElse(
+    name: string,
+    condition: (context: AgentContext) => boolean | Promise<boolean>,
+    thenSteps: string | string[],
+    elseSteps?: string | string[],
+    options?: {
+      dependsOn?: WorkflowBranch['dependsOn'];
+    }
   ): this {
-    return this.step(name, handler, { condition });
+    const cases: WorkflowBranch['cases'] = { true: thenSteps };
+    if (elseSteps) {
+      cases.false = elseSteps;
+    }
+    return this.branch(name, condition, cases, options);
+  }
+
+  /**
+   * Add an approval step
+   * The run is suspended with status 'pending' until approve() or reject() is called.
+   * In graph mode, `approved` and `rejected` route the run like a branch node; without
+   * a `rejected` route a rejection fails the step.
+   */
+  approval(name: string, options?: ApprovalConfig & {
+    approved?: string | string[];
+    rejected?: string | string[];
+    condition?: WorkflowApproval['condition'];
+    dependsOn?: WorkflowApproval['dependsOn'];
+  }): this {
+    const { approved, rejected, condition, dependsOn, ...approval } = options || {};
+    const cases: WorkflowApproval['cases'] = {};
+    if (approved) {
+      cases.approved = approved;
+    }
+    if (rejected) {
+      cases.rejected = rejected;
+    }
+    return this.addEntry({ name, approval, cases, condition, dependsOn });
+  }
+
+  /**
+   * Validate the workflow definition and compute its execution order
+   * Called by execute(); call it directly to surface definition errors early.
+   */
+  build(): this {
+    const names = new Set<string>();
+    for (const name of this.allStepNames()) {
+      if (names.has(name)) {
+        throw new AgentError(`Duplicate step name: ${name}`, 'INVALID_WORKFLOW', { step: name });
+      }
+      names.add(name);
+    }
+
+    for (const entry of this.steps) {
+      const steps = this.isParallelGroup(entry) ? entry.steps : this.isRouting(entry) ? [] : [entry];
+      for (const step of steps) {
+        if (step.child?.type === 'workflow') {
+          AgentWorkflow.assertNoApprovals(step.name, step.child.workflow);
+        }
+      }
+    }
+
+    if (this.config.mode !== 'graph') {
+      const graphEntry = this.steps.find(entry =>
+        this.isBranch(entry) ||
+        (this.isApproval(entry) && Object.keys(entry.cases).length > 0) ||
+        (entry.dependsOn && entry.dependsOn.length > 0)
+      );
+      if (graphEntry) {
+        throw new AgentError(
+          `Step "${graphEntry.name}" uses branches or dependencies, which require mode: 'graph'`,
+          'INVALID_WORKFLOW',
+          { step: graphEntry.name }
+        );
+      }
+      this.order = [...this.steps];
+      return this;
+    }
+
+    const entries = new Map(this.steps.map(entry => [entry.name, entry]));
+    for (const entry of this.steps) {
+      const references = this.isRouting(entry)
+        ? [...(entry.dependsOn || []), ...this.allBranchTargets(entry)]
+        : entry.dependsOn || [];
+      const unknown = references.find(reference => !entries.has(reference));
+      if (unknown) {
+        throw new AgentError(
+          `Step "${entry.name}" references unknown step "${unknown}"`,
+          'INVALID_WORKFLOW',
+          { step: entry.name, reference: unknown }
+        );
+      }
+    }
+
+    // Kahn's algorithm, ties broken by insertion order
+    const pending = new Map(this.steps.map(entry => [entry.name, this.dependencies(entry).length]));
+    const order: WorkflowEntry[] = [];
+    let ready = this.steps.filter(entry => pending.get(entry.name) === 0);
+
+    while (ready.length > 0) {
+      const [entry] = ready;
+      order.push(entry);
+      pending.delete(entry.name);
+
+      for (const dependent of this.steps) {
+        if (pending.has(dependent.name) && this.dependencies(dependent).includes(entry.name)) {
+          pending.set(dependent.name, pending.get(dependent.name)! - 1);
+        }
+      }
+      ready = this.steps.filter(candidate => pending.get(candidate.name) === 0);
+    }
+
+    if (pending.size > 0) {
+      const cycle = this.findCycle([...pending.keys()]);
+      throw new AgentError(
+        `Workflow contains a cycle: ${cycle.join(' -> ')}`,
+        'WORKFLOW_CYCLE',
+        { cycle }
+      );
+    }
+
+    this.order = order;
+    return this;
   }
 
   /**
    * Execute the workflow
+   * Each call is an isolated run, so one workflow can execute many runs concurrently.
+   * With initialContext.idempotencyKey, duplicates of a run return its result; a
+   * suspended run's result is returned as well, with its run ID.
    */
   async execute<TInput = any, TOutput = any>(
     input: TInput,
     initialContext?: Partial<AgentContext>
+  ): Promise<WorkflowResult<TOutput>> {
+    const run = () => this.executeRun<TOutput>(
+      this.createRun(this.createContext(input, initialContext), []),
+      'workflow:start',
+      initialContext?.signal
+    );
+
+    const key = initialContext?.idempotencyKey;
+    if (!key) {
+      return run();
+    }
+
+    return executeIdempotent(key, {
+      config: this.config.idempotency,
+      scope: `workflow:${this.config.name}`,
+      recordable: result => result.success || result.status === 'pending',
+      signal: initialContext?.signal,
+      logger: (this.config.logger ?? initialContext?.logger ?? getGlobalLogger())
+        .child({ workflow: this.config.name })
+    }, run);
+  }
+
+  /**
+   * Resume a run from its last checkpoint
+   * Steps that completed before the checkpoint are not executed again; a step that was
+   * interrupted mid-way runs again from the start. Runs that completed, failed or were
+   * cancelled cannot be resumed.
+   */
+  async resume<TOutput = any>(runId: string): Promise<WorkflowResult<TOutput>> {
+    const store = this.config.checkpointStore;
+    if (!store) {
+      throw new AgentError('Workflow has no checkpoint store', 'CHECKPOINT_STORE_MISSING');
+    }
+    if (this.runs.has(runId)) {
+      throw new AgentError(`Run ${runId} is already active`, 'RUN_ACTIVE', { runId });
+    }
+    const suspended = this.suspended.get(runId);
+    if (suspended) {
+      return this.resumeSuspended<TOutput>(suspended);
+    }
+
+    const checkpoint = await store.load(runId);
+    if (!checkpoint) {
+      throw new AgentError(`No checkpoint found for run: ${runId}`, 'CHECKPOINT_NOT_FOUND', { runId });
+    }
+    if (checkpoint.workflow !== this.config.name) {
+      throw new AgentError(
+        `Run ${runId} belongs to workflow "${checkpoint.workflow}"`,
+        'CHECKPOINT_MISMATCH',
+        { runId, workflow: checkpoint.workflow }
+      );
+    }
+    if (TERMINAL_STATUSES.includes(checkpoint.status)) {
+      throw new AgentError(
+        `Run ${runId} is ${checkpoint.status} and cannot be resumed`,
+        'RUN_NOT_RESUMABLE',
+        { runId, status: checkpoint.status }
+      );
+    }
+
+    return this.executeRun<TOutput>(
+      this.createRun(checkpoint.context, checkpoint.completedSteps, checkpoint.approvals),
+      'workflow:resume'
+    );
+  }
+
+  /**
+   * Approve a pending approval step and resume the run
+   */
+  async approve<TOutput = any>(
+    runId: string,
+    step: string,
+    options?: { by?: string; comment?: string }
+  ): Promise<WorkflowResult<TOutput>> {
+    return this.decide<TOutput>(runId, step, { ...options, approved: true });
+  }
+
+  /**
+   * Reject a pending approval step and resume the run
+   */
+  async reject<TOutput = any>(
+    runId: string,
+    step: string,
+    options?: { by?: string; comment?: string }
+  ): Promise<WorkflowResult<TOutput>> {
+    return this.decide<TOutput>(runId, step, { ...options, approved: false });
+  }
+
+  /**
+   * Submit a decision for a pending approval step and resume the run
+   * Runs suspended by another process are loaded from the checkpoint store.
+   */
+  async decide<TOutput = any>(
+    runId: string,
+    step: string,
+    decision: Omit<ApprovalDecision, 'decidedAt'>
+  ): Promise<WorkflowResult<TOutput>> {
+    const run = await this.loadSuspendedRun(runId);
+    const request = run.approvals.get(step);
+    if (!request || request.status !== 'pending') {
+      throw new AgentError(
+        `No pending approval "${step}" in run ${runId}`,
+        'APPROVAL_NOT_PENDING',
+        { runId, step }
+      );
+    }
+
+    this.recordDecision(run, request, { ...decision, decidedAt: new Date() });
+    return this.resumeSuspended<TOutput>(run);
+  }
+
+  /**
+   * List pending approval requests
+   * Includes runs suspended by other processes when a checkpoint store is configured.
+   */
+  async getPendingApprovals(filter?: { runId?: string; assignee?: string }): Promise<ApprovalRequest[]> {
+    const requests = [...this.suspended.values()]
+      .flatMap(run => [...run.approvals.values()]);
+
+    const store = this.config.checkpointStore;
+    if (store) {
+      for (const checkpoint of await store.list(this.config.name)) {
+        if (checkpoint.status === 'pending' && !this.suspended.has(checkpoint.runId)) {
+          requests.push(...(checkpoint.approvals || []));
+        }
+      }
+    }
+
+    return requests
+      .filter(request => request.status === 'pending')
+      .filter(request => !filter?.runId || request.runId === filter.runId)
+      .filter(request => !filter?.assignee || request.assignee === filter.assignee)
+      .map(request => ({ ...request }));
+  }
+
+  /**
+   * Apply the timeout of overdue approval requests
+   * Timers do this while the process runs; call it periodically or after a restart
+   * for runs suspended by an earlier process.
+   */
+  async expireApprovals(now: Date = new Date()): Promise<WorkflowResult[]> {
+    const runIds = new Set(this.suspended.keys());
+
+    const store = this.config.checkpointStore;
+    if (store) {
+      for (const checkpoint of await store.list(this.config.name)) {
+        if (checkpoint.status === 'pending') {
+          runIds.add(checkpoint.runId);
+        }
+      }
+    }
+
+    const results: WorkflowResult[] = [];
+    for (const runId of runIds) {
+      const result = await this.expireRun(runId, now);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Escalate or reject the overdue approval requests of a suspended run
+   * Returns the result of the resumed run, or null if the run stays suspended.
+   */
+  private async expireRun(runId: string, now: Date): Promise<WorkflowResult | null> {
+    const run = await this.loadSuspendedRun(runId);
+    const overdue = [...run.approvals.values()].filter(request =>
+      request.status === 'pending' && request.deadline && request.deadline <= now
+    );
+    if (overdue.length === 0) {
+      return null;
+    }
+
+    for (const request of overdue) {
+      const entry = this.steps.find(candidate => candidate.name === request.step);
+      const approval = entry && this.isApproval(entry) ? entry.approval : undefined;
+
+      if (approval?.onTimeout === 'escalate' && !request.escalated) {
+        request.escalated = true;
+        request.assignee = this.resolveAssignee(approval.escalateTo, run.context) ?? request.assignee;
+        request.deadline = new Date(now.getTime() + (approval.escalationTimeout ?? approval.timeout ?? 0));
+
+        this.emitEvent({
+          type: 'approval:escalated',
+          runId,
+          timestamp: new Date(),
+          data: { ...request }
+        });
+      } else {
+        this.recordDecision(run, request, { approved: false, decidedAt: now, automatic: true });
+      }
+    }
+
+    if (overdue.every(request => request.status === 'pending')) {
+      // Only escalations, the run keeps waiting
+      this.suspended.set(runId, run);
+      await this.saveCheckpoint(run, 'pending');
+      this.scheduleApprovalTimeouts(run);
+      return null;
+    }
+
+    return this.resumeSuspended(run);
+  }
+
+  /**
+   * Run the steps of a run that have not completed yet
+   */
+  private async executeRun<TOutput>(
+    run: WorkflowRun,
+    startEvent: 'workflow:start' | 'workflow:resume',
+    parentSignal?: AbortSignal
   ): Promise<WorkflowResult<TOutput>> {
     const startTime = Date.now();
+    const { controller } = run;
+    const unlinkSignal = linkAbortSignal(controller, parentSignal);
 
-    // Initialize context
-    this.context = {
-      id: this.generateWorkflowId(),
-      data: input,
-      metadata: initialContext?.metadata || {},
-      history: [],
-      timestamp: new Date()
-    };
+    run.status = 'running';
+    this.runs.set(run.context.id, run);
+    this.lastRun = run;
+
+    // A resumed run continues the trace of its previous execution
+    run.span = (this.config.tracer ?? getGlobalTracer())?.startSpan(`workflow ${this.config.name}`, {
+      parent: run.context.trace ?? getActiveTrace(),
+      attributes: {
+        'workflow.name': this.config.name,
+        'workflow.run_id': run.context.id,
+        'workflow.resumed': startEvent === 'workflow:resume'
+      }
+    });
+    if (run.span) {
+      run.context.trace = run.span.context();
+    }
 
-    const stepResults: StepResult[] = [];
+    run.logger = run.logger ?? (this.config.logger ?? run.context.logger ?? getGlobalLogger())
+      .child({ workflow: this.config.name, runId: run.context.id });
+    run.context.logger = run.logger;
 
     this.emitEvent({
-      type: 'workflow:start',
+      type: startEvent,
+      runId: run.context.id,
       timestamp: new Date(),
       data: {
         workflow: this.config.name,
-        steps: this.steps.length
+        runId: run.context.id,
+        steps: this.steps.length,
+        completedSteps: run.completedSteps.size
       }
     });
 
     try {
-      // Execute with timeout
-      await this.executeWithTimeout(
+      await this.saveCheckpoint(run, 'running');
+
+      // Execute with timeout, inside the run's span
+      await withActiveTrace(run.context.trace, () => this.executeWithTimeout(
         async () => {
-          for (const step of this.steps) {
-            const stepResult = await this.executeStep(step);
-            stepResults.push(stepResult);
-            this.context!.history.push(stepResult);
-
-            // Handle errors based on strategy
-            if (!stepResult.success) {
-              if (this.config.onError === 'stop') {
-                throw stepResult.error;
-              } else if (this.config.onError === 'rollback') {
-                await this.rollback(stepResults);
-                throw stepResult.error;
+          const order = this.order || this.build().order!;
+
+          if (this.config.mode === 'graph') {
+            await this.executeGraph(run, order);
+          } else {
+            for (const entry of order) {
+              if (!run.completedSteps.has(entry.name)) {
+                throwIfAborted(controller.signal);
+                await this.recordResults(run, entry, await this.executeEntry(run, entry));
               }
-              // 'continue' - keep going
             }
           }
         },
-        this.config.timeout!
-      );
+        this.config.timeout,
+        new AgentError('Workflow timeout', 'TIMEOUT'),
+        controller
+      ));
+
+      run.status = 'completed';
+      run.span?.setStatus('ok');
+      await this.saveCheckpoint(run, 'completed');
 
       const executionTime = Date.now() - startTime;
 
       const result: WorkflowResult<TOutput> = {
         success: true,
-        data: this.context.data as TOutput,
-        steps: stepResults,
+        status: 'completed',
+        runId: run.context.id,
+        data: run.context.data as TOutput,
+        steps: [...run.context.history],
         executionTime
       };
 
       this.emitEvent({
         type: 'workflow:complete',
+        runId: run.context.id,
         timestamp: new Date(),
         data: result
       });
@@ -140,62 +1090,548 @@ export class AgentWorkflow extends EventEmitter {
       return result;
 
     } catch (error) {
+      if (error instanceof ApprovalPending && !controller.signal.aborted) {
+        return this.suspendRun<TOutput>(run, startTime);
+      }
+
       const executionTime = Date.now() - startTime;
-      const workflowError = error instanceof Error ? error : new Error(String(error));
+      const workflowError = controller.signal.aborted
+        ? abortReason(controller.signal)
+        : error instanceof Error ? error : new Error(String(error));
+      const cancelled = workflowError instanceof AgentError && workflowError.code === 'CANCELLED';
 
       const result: WorkflowResult<TOutput> = {
         success: false,
-        steps: stepResults,
+        status: cancelled ? 'cancelled' : 'failed',
+        runId: run.context.id,
+        steps: [...run.context.history],
         error: workflowError,
-        executionTime
+        executionTime,
+        cancelled
+      };
+
+      if (this.config.onError === 'rollback') {
+        result.rollback = await this.rollback(run);
+        result.executionTime = Date.now() - startTime;
+      }
+
+      run.status = cancelled ? 'cancelled' : 'failed';
+      run.span?.recordException(workflowError);
+
+      // The run already failed, a checkpoint error must not hide the original one
+      await this.saveCheckpoint(run, run.status).catch(() => undefined);
+
+      this.emitEvent({
+        type: cancelled ? 'workflow:cancelled' : 'workflow:error',
+        runId: run.context.id,
+        timestamp: new Date(),
+        error: workflowError,
+        data: result
+      });
+
+      return result;
+
+    } finally {
+      unlinkSignal();
+      if (!this.suspended.has(run.context.id)) {
+        run.completedAt = new Date();
+      }
+      this.runs.delete(run.context.id);
+
+      run.span?.setAttribute('workflow.status', run.status).end();
+      run.span = undefined;
+      recordWorkflowRun(this.metrics(), this.config.name, run.status, Date.now() - startTime);
+    }
+  }
+
+  /**
+   * Suspend a run that is waiting for approval
+   */
+  private async suspendRun<TOutput>(run: WorkflowRun, startTime: number): Promise<WorkflowResult<TOutput>> {
+    run.status = 'pending';
+    this.suspended.set(run.context.id, run);
+
+    // The run stays resumable in memory if the checkpoint cannot be saved
+    await this.saveCheckpoint(run, 'pending').catch(() => undefined);
+    this.scheduleApprovalTimeouts(run);
+
+    const result: WorkflowResult<TOutput> = {
+      success: false,
+      status: 'pending',
+      runId: run.context.id,
+      steps: [...run.context.history],
+      executionTime: Date.now() - startTime,
+      pending: [...run.approvals.values()]
+        .filter(request => request.status === 'pending')
+        .map(request => ({ ...request }))
+    };
+
+    this.emitEvent({
+      type: 'workflow:suspended',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: result
+    });
+
+    return result;
+  }
+
+  /**
+   * Continue a suspended run
+   */
+  private async resumeSuspended<TOutput>(run: WorkflowRun): Promise<WorkflowResult<TOutput>> {
+    this.suspended.delete(run.context.id);
+    this.clearApprovalTimers(run.context.id);
+    return this.executeRun<TOutput>(run, 'workflow:resume');
+  }
+
+  /**
+   * Find a run waiting for approval, in memory or in the checkpoint store
+   */
+  private async loadSuspendedRun(runId: string): Promise<WorkflowRun> {
+    const suspended = this.suspended.get(runId);
+    if (suspended) {
+      return suspended;
+    }
+    if (this.runs.has(runId)) {
+      throw new AgentError(`Run ${runId} is already active`, 'RUN_ACTIVE', { runId });
+    }
+
+    const checkpoint = await this.config.checkpointStore?.load(runId);
+    if (!checkpoint || checkpoint.workflow !== this.config.name || checkpoint.status !== 'pending') {
+      throw new AgentError(`Run ${runId} is not waiting for approval`, 'RUN_NOT_PENDING', { runId });
+    }
+    return this.createRun(checkpoint.context, checkpoint.completedSteps, checkpoint.approvals);
+  }
+
+  /**
+   * Record the decision on an approval request
+   */
+  private recordDecision(run: WorkflowRun, request: ApprovalRequest, decision: ApprovalDecision): void {
+    request.status = decision.approved ? 'approved' : 'rejected';
+    request.decision = decision;
+
+    this.emitEvent({
+      type: decision.approved ? 'approval:approved' : 'approval:rejected',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: { ...request }
+    });
+  }
+
+  /**
+   * Start timers for the deadlines of a suspended run's approval requests
+   */
+  private scheduleApprovalTimeouts(run: WorkflowRun): void {
+    const runId = run.context.id;
+    this.clearApprovalTimers(runId);
+
+    const timers = [...run.approvals.values()]
+      .filter(request => request.status === 'pending' && request.deadline)
+      .map(request => {
+        const timer = setTimeout(
+          // Errors surface again on the next expireApprovals() call
+          () => this.expireRun(runId, new Date()).catch(() => undefined),
+          Math.max(0, request.deadline!.getTime() - Date.now())
+        );
+        // Pending approvals must not keep the process alive
+        timer.unref?.();
+        return timer;
+      });
+
+    if (timers.length > 0) {
+      this.approvalTimers.set(runId, timers);
+    }
+  }
+
+  /**
+   * Stop the deadline timers of a run
+   */
+  private clearApprovalTimers(runId: string): void {
+    this.approvalTimers.get(runId)?.forEach(timer => clearTimeout(timer));
+    this.approvalTimers.delete(runId);
+  }
+
+  /**
+   * Resolve the assignee of an approval request
+   */
+  private resolveAssignee(
+    assignee: ApprovalConfig['assignee'],
+    context: AgentContext
+  ): string | undefined {
+    return typeof assignee === 'function' ? assignee(context) : assignee;
+  }
+
+  /**
+   * Initialize the context of a new run
+   */
+  private createContext<TInput>(input: TInput, initialContext?: Partial<AgentContext>): AgentContext<TInput> {
+    return {
+      id: this.generateWorkflowId(),
+      data: input,
+      metadata: initialContext?.metadata || {},
+      history: [],
+      timestamp: new Date(),
+      trace: initialContext?.trace,
+      logger: initialContext?.logger,
+      idempotencyKey: initialContext?.idempotencyKey
+    };
+  }
+
+  /**
+   * Create the state of a run
+   */
+  private createRun(
+    context: AgentContext,
+    completedSteps: string[],
+    approvals: ApprovalRequest[] = []
+  ): WorkflowRun {
+    // Aborted by cancel(), the timeout or the caller's signal
+    const controller = new AbortController();
+    context.signal = controller.signal;
+
+    return {
+      context,
+      status: 'running',
+      completedSteps: new Set(completedSteps),
+      currentSteps: new Set(),
+      approvals: new Map(approvals.map(request => [request.step, request])),
+      controller,
+      startedAt: new Date()
+    };
+  }
+
+  /**
+   * Cancel active and suspended runs
+   * Cancels the run with the given ID, or every run. Steps observe cancellation
+   * through context.signal; no further steps are started. A suspended run is
+   * resumed so it ends as cancelled, with rollback if configured.
+   */
+  cancel(runId?: string): void {
+    for (const [id, run] of [...this.runs, ...this.suspended]) {
+      if (!runId || id === runId) {
+        run.controller.abort(new AgentError('Workflow cancelled', 'CANCELLED', { runId: id }));
+        if (this.suspended.has(id)) {
+          this.resumeSuspended(run).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  /**
+   * List active and suspended runs
+   */
+  getRuns(): WorkflowRunInfo[] {
+    return [...this.runs.values(), ...this.suspended.values()].map(run => this.describeRun(run));
+  }
+
+  /**
+   * Inspect an active or suspended run
+   */
+  getRun(runId: string): WorkflowRunInfo | undefined {
+    const run = this.runs.get(runId) || this.suspended.get(runId);
+    return run ? this.describeRun(run) : undefined;
+  }
+
+  /**
+   * Snapshot of a run for inspection
+   */
+  private describeRun(run: WorkflowRun): WorkflowRunInfo {
+    return {
+      runId: run.context.id,
+      workflow: this.config.name,
+      status: run.status,
+      context: { ...run.context, history: [...run.context.history] },
+      steps: [...run.context.history],
+      currentSteps: [...run.currentSteps],
+      approvals: [...run.approvals.values()].map(request => ({ ...request })),
+      startedAt: run.startedAt,
+      completedAt: run.completedAt
+    };
+  }
+
+  /**
+   * Execute graph entries in dependency order
+   * An entry is skipped when none of its dependencies is active: a dependency is
+   * active when it completed and, for a branch, selected the entry.
+   */
+  private async executeGraph(run: WorkflowRun, order: WorkflowEntry[]): Promise<void> {
+    const outcomes = new Map<string, StepResult>();
+
+    // Outcomes of steps completed before a resume
+    for (const result of run.context.history) {
+      outcomes.set(result.step, result);
+    }
+
+    for (const entry of order) {
+      if (run.completedSteps.has(entry.name)) {
+        continue;
+      }
+      throwIfAborted(run.context.signal);
+
+      const dependencies = this.dependencies(entry);
+      const active = dependencies.filter(dependency =>
+        this.isEdgeActive(dependency, entry.name, outcomes.get(dependency)!)
+      );
+
+      const entryResults = dependencies.length > 0 && active.length === 0
+        ? [this.skippedResult(entry.name, Date.now())]
+        : await this.executeEntry(run, entry);
+
+      outcomes.set(entry.name, entryResults[entryResults.length - 1]);
+      await this.recordResults(run, entry, entryResults);
+    }
+  }
+
+  /**
+   * Execute a workflow entry
+   */
+  private async executeEntry(run: WorkflowRun, entry: WorkflowEntry): Promise<StepResult[]> {
+    if (this.isParallelGroup(entry)) {
+      return this.executeGroup(run, entry);
+    }
+    if (this.isBranch(entry)) {
+      return [await this.executeBranch(run, entry)];
+    }
+    if (this.isApproval(entry)) {
+      return [await this.executeApproval(run, entry)];
+    }
+    return [await this.executeStep(run, entry)];
+  }
+
+  /**
+   * Record the results of an entry, checkpoint them and apply the error strategy
+   */
+  private async recordResults(
+    run: WorkflowRun,
+    entry: WorkflowEntry,
+    entryResults: StepResult[]
+  ): Promise<void> {
+    // A step that finishes after a cancel or timeout belongs to a run that has ended
+    throwIfAborted(run.controller.signal);
+
+    run.context.history.push(...entryResults);
+
+    // The last result describes the entry as a whole
+    const stepResult = entryResults[entryResults.length - 1];
+
+    // Update context data with result
+    if (stepResult.success && !stepResult.skipped &&
+        stepResult.data !== null && stepResult.data !== undefined) {
+      run.context.data = stepResult.data;
+    }
+
+    if (stepResult.success) {
+      run.completedSteps.add(entry.name);
+    }
+    await this.saveCheckpoint(run, 'running');
+
+    // Handle errors based on strategy ('rollback' is handled by execute)
+    if (!stepResult.success && this.config.onError !== 'continue') {
+      throw stepResult.error;
+    }
+  }
+
+  /**
+   * Execute a branch node
+   */
+  private async executeBranch(run: WorkflowRun, branch: WorkflowBranch): Promise<StepResult> {
+    const startTime = Date.now();
+
+    this.emitEvent({
+      type: 'step:start',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: { step: branch.name }
+    });
+
+    try {
+      const selected = String(await branch.select(run.context));
+
+      const stepResult: StepResult = {
+        step: branch.name,
+        success: true,
+        branch: selected,
+        startedAt: new Date(startTime),
+        completedAt: new Date(),
+        duration: Date.now() - startTime
+      };
+
+      this.emitEvent({
+        type: 'step:complete',
+        runId: run.context.id,
+        timestamp: new Date(),
+        data: {
+          ...stepResult,
+          targets: this.branchTargets(branch, selected)
+        }
+      });
+
+      return stepResult;
+
+    } catch (error) {
+      const branchError = error instanceof Error ? error : new Error(String(error));
+
+      const stepResult: StepResult = {
+        step: branch.name,
+        success: false,
+        error: branchError,
+        startedAt: new Date(startTime),
+        completedAt: new Date(),
+        duration: Date.now() - startTime
+      };
+
+      this.emitEvent({
+        type: 'step:error',
+        runId: run.context.id,
+        timestamp: new Date(),
+        error: branchError,
+        data: stepResult
+      });
+
+      return stepResult;
+    }
+  }
+
+  /**
+   * Execute an approval step
+   * Raises the approval request on first execution and suspends the run until
+   * the request is decided.
+   */
+  private async executeApproval(run: WorkflowRun, entry: WorkflowApproval): Promise<StepResult> {
+    const startTime = Date.now();
+
+    if (entry.condition && !(await entry.condition(run.context))) {
+      return this.skippedResult(entry.name, startTime);
+    }
+
+    let request = run.approvals.get(entry.name);
+    if (!request) {
+      const { approval } = entry;
+      const requestedAt = new Date();
+
+      request = {
+        runId: run.context.id,
+        workflow: this.config.name,
+        step: entry.name,
+        payload: approval.payload ? await approval.payload(run.context) : run.context.data,
+        assignee: this.resolveAssignee(approval.assignee, run.context),
+        status: 'pending',
+        requestedAt,
+        deadline: approval.timeout ? new Date(requestedAt.getTime() + approval.timeout) : undefined,
+        escalated: false
       };
+      run.approvals.set(entry.name, request);
 
       this.emitEvent({
-        type: 'workflow:error',
+        type: 'approval:requested',
+        runId: run.context.id,
         timestamp: new Date(),
-        error: workflowError,
-        data: result
+        data: { ...request }
       });
+    }
 
-      return result;
+    if (request.status === 'pending') {
+      throw new ApprovalPending(entry.name);
+    }
+
+    const stepResult: StepResult = {
+      step: entry.name,
+      success: true,
+      branch: request.status,
+      approval: { ...request },
+      startedAt: request.requestedAt,
+      completedAt: new Date(),
+      duration: Date.now() - request.requestedAt.getTime()
+    };
+
+    if (request.status === 'rejected' && !entry.cases.rejected) {
+      stepResult.success = false;
+      stepResult.error = new AgentError(
+        `Approval "${entry.name}" was rejected`,
+        'APPROVAL_REJECTED',
+        { step: entry.name, decision: request.decision }
+      );
     }
+
+    this.emitEvent({
+      type: stepResult.success ? 'step:complete' : 'step:error',
+      runId: run.context.id,
+      timestamp: new Date(),
+      error: stepResult.error,
+      data: stepResult
+    });
+
+    return stepResult;
+  }
+
+  /**
+   * Result for a step that did not run
+   */
+  private skippedResult(name: string, startTime: number): StepResult {
+    return {
+      step: name,
+      success: true,
+      data: null,
+      startedAt: new Date(startTime),
+      completedAt: new Date(),
+      duration: Date.now() - startTime,
+      skipped: true
+    };
   }
 
   /**
    * Execute a single step
    */
-  private async executeStep(step: WorkflowStep): Promise<StepResult> {
+  private async executeStep(run: WorkflowRun, step: WorkflowStep): Promise<StepResult> {
     const startTime = Date.now();
 
     this.emitEvent({
       type: 'step:start',
+      runId: run.context.id,
       timestamp: new Date(),
       data: { step: step.name }
     });
 
+    const attemptErrors: Error[] = [];
+    const childRuns: ChildRun[] = [];
+    const logger = (run.logger ?? this.getLogger()).child({ step: step.name });
+    let span: Span | undefined;
+    run.currentSteps.add(step.name);
+
     try {
       // Check condition
       if (step.condition) {
-        const shouldExecute = await step.condition(this.context!);
+        const shouldExecute = await step.condition(run.context);
         if (!shouldExecute) {
-          return {
-            step: step.name,
-            success: true,
-            data: null,
-            startedAt: new Date(startTime),
-            completedAt: new Date(),
-            duration: Date.now() - startTime
-          };
+          recordWorkflowStep(this.metrics(), this.config.name, step.name, 'skipped');
+          return this.skippedResult(step.name, startTime);
         }
       }
 
-      // Execute handler
-      const result = await step.handler(this.context!);
+      span = run.span && (this.config.tracer ?? getGlobalTracer())?.startSpan(`step ${step.name}`, {
+        parent: run.span.context(),
+        attributes: {
+          'workflow.name': this.config.name,
+          'workflow.run_id': run.context.id,
+          'workflow.step': step.name
+        }
+      });
+      // Agents of a step executed again under the run's key return their earlier result
+      const context: AgentContext = {
+        ...run.context,
+        trace: span?.context() ?? run.context.trace,
+        logger,
+        idempotencyKey: run.context.idempotencyKey && `${run.context.idempotencyKey}:${step.name}`
+      };
 
-      // Update context data with result
-      if (result !== null && result !== undefined) {
-        this.context!.data = result;
-      }
+      // Execute handler through middleware, inside the step's span
+      const result = await withActiveTrace(context.trace, () => runMiddleware(
+        this.config.middleware || [],
+        context,
+        { type: 'step', name: step.name, workflow: this.config.name },
+        stepContext => this.executeHandler(run, step, stepContext, attemptErrors, childRuns)
+      ));
 
       const stepResult: StepResult = {
         step: step.name,
@@ -203,11 +1639,18 @@ export class AgentWorkflow extends EventEmitter {
         data: result,
         startedAt: new Date(startTime),
         completedAt: new Date(),
-        duration: Date.now() - startTime
+        duration: Date.now() - startTime,
+        attempts: attemptErrors.length + 1,
+        attemptErrors,
+        child: childRuns[childRuns.length - 1]
       };
 
+      span?.setAttribute('step.attempts', stepResult.attempts!).setStatus('ok');
+      recordWorkflowStep(this.metrics(), this.config.name, step.name, 'success', stepResult.duration);
+
       this.emitEvent({
         type: 'step:complete',
+        runId: run.context.id,
         timestamp: new Date(),
         data: stepResult
       });
@@ -220,9 +1663,9 @@ export class AgentWorkflow extends EventEmitter {
       // Call step error handler if provided
       if (step.onError) {
         try {
-          await step.onError(stepError, this.context!);
+          await step.onError(stepError, run.context);
         } catch (handlerError) {
-          console.error('Error handler failed:', handlerError);
+          logger.error('Step error handler failed', { error: handlerError });
         }
       }
 
@@ -232,27 +1675,558 @@ export class AgentWorkflow extends EventEmitter {
         error: stepError,
         startedAt: new Date(startTime),
         completedAt: new Date(),
-        duration: Date.now() - startTime
+        duration: Date.now() - startTime,
+        attempts: attemptErrors.length,
+        attemptErrors,
+        child: childRuns[childRuns.length - 1]
       };
 
+      span?.setAttribute('step.attempts', stepResult.attempts!).recordException(stepError);
+      recordWorkflowStep(this.metrics(), this.config.name, step.name, 'error', stepResult.duration);
+
       this.emitEvent({
         type: 'step:error',
+        runId: run.context.id,
         timestamp: new Date(),
         error: stepError,
         data: stepResult
       });
 
       return stepResult;
+
+    } finally {
+      run.currentSteps.delete(step.name);
+      span?.end();
+    }
+  }
+
+  /**
+   * Logger of the workflow: the configured or the global one
+   */
+  private getLogger(): ILogger {
+    return (this.config.logger ?? getGlobalLogger()).child({ workflow: this.config.name });
+  }
+
+  /**
+   * Registry metrics are recorded in: the configured or the global one
+   */
+  private metrics(): IMetricsRegistry | undefined {
+    return this.config.metrics ?? getGlobalMetrics();
+  }
+
+  /**
+   * Execute a step handler with the step's timeout and retry policy
+   * The handler gets stepContext, the run context as passed on by middleware.
+   * Every failed attempt is appended to attemptErrors, every child run to childRuns.
+   */
+  private async executeHandler(
+    run: WorkflowRun,
+    step: WorkflowStep,
+    stepContext: AgentContext,
+    attemptErrors: Error[],
+    childRuns: ChildRun[]
+  ): Promise<any> {
+    const maxAttempts = step.retry?.maxAttempts || 1;
+
+    for (let attempt = 1; ; attempt++) {
+      // Aborted by the step timeout as well as by the run
+      const attemptController = new AbortController();
+      const unlinkSignal = linkAbortSignal(attemptController, run.context.signal);
+
+      try {
+        const context = step.timeout
+          ? { ...stepContext, signal: attemptController.signal }
+          : stepContext;
+
+        return await this.executeWithTimeout(
+          async () => step.child
+            ? this.executeChild(run, step, context, childRuns)
+            : step.handler(context),
+          step.timeout,
+          new AgentError(
+            `Step "${step.name}" timed out after ${step.timeout}ms`,
+            'STEP_TIMEOUT',
+            { step: step.name, timeout: step.timeout, attempt }
+          ),
+          attemptController
+        );
+      } catch (error) {
+        const attemptError = error instanceof Error ? error : new Error(String(error));
+        attemptErrors.push(attemptError);
+
+        // A cancelled or timed out run is not retried
+        throwIfAborted(run.context.signal);
+
+        if (attempt >= maxAttempts || !isRetryableError(attemptError, attempt, step.retry)) {
+          throw attemptError;
+        }
+
+        const delay = calculateRetryDelay(attempt, step.retry!, attemptError);
+        recordWorkflowStepRetry(this.metrics(), this.config.name, step.name);
+
+        this.emitEvent({
+          type: 'step:retry',
+          runId: run.context.id,
+          timestamp: new Date(),
+          error: attemptError,
+          data: { step: step.name, attempt, delay }
+        });
+
+        await sleep(delay, run.context.signal);
+      } finally {
+        unlinkSignal();
+      }
+    }
+  }
+
+  /**
+   * Run the agent or workflow of a child step, forwarding its events
+   */
+  private async executeChild(
+    run: WorkflowRun,
+    step: WorkflowStep,
+    context: AgentContext,
+    childRuns: ChildRun[]
+  ): Promise<any> {
+    const child = step.child!;
+    const childRun = await AgentWorkflow.runChild(step.name, child, context, event => {
+      // Events of deeper descendants keep the parent they were forwarded from
+      const forwarded: AgentEvent = {
+        ...event,
+        parentRunId: event.parentRunId ?? run.context.id,
+        parentStep: event.parentStep ?? step.name
+      };
+      // Only the generic event stream, so typed listeners see the parent's own events
+      this.emit('event', forwarded);
+      run.forward?.(forwarded);
+    });
+
+    childRuns.push(childRun);
+    return AgentWorkflow.childOutput(child, childRun, context);
+  }
+
+  /**
+   * Execute a parallel group
+   * Returns one result per branch followed by the result of the group itself,
+   * whose data is the merged context data.
+   */
+  private async executeGroup(run: WorkflowRun, group: ParallelGroup): Promise<StepResult[]> {
+    const startTime = Date.now();
+
+    if (group.condition && !(await group.condition(run.context))) {
+      return [this.skippedResult(group.name, startTime)];
+    }
+
+    this.emitEvent({
+      type: 'group:start',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: {
+        group: group.name,
+        steps: group.steps.map(step => step.name)
+      }
+    });
+
+    const branchResults = await Promise.all(
+      group.steps.map(step => this.executeStep(run, step))
+    );
+    branchResults.forEach(result => {
+      result.group = group.name;
+    });
+
+    const executed = branchResults.filter(result => !result.skipped);
+    const failed = executed.filter(result => !result.success);
+
+    let success: boolean;
+    switch (group.policy) {
+      case 'any':
+        success = failed.length === 0 || failed.length < executed.length;
+        break;
+      case 'settled':
+        success = true;
+        break;
+      default:
+        success = failed.length === 0;
+    }
+
+    const groupResult: StepResult = {
+      step: group.name,
+      success,
+      startedAt: new Date(startTime),
+      completedAt: new Date(),
+      duration: Date.now() - startTime
+    };
+
+    if (success) {
+      const outputs: Record<string, any> = {};
+      for (const result of executed) {
+        if (result.success && result.data !== null && result.data !== undefined) {
+          outputs[result.step] = result.data;
+        }
+      }
+
+      try {
+        groupResult.data = this.mergeOutputs(run, group, outputs);
+      } catch (error) {
+        groupResult.success = false;
+        groupResult.error = error instanceof Error ? error : new Error(String(error));
+      }
+    } else {
+      groupResult.error = new AgentError(
+        `Parallel group "${group.name}" failed: ${failed.map(result => result.step).join(', ')}`,
+        'PARALLEL_GROUP_FAILED',
+        { failures: failed }
+      );
+    }
+
+    this.emitEvent({
+      type: groupResult.success ? 'group:complete' : 'group:error',
+      runId: run.context.id,
+      timestamp: new Date(),
+      error: groupResult.error,
+      data: {
+        ...groupResult,
+        steps: branchResults
+      }
+    });
+
+    return [...branchResults, groupResult];
+  }
+
+  /**
+   * Merge branch outputs into the context data
+   */
+  private mergeOutputs(run: WorkflowRun, group: ParallelGroup, outputs: Record<string, any>): any {
+    const data = run.context.data;
+    const merge = group.merge || 'shallow';
+
+    if (typeof merge === 'function') {
+      return merge(data, outputs);
+    }
+
+    return Object.entries(outputs).reduce((merged, [name, output]) => {
+      switch (merge) {
+        case 'namespace':
+          return { ...merged, [name]: output };
+        case 'deep':
+          return this.deepMerge(merged, output);
+        default:
+          // Non-object outputs cannot be spread, keep them under the step name
+          return this.isPlainObject(output)
+            ? { ...merged, ...output }
+            : { ...merged, [name]: output };
+      }
+    }, this.isPlainObject(data) ? { ...data } : {});
+  }
+
+  /**
+   * Recursively merge plain objects, later values win
+   */
+  private deepMerge(target: any, source: any): any {
+    if (!this.isPlainObject(target) || !this.isPlainObject(source)) {
+      return source;
+    }
+
+    const merged: Record<string, any> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = key in merged ? this.deepMerge(merged[key], value) : value;
+    }
+    return merged;
+  }
+
+  /**
+   * Check for a plain object
+   */
+  private isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' &&
+      Object.getPrototypeOf(value) === Object.prototype;
+  }
+
+  /**
+   * Check whether a workflow entry is a parallel group
+   */
+  private isParallelGroup(entry: WorkflowEntry): entry is ParallelGroup {
+    return 'steps' in entry && Array.isArray(entry.steps);
+  }
+
+  /**
+   * Check whether a workflow entry is a branch node
+   */
+  private isBranch(entry: WorkflowEntry): entry is WorkflowBranch {
+    return 'cases' in entry && 'select' in entry;
+  }
+
+  /**
+   * Check whether a workflow entry is an approval step
+   */
+  private isApproval(entry: WorkflowEntry): entry is WorkflowApproval {
+    return 'approval' in entry;
+  }
+
+  /**
+   * Check whether a workflow entry routes to other steps
+   */
+  private isRouting(entry: WorkflowEntry): entry is WorkflowBranch | WorkflowApproval {
+    return this.isBranch(entry) || this.isApproval(entry);
+  }
+
+  /**
+   * Add an entry and invalidate the computed execution order
+   */
+  private addEntry(entry: WorkflowEntry): this {
+    this.steps.push(entry);
+    this.order = null;
+    return this;
+  }
+
+  /**
+   * Names of all entries and parallel branches
+   */
+  private allStepNames(): string[] {
+    return this.steps.flatMap(entry => this.isParallelGroup(entry)
+      ? [entry.name, ...entry.steps.map(step => step.name)]
+      : [entry.name]
+    );
+  }
+
+  /**
+   * Steps a branch routes to for the selected case
+   */
+  private branchTargets(branch: WorkflowBranch | WorkflowApproval, selected: BranchValue): string[] {
+    const fallback = this.isBranch(branch) ? branch.default : undefined;
+    const targets = branch.cases[String(selected)] ?? fallback ?? [];
+    return Array.isArray(targets) ? targets : [targets];
+  }
+
+  /**
+   * Steps a branch may route to, across all cases
+   */
+  private allBranchTargets(branch: WorkflowBranch | WorkflowApproval): string[] {
+    const fallback = this.isBranch(branch) ? branch.default : undefined;
+    const targets = [...Object.values(branch.cases), fallback || []]
+      .flatMap(target => Array.isArray(target) ? target : [target]);
+    return [...new Set(targets)];
+  }
+
+  /**
+   * Dependencies of an entry: explicit ones plus branches routing to it
+   */
+  private dependencies(entry: WorkflowEntry): string[] {
+    const dependencies = new Set(entry.dependsOn || []);
+    for (const candidate of this.steps) {
+      if (this.isRouting(candidate) && this.allBranchTargets(candidate).includes(entry.name)) {
+        dependencies.add(candidate.name);
+      }
+    }
+    return [...dependencies];
+  }
+
+  /**
+   * Check whether a dependency lets its dependent run
+   */
+  private isEdgeActive(dependency: string, dependent: string, outcome: StepResult): boolean {
+    if (!outcome.success || outcome.skipped) {
+      return false;
+    }
+
+    const entry = this.steps.find(candidate => candidate.name === dependency);
+    if (entry && this.isRouting(entry)) {
+      return this.allBranchTargets(entry).includes(dependent)
+        ? this.branchTargets(entry, outcome.branch!).includes(dependent)
+        : true;
+    }
+    return true;
+  }
+
+  /**
+   * Find a dependency cycle among the given entries
+   */
+  private findCycle(names: string[]): string[] {
+    const entries = new Map(this.steps.map(entry => [entry.name, entry]));
+    const visiting: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (name: string): string[] | null => {
+      const index = visiting.indexOf(name);
+      if (index >= 0) {
+        return [...visiting.slice(index), name];
+      }
+      if (visited.has(name)) {
+        return null;
+      }
+
+      visiting.push(name);
+      for (const dependency of this.dependencies(entries.get(name)!)) {
+        const cycle = visit(dependency);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      visiting.pop();
+      visited.add(name);
+      return null;
+    };
+
+    for (const name of names) {
+      const cycle = visit(name);
+      if (cycle) {
+        return cycle.reverse();
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Find a step by name, including branches of parallel groups
+   */
+  private findStep(name: string): WorkflowStep | undefined {
+    for (const entry of this.steps) {
+      if (this.isParallelGroup(entry)) {
+        const branch = entry.steps.find(step => step.name === name);
+        if (branch) {
+          return branch;
+        }
+      } else if (!this.isRouting(entry) && entry.name === name) {
+        return entry;
+      }
     }
+    return undefined;
   }
 
   /**
    * Rollback executed steps
+   * Runs compensation handlers of completed steps in reverse order.
+   * A failing compensation is recorded and does not stop the remaining ones.
+   */
+  private async rollback(run: WorkflowRun): Promise<CompensationResult[]> {
+    const completed = [...run.context.history]
+      .filter(result => result.success && !result.skipped)
+      .reverse();
+
+    this.emitEvent({
+      type: 'rollback:start',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: {
+        workflow: this.config.name,
+        steps: completed.map(result => result.step)
+      }
+    });
+
+    const compensations: CompensationResult[] = [];
+
+    for (const stepResult of completed) {
+      const step = this.findStep(stepResult.step);
+      if (step?.compensate) {
+        compensations.push(await this.compensateStep(run, step, stepResult));
+      }
+    }
+
+    this.emitEvent({
+      type: 'rollback:complete',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: {
+        workflow: this.config.name,
+        compensations
+      }
+    });
+
+    return compensations;
+  }
+
+  /**
+   * Run the compensation handler of a single step
+   */
+  private async compensateStep(
+    run: WorkflowRun,
+    step: WorkflowStep,
+    stepResult: StepResult
+  ): Promise<CompensationResult> {
+    const startTime = Date.now();
+
+    this.emitEvent({
+      type: 'compensation:start',
+      runId: run.context.id,
+      timestamp: new Date(),
+      data: { step: step.name }
+    });
+
+    try {
+      // Compensations run after a cancellation too, so they get no signal
+      await step.compensate!({ ...run.context, signal: undefined }, stepResult);
+
+      const result: CompensationResult = {
+        step: step.name,
+        success: true,
+        startedAt: new Date(startTime),
+        completedAt: new Date(),
+        duration: Date.now() - startTime
+      };
+
+      this.emitEvent({
+        type: 'compensation:complete',
+        runId: run.context.id,
+        timestamp: new Date(),
+        data: result
+      });
+
+      return result;
+
+    } catch (error) {
+      const compensationError = error instanceof Error ? error : new Error(String(error));
+
+      const result: CompensationResult = {
+        step: step.name,
+        success: false,
+        error: compensationError,
+        startedAt: new Date(startTime),
+        completedAt: new Date(),
+        duration: Date.now() - startTime
+      };
+
+      this.emitEvent({
+        type: 'compensation:error',
+        runId: run.context.id,
+        timestamp: new Date(),
+        error: compensationError,
+        data: result
+      });
+
+      return result;
+    }
+  }
+
+  /**
+   * Persist the current run to the checkpoint store, if one is configured
+   * Writes are queued so they land in order. Once a final status is saved, further
+   * writes are dropped: steps still running after a cancel or timeout must not
+   * overwrite it.
    */
-  private async rollback(_steps: StepResult[]): Promise<void> {
-    console.warn('Rollback not implemented yet');
-    // TODO: Implement rollback logic
-    // Would require steps to define rollback handlers
+  private saveCheckpoint(run: WorkflowRun, status: WorkflowRunStatus): Promise<void> {
+    const store = this.config.checkpointStore;
+    const final = TERMINAL_STATUSES.includes(status);
+    if (!store || run.checkpointClosed || (run.controller.signal.aborted && !final)) {
+      return Promise.resolve();
+    }
+    run.checkpointClosed = final;
+
+    const checkpoint: WorkflowCheckpoint = {
+      runId: run.context.id,
+      workflow: this.config.name,
+      status,
+      // Signals and loggers do not survive a restart
+      context: { ...run.context, history: [...run.context.history], signal: undefined, logger: undefined },
+      completedSteps: [...run.completedSteps],
+      approvals: [...run.approvals.values()].map(request => ({ ...request })),
+      updatedAt: new Date()
+    };
+
+    const write = (run.checkpointWrite ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => store.save(checkpoint));
+    run.checkpointWrite = write;
+    return write;
   }
 
   /**
@@ -260,17 +2234,19 @@ export class AgentWorkflow extends EventEmitter {
    */
   private async executeWithTimeout<T>(
     fn: () => Promise<T>,
-    timeout: number
+    timeout: number | undefined,
+    timeoutError: AgentError,
+    controller: AbortController
   ): Promise<T> {
-    return Promise.race([
-      fn(),
-      new Promise<T>((_, reject) =>
-        setTimeout(
-          () => reject(new AgentError('Workflow timeout', 'TIMEOUT')),
-          timeout
-        )
-      )
-    ]);
+    const timer = timeout
+      ? setTimeout(() => controller.abort(timeoutError), timeout)
+      : undefined;
+
+    try {
+      return await raceAbort(fn(), controller.signal);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
@@ -281,11 +2257,18 @@ export class AgentWorkflow extends EventEmitter {
   }
 
   /**
-   * Emit event to listeners
+   * Emit event to listeners and log it with the run's logger
    */
   private emitEvent(event: AgentEvent): void {
     this.emit('event', event);
     this.emit(event.type, event);
+
+    const run = event.runId ? this.runs.get(event.runId) ?? this.suspended.get(event.runId) : undefined;
+    logEvent(run?.logger ?? this.getLogger(), event);
+
+    if (event.runId) {
+      this.runs.get(event.runId)?.forward?.(event);
+    }
   }
 
   /**
@@ -310,17 +2293,21 @@ export class AgentWorkflow extends EventEmitter {
   }
 
   /**
-   * Get current context
+   * Get the context of a run
+   * Without a run ID, returns the context of the most recently started run.
    */
-  getContext(): AgentContext | null {
-    return this.context ? { ...this.context } : null;
+  getContext(runId?: string): AgentContext | null {
+    const run = runId ? this.runs.get(runId) || this.suspended.get(runId) : this.lastRun;
+    return run ? { ...run.context } : null;
   }
 
   /**
    * Clear workflow steps
+   * Active runs keep the steps they started with.
    */
   clear(): void {
     this.steps = [];
-    this.context = null;
+    this.order = null;
+    this.lastRun = null;
   }
 }
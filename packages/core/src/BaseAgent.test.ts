@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { BaseAgent } from './BaseAgent';
+import { AgentConfig, AgentContext, AgentError } from './types';
+
+/** Agent running a replaceable function */
+class TestAgent extends BaseAgent {
+  constructor(config: Partial<AgentConfig>, public handler: (context: AgentContext) => Promise<any>) {
+    super({ name: 'test', ...config });
+  }
+
+  protected async run(context: AgentContext): Promise<any> {
+    return this.handler(context);
+  }
+}
+
+describe('BaseAgent', () => {
+  describe('retries', () => {
+    const retry = { maxAttempts: 3, delay: 1 };
+
+    it('retries transient failures and records every attempt', async () => {
+      const handler = jest.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('unavailable'), { status: 503 }))
+        .mockResolvedValueOnce({ ok: true });
+      const agent = new TestAgent({ retry }, handler);
+
+      const result = await agent.execute({});
+
+      expect(result).toMatchObject({ success: true, data: { ok: true } });
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(result.metadata?.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, retryable: true, delay: 1 }),
+        expect.objectContaining({ attempt: 2 })
+      ]);
+    });
+
+    it('stops at the first fatal failure', async () => {
+      const handler = jest.fn().mockRejectedValue(new AgentError('no such lead', 'NOT_FOUND', { status: 404 }));
+      const agent = new TestAgent({ retry }, handler);
+
+      const result = await agent.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'NOT_FOUND' });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(result.metadata?.attempts).toEqual([expect.objectContaining({ attempt: 1, retryable: false })]);
+    });
+
+    it('waits for the Retry-After hint of a failure', async () => {
+      const handler = jest.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('slow down'), { status: 429, retryAfter: 50 }))
+        .mockResolvedValueOnce('done');
+      const agent = new TestAgent({ retry }, handler);
+
+      const result = await agent.execute({});
+
+      expect(result.data).toBe('done');
+      expect(result.metadata?.attempts[0].delay).toBe(50);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('stops retrying once the circuit opens and forwards its events', async () => {
+      const handler = jest.fn().mockRejectedValue(Object.assign(new Error('unavailable'), { status: 503 }));
+      const agent = new TestAgent({
+        retry: { maxAttempts: 5, delay: 1 },
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 }
+      }, handler);
+      const events: string[] = [];
+      agent.onEvent(event => { events.push(event.type); });
+
+      const result = await agent.execute({});
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(result.error).toMatchObject({ code: 'CIRCUIT_OPEN', details: { circuit: 'test' } });
+      expect(result.metadata?.attempts).toHaveLength(3);
+      expect(events).toContain('circuit:open');
+      expect(agent.getCircuitBreaker()?.getState()).toBe('open');
+    });
+
+    it('shares a breaker passed as an instance', async () => {
+      const first = new TestAgent({ name: 'first', circuitBreaker: { failureThreshold: 1 } }, async () => {
+        throw Object.assign(new Error('unavailable'), { status: 503 });
+      });
+      const second = new TestAgent({ name: 'second', circuitBreaker: first.getCircuitBreaker() }, async () => 'ok');
+
+      await first.execute({});
+      const result = await second.execute({});
+
+      expect(result.error).toMatchObject({ code: 'CIRCUIT_OPEN' });
+    });
+  });
+
+  describe('middleware', () => {
+    it('runs configured and added middleware around each execution', async () => {
+      const calls: string[] = [];
+      const agent = new TestAgent({
+        middleware: [async (context, next) => {
+          calls.push('configured');
+          return next({ ...context, data: { ...context.data, step: 1 } });
+        }]
+      }, async context => context.data);
+      agent.use(async (_context, next, info) => {
+        calls.push(`${info.type}:${info.name}`);
+        return next();
+      });
+
+      const result = await agent.execute({ id: 1 });
+
+      expect(calls).toEqual(['configured', 'agent:test']);
+      expect(result.data).toEqual({ id: 1, step: 1 });
+    });
+  });
+
+  describe('schemas', () => {
+    const retry = { maxAttempts: 3, delay: 1 };
+
+    it('runs with the parsed input', async () => {
+      const handler = jest.fn(async (context: AgentContext) => context.data);
+      const agent = new TestAgent({ inputSchema: z.object({ email: z.string().trim() }) }, handler);
+
+      const result = await agent.execute({ email: ' jane@acme.com ', extra: true });
+
+      expect(result.data).toEqual({ email: 'jane@acme.com' });
+    });
+
+    it('rejects invalid input without running or retrying', async () => {
+      const handler = jest.fn();
+      const agent = new TestAgent({ retry, inputSchema: z.object({ email: z.string().email() }) }, handler);
+
+      const result = await agent.execute({ email: 'jane' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({
+        code: 'INVALID_INPUT',
+        details: { issues: [expect.objectContaining({ path: 'email' })] }
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid output without retrying', async () => {
+      const handler = jest.fn().mockResolvedValue({ score: 'high' });
+      const agent = new TestAgent({ retry, outputSchema: z.object({ score: z.number() }) }, handler);
+
+      const result = await agent.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'INVALID_OUTPUT' });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -10,8 +10,21 @@ import {
   AgentError,
   AgentEvent,
   EventListener,
-  RetryConfig
+  RetryAttempt,
+  AgentMiddleware,
+  ILogger,
+  AgentSchemas
 } from './types';
+import { calculateRetryDelay, isRetryableError, sleep } from './retry';
+import { CircuitBreaker } from './CircuitBreaker';
+import { runMiddleware } from './middleware';
+import { getGlobalTracer, getActiveTrace, withActiveTrace } from './tracing/Tracer';
+import { getGlobalMetrics } from './metrics/MetricsRegistry';
+import { recordAgentExecution } from './metrics/instruments';
+import { getGlobalLogger, logEvent } from './logging/Logger';
+import { parseWithSchema, toJsonSchema } from './schema';
+import { executeIdempotent } from './idempotency/idempotent';
+import { abortReason, throwIfAborted, raceAbort, linkAbortSignal } from './abort';
 
 /**
  * Abstract base class for all agents
@@ -19,6 +32,8 @@ import {
 export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitter {
   protected config: AgentConfig;
   protected initialized: boolean = false;
+  private executions: Map<string, AbortController> = new Map();
+  private circuitBreaker?: CircuitBreaker;
 
   constructor(config: AgentConfig) {
     super();
@@ -27,10 +42,18 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
       retry: {
         maxAttempts: 3,
         delay: 1000,
-        backoff: 'exponential'
+        backoff: 'exponential',
+        jitter: true
       },
       ...config
     };
+
+    const { circuitBreaker } = this.config;
+    if (circuitBreaker) {
+      this.circuitBreaker = circuitBreaker instanceof CircuitBreaker
+        ? circuitBreaker
+        : new CircuitBreaker({ name: this.config.name, ...circuitBreaker });
+    }
   }
 
   /**
@@ -39,6 +62,9 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
    */
   async initialize(): Promise<void> {
     this.initialized = true;
+    // Circuit state changes appear on the agent's event stream
+    this.circuitBreaker?.offEvent(this.forwardCircuitEvent);
+    this.circuitBreaker?.onEvent(this.forwardCircuitEvent);
     this.emitEvent({
       type: 'agent:start',
       timestamp: new Date(),
@@ -48,31 +74,80 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
 
   /**
    * Execute the agent with input data
+   * With context.idempotencyKey, duplicates of an execution return its result.
    */
   async execute(input: TInput, context?: Partial<AgentContext>): Promise<AgentResult<TOutput>> {
+    const key = context?.idempotencyKey;
+    if (!key) {
+      return this.executeOnce(input, context);
+    }
+
+    return executeIdempotent(key, {
+      config: this.config.idempotency,
+      scope: `agent:${this.config.name}`,
+      signal: context?.signal,
+      logger: (this.config.logger ?? context?.logger ?? getGlobalLogger()).child({ agent: this.config.name })
+    }, () => this.executeOnce(input, context));
+  }
+
+  /**
+   * Execute the agent once
+   */
+  private async executeOnce(input: TInput, context?: Partial<AgentContext>): Promise<AgentResult<TOutput>> {
     if (!this.initialized) {
       await this.initialize();
     }
 
+    // Aborted by cancel(), the timeout or the caller's signal
+    const controller = new AbortController();
+    const unlinkSignal = linkAbortSignal(controller, context?.signal);
+
+    const id = context?.id || this.generateContextId();
+    const logger = (this.config.logger ?? context?.logger ?? getGlobalLogger())
+      .child({ agent: this.config.name, executionId: id });
+    const parentTrace = context?.trace ?? getActiveTrace();
+    const span = (this.config.tracer ?? getGlobalTracer())?.startSpan(`agent ${this.config.name}`, {
+      parent: parentTrace,
+      attributes: { 'agent.name': this.config.name, 'agent.execution_id': id }
+    });
+
     const executionContext: AgentContext<TInput> = {
-      id: this.generateContextId(),
+      id,
       data: input,
       metadata: context?.metadata || {},
       history: context?.history || [],
-      timestamp: new Date()
+      timestamp: new Date(),
+      signal: controller.signal,
+      trace: span?.context() ?? parentTrace,
+      logger
     };
 
+    this.executions.set(executionContext.id, controller);
+
     const startTime = Date.now();
+    const attempts: RetryAttempt[] = [];
 
     try {
-      // Validate input
+      // Validate input, then parse it with the input schema
       this.validateInput(input);
+      if (this.config.inputSchema) {
+        executionContext.data = parseWithSchema(this.config.inputSchema, input, 'INVALID_INPUT', 'input');
+      }
 
-      // Execute with timeout
-      const result = await this.executeWithTimeout(
-        () => this.executeWithRetry(executionContext),
-        this.config.timeout!
-      );
+      // Execute through middleware with timeout, inside the execution's span
+      const output = await withActiveTrace(executionContext.trace, () => this.executeWithTimeout(
+        () => runMiddleware(
+          this.config.middleware || [],
+          executionContext,
+          { type: 'agent', name: this.config.name },
+          context => this.executeWithRetry(context, attempts)
+        ),
+        this.config.timeout!,
+        controller
+      ));
+      const result: TOutput = this.config.outputSchema
+        ? parseWithSchema(this.config.outputSchema, output, 'INVALID_OUTPUT', 'output')
+        : output;
 
       const executionTime = Date.now() - startTime;
 
@@ -80,36 +155,87 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
         success: true,
         data: result,
         executionTime,
-        metadata: executionContext.metadata
+        metadata: { ...executionContext.metadata, attempts }
       };
 
+      span?.setStatus('ok');
+      this.recordMetrics('success', executionTime, attempts);
+
       this.emitEvent({
         type: 'agent:complete',
+        runId: executionContext.id,
         timestamp: new Date(),
         data: agentResult
-      });
+      }, logger);
 
       return agentResult;
 
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      const agentError = this.normalizeError(error);
+      const agentError = controller.signal.aborted
+        ? abortReason(controller.signal)
+        : this.normalizeError(error);
+      const cancelled = agentError.code === 'CANCELLED';
 
       const agentResult: AgentResult<TOutput> = {
         success: false,
         error: agentError,
         executionTime,
-        metadata: executionContext.metadata
+        metadata: { ...executionContext.metadata, attempts },
+        cancelled
       };
 
+      span?.setAttribute('agent.cancelled', cancelled).recordException(agentError);
+      this.recordMetrics(cancelled ? 'cancelled' : 'error', executionTime, attempts);
+
       this.emitEvent({
-        type: 'agent:error',
+        type: cancelled ? 'agent:cancelled' : 'agent:error',
+        runId: executionContext.id,
         timestamp: new Date(),
         error: agentError,
         data: agentResult
-      });
+      }, logger);
 
       return agentResult;
+
+    } finally {
+      unlinkSignal();
+      this.executions.delete(executionContext.id);
+
+      if (span) {
+        span.setAttribute('agent.attempts', attempts.length);
+        for (const attempt of attempts) {
+          if (attempt.error && attempt.retryable && attempt.delay !== undefined) {
+            span.addEvent('retry', {
+              attempt: attempt.attempt,
+              'exception.message': attempt.error.message,
+              delay: attempt.delay
+            }, new Date(attempt.startedAt.getTime() + attempt.duration));
+          }
+        }
+        span.end();
+      }
+    }
+  }
+
+  /**
+   * Add middleware around executions, after the configured middleware
+   */
+  use(middleware: AgentMiddleware<TInput, TOutput>): this {
+    this.config.middleware = [...(this.config.middleware || []), middleware];
+    return this;
+  }
+
+  /**
+   * Cancel running executions
+   * Cancels the execution with the given context ID, or all running executions.
+   * run() implementations observe cancellation through context.signal.
+   */
+  cancel(executionId?: string): void {
+    for (const [id, controller] of this.executions) {
+      if (!executionId || id === executionId) {
+        controller.abort(new AgentError('Execution cancelled', 'CANCELLED', { executionId: id }));
+      }
     }
   }
 
@@ -128,23 +254,72 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
     }
   }
 
+  /**
+   * Decide whether a failed attempt is retried
+   * Override to classify errors specific to the agent
+   */
+  protected isRetryable(error: Error, attempt: number): boolean {
+    return isRetryableError(error, attempt, this.config.retry);
+  }
+
+  /**
+   * Record execution metrics in the configured or global registry
+   */
+  private recordMetrics(status: 'success' | 'error' | 'cancelled', executionTime: number, attempts: RetryAttempt[]): void {
+    recordAgentExecution(
+      this.config.metrics ?? getGlobalMetrics(),
+      this.config.name,
+      status,
+      executionTime,
+      Math.max(0, attempts.length - 1)
+    );
+  }
+
   /**
    * Execute with retry logic
+   * Fatal errors end the execution at once. Every attempt is recorded in attempts.
    */
-  private async executeWithRetry(context: AgentContext<TInput>): Promise<TOutput> {
+  private async executeWithRetry(context: AgentContext<TInput>, attempts: RetryAttempt[]): Promise<TOutput> {
     const retry = this.config.retry!;
     let lastError: Error | undefined;
 
     for (let attempt = 1; attempt <= retry.maxAttempts; attempt++) {
+      throwIfAborted(context.signal);
+
+      const startedAt = new Date();
       try {
-        return await this.run(context);
+        const result = this.circuitBreaker
+          ? await this.circuitBreaker.execute(() => this.run(context))
+          : await this.run(context);
+        attempts.push({ attempt, startedAt, duration: Date.now() - startedAt.getTime() });
+        return result;
       } catch (error) {
         lastError = error as Error;
+        const record: RetryAttempt = {
+          attempt,
+          startedAt,
+          duration: Date.now() - startedAt.getTime(),
+          error: lastError
+        };
+        attempts.push(record);
+
+        // Do not retry cancelled or timed out executions
+        throwIfAborted(context.signal);
+
+        record.retryable = this.isRetryable(lastError, attempt);
+        if (!record.retryable) {
+          break;
+        }
 
         if (attempt < retry.maxAttempts) {
-          // Calculate delay with backoff
-          const delay = this.calculateRetryDelay(attempt, retry);
-          await this.sleep(delay);
+          // Calculate delay with backoff, honoring Retry-After hints
+          record.delay = calculateRetryDelay(attempt, retry, error);
+          context.logger?.warn('Retrying agent execution', {
+            attempt,
+            delay: record.delay,
+            error: lastError
+          });
+          await sleep(record.delay, context.signal);
         }
       }
     }
@@ -154,38 +329,23 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
 
   /**
    * Execute with timeout
+   * On timeout the controller is aborted, so the work stops retrying and can stop itself.
    */
   private async executeWithTimeout<T>(
     fn: () => Promise<T>,
-    timeout: number
+    timeout: number,
+    controller: AbortController
   ): Promise<T> {
-    return Promise.race([
-      fn(),
-      new Promise<T>((_, reject) =>
-        setTimeout(
-          () => reject(new AgentError('Execution timeout', 'TIMEOUT')),
-          timeout
-        )
-      )
-    ]);
-  }
+    const timer = setTimeout(
+      () => controller.abort(new AgentError('Execution timeout', 'TIMEOUT')),
+      timeout
+    );
 
-  /**
-   * Calculate retry delay with backoff
-   */
-  private calculateRetryDelay(attempt: number, retry: RetryConfig): number {
-    if (retry.backoff === 'exponential') {
-      const delay = retry.delay * Math.pow(2, attempt - 1);
-      return Math.min(delay, retry.maxDelay || delay);
+    try {
+      return await raceAbort(fn(), controller.signal);
+    } finally {
+      clearTimeout(timer);
     }
-    return retry.delay;
-  }
-
-  /**
-   * Sleep utility
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
@@ -215,11 +375,33 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
   }
 
   /**
-   * Emit event to listeners
+   * Get the circuit breaker guarding the agent, if configured
    */
-  protected emitEvent(event: AgentEvent): void {
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Re-emit a circuit state change as an agent event
+   */
+  private forwardCircuitEvent = (event: AgentEvent): void => {
+    this.emitEvent({ ...event, data: { ...event.data, agent: this.config.name } });
+  };
+
+  /**
+   * Emit event to listeners and log it
+   */
+  protected emitEvent(event: AgentEvent, logger: ILogger = this.getLogger()): void {
     this.emit('event', event);
     this.emit(event.type, event);
+    logEvent(logger, event);
+  }
+
+  /**
+   * Logger of the agent: the configured or the global one
+   */
+  protected getLogger(): ILogger {
+    return (this.config.logger ?? getGlobalLogger()).child({ agent: this.config.name });
   }
 
   /**
@@ -240,10 +422,24 @@ export abstract class BaseAgent<TInput = any, TOutput = any> extends EventEmitte
    * Close the agent and cleanup resources
    */
   async close(): Promise<void> {
+    this.circuitBreaker?.offEvent(this.forwardCircuitEvent);
     this.removeAllListeners();
     this.initialized = false;
   }
 
+  /**
+   * JSON Schemas of the declared input and output schemas
+   */
+  getSchemas(): AgentSchemas {
+    const { name, description, inputSchema, outputSchema } = this.config;
+    return {
+      name,
+      description,
+      input: inputSchema && toJsonSchema(inputSchema),
+      output: outputSchema && toJsonSchema(outputSchema)
+    };
+  }
+
   /**
    * Get agent configuration
    */
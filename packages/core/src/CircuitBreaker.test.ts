@@ -0,0 +1,112 @@
+import { CircuitBreaker } from './CircuitBreaker';
+import { isRetryableError } from './retry';
+import { AgentError, AgentEvent } from './types';
+
+const unavailable = () => Promise.reject(Object.assign(new Error('unavailable'), { status: 503 }));
+const ok = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('goes from closed to open to half-open and back to closed', async () => {
+    const breaker = new CircuitBreaker({ name: 'crm', failureThreshold: 2, resetTimeout: 1000 });
+    const events: AgentEvent[] = [];
+    breaker.onEvent(event => { events.push(event); });
+
+    await expect(breaker.execute(unavailable)).rejects.toThrow('unavailable');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(unavailable)).rejects.toThrow('unavailable');
+    expect(breaker.getState()).toBe('open');
+
+    const fn = jest.fn(ok);
+    await expect(breaker.execute(fn)).rejects.toMatchObject({
+      code: 'CIRCUIT_OPEN',
+      details: { circuit: 'crm', state: 'open', failures: 2, resetAt: new Date(now + 1000) }
+    });
+    expect(fn).not.toHaveBeenCalled();
+
+    now += 1000;
+    expect(breaker.getState()).toBe('half-open');
+    await expect(breaker.execute(ok)).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+
+    expect(events.map(event => `${event.data.from}->${event.data.to}`))
+      .toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  it('reopens when a half-open trial fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    await breaker.execute(unavailable).catch(() => undefined);
+    now += 1000;
+
+    await expect(breaker.execute(unavailable)).rejects.toThrow('unavailable');
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('admits only the configured number of concurrent trials', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, halfOpenMaxCalls: 1 });
+    await breaker.execute(unavailable).catch(() => undefined);
+    now += 1000;
+
+    let finish!: () => void;
+    const trial = breaker.execute(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    await expect(breaker.execute(ok)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', details: { state: 'half-open' } });
+    finish();
+    await trial;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('closes after the configured number of successful trials', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, successThreshold: 2 });
+    await breaker.execute(unavailable).catch(() => undefined);
+    now += 1000;
+
+    await breaker.execute(ok);
+    expect(breaker.getState()).toBe('half-open');
+    await breaker.execute(ok);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('does not count fatal errors or failures followed by a success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    await breaker.execute(() => Promise.reject(new AgentError('bad input', 'INVALID_INPUT'))).catch(() => undefined);
+    await breaker.execute(unavailable).catch(() => undefined);
+    await breaker.execute(ok);
+    await breaker.execute(unavailable).catch(() => undefined);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getFailures()).toBe(1);
+  });
+
+  it('closes when reset', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    await breaker.execute(unavailable).catch(() => undefined);
+
+    breaker.reset();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getFailures()).toBe(0);
+  });
+
+  it('fails fast with an error that is not retried', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    await breaker.execute(unavailable).catch(() => undefined);
+
+    const error = await breaker.execute(ok).catch(caught => caught);
+
+    expect(error).toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(isRetryableError(error, 1)).toBe(false);
+  });
+});
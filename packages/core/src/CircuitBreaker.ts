@@ -0,0 +1,191 @@
+/**
+ * Circuit Breaker
+ * Fails calls fast while a dependency keeps failing, instead of waiting for
+ * retries and timeouts on every call
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import {
+  AgentError,
+  AgentEvent,
+  CircuitBreakerConfig,
+  CircuitState,
+  EventListener
+} from './types';
+import { isRetryableError } from './retry';
+
+/**
+ * Circuit breaker with closed, open and half-open states
+ *
+ * Closed: calls pass through; consecutive failures are counted.
+ * Open: calls fail at once with an AgentError coded 'CIRCUIT_OPEN' until resetTimeout elapses.
+ * Half-open: a limited number of trial calls pass; a success closes the circuit,
+ * a failure opens it again.
+ */
+export class CircuitBreaker extends EventEmitter {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private successes: number = 0;
+  private trials: number = 0;
+  private openedAt: number = 0;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    super();
+    this.config = {
+      name: 'circuit',
+      failureThreshold: 5,
+      resetTimeout: 30000,
+      halfOpenMaxCalls: 1,
+      successThreshold: 1,
+      // Fatal errors such as validation failures show the dependency is reachable
+      isFailure: error => isRetryableError(error, 1),
+      ...config
+    };
+  }
+
+  /**
+   * Run a call through the circuit
+   * Throws an AgentError with code 'CIRCUIT_OPEN' without calling fn while open.
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const trial = this.acquire();
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.config.isFailure!(error as Error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      // Trials of an earlier half-open period were reset by the transition
+      if (trial && this.trials > 0) {
+        this.trials--;
+      }
+    }
+  }
+
+  /**
+   * Current state
+   * An open circuit turns half-open once its cool-down has elapsed.
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.resetTimeout!) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Consecutive failures counted so far
+   */
+  getFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Circuit name
+   */
+  getName(): string {
+    return this.config.name!;
+  }
+
+  /**
+   * Close the circuit and clear the failure count
+   */
+  reset(): void {
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * Add event listener
+   */
+  onEvent(listener: EventListener): void {
+    this.on('event', listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  offEvent(listener: EventListener): void {
+    this.off('event', listener);
+  }
+
+  /**
+   * Admit a call, returning whether it is a half-open trial
+   */
+  private acquire(): boolean {
+    const state = this.getState();
+
+    if (state === 'closed') {
+      return false;
+    }
+    if (state === 'half-open' && this.trials < this.config.halfOpenMaxCalls!) {
+      this.trials++;
+      return true;
+    }
+
+    throw new AgentError(
+      `Circuit "${this.config.name}" is open`,
+      'CIRCUIT_OPEN',
+      {
+        circuit: this.config.name,
+        state,
+        failures: this.failures,
+        resetAt: state === 'open' ? new Date(this.openedAt + this.config.resetTimeout!) : undefined
+      }
+    );
+  }
+
+  private recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.successes++;
+      if (this.successes >= this.config.successThreshold!) {
+        this.transition('closed');
+      }
+    }
+    this.failures = 0;
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.config.failureThreshold!)) {
+      this.transition('open');
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.successes = 0;
+    if (to === 'open') {
+      this.openedAt = Date.now();
+    } else if (to === 'half-open') {
+      this.trials = 0;
+    }
+
+    this.emitEvent({
+      type: `circuit:${to}`,
+      timestamp: new Date(),
+      data: { circuit: this.config.name, from, to, failures: this.failures }
+    });
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  private emitEvent(event: AgentEvent): void {
+    this.emit('event', event);
+    this.emit(event.type, event);
+  }
+}
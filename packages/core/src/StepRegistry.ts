@@ -0,0 +1,103 @@
+/**
+ * Step Registry
+ * Named step handlers, agents and workflows that workflow definitions refer to
+ */
+
+import type { BaseAgent } from './BaseAgent';
+import type { AgentWorkflow } from './AgentWorkflow';
+
+/**
+ * Function a workflow definition can reference by name: a step handler,
+ * a compensation or error handler, a merge function or an input/output mapping
+ */
+export type RegisteredHandler = (...args: any[]) => any;
+
+/**
+ * Registry of named handlers, agents and workflows
+ */
+export class StepRegistry {
+  private handlers: Map<string, RegisteredHandler> = new Map();
+  private agents: Map<string, BaseAgent> = new Map();
+  private workflows: Map<string, AgentWorkflow> = new Map();
+
+  /**
+   * Register a handler under a name
+   */
+  registerHandler(name: string, handler: RegisteredHandler): this {
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  /**
+   * Register an agent under a name
+   */
+  registerAgent(name: string, agent: BaseAgent): this {
+    this.agents.set(name, agent);
+    return this;
+  }
+
+  /**
+   * Register a workflow under a name, for use as a sub-workflow
+   */
+  registerWorkflow(name: string, workflow: AgentWorkflow): this {
+    this.workflows.set(name, workflow);
+    return this;
+  }
+
+  /**
+   * Get a handler by name
+   */
+  getHandler(name: string): RegisteredHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  /**
+   * Get an agent by name
+   */
+  getAgent(name: string): BaseAgent | undefined {
+    return this.agents.get(name);
+  }
+
+  /**
+   * Get a workflow by name
+   */
+  getWorkflow(name: string): AgentWorkflow | undefined {
+    return this.workflows.get(name);
+  }
+
+  /**
+   * Name a handler is registered under
+   */
+  findHandlerName(handler: RegisteredHandler): string | undefined {
+    for (const [name, candidate] of this.handlers) {
+      if (candidate === handler) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Name an agent is registered under
+   */
+  findAgentName(agent: BaseAgent): string | undefined {
+    for (const [name, candidate] of this.agents) {
+      if (candidate === agent) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Name a workflow is registered under
+   */
+  findWorkflowName(workflow: AgentWorkflow): string | undefined {
+    for (const [name, candidate] of this.workflows) {
+      if (candidate === workflow) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Cancellation utilities built on AbortSignal
+ */
+
+import { AgentError } from './types';
+
+/**
+ * Error describing why a signal was aborted
+ * Aborts with an AgentError reason (e.g. a timeout) keep it, anything else is a cancellation.
+ */
+export function abortReason(signal: AbortSignal): AgentError {
+  if (signal.reason instanceof AgentError) {
+    return signal.reason;
+  }
+  return new AgentError('Execution cancelled', 'CANCELLED', { reason: signal.reason });
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Reject as soon as the signal aborts, without waiting for the promise
+ * The underlying work is not stopped; it has to observe the signal itself.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // Keep a late rejection of the abandoned promise from going unhandled
+    promise.catch(() => undefined);
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Abort the controller when the parent signal aborts
+ * Returns a function that removes the link.
+ */
+export function linkAbortSignal(controller: AbortController, parent?: AbortSignal): () => void {
+  if (!parent) {
+    return () => undefined;
+  }
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+    return () => undefined;
+  }
+
+  const onAbort = () => controller.abort(parent.reason);
+  parent.addEventListener('abort', onAbort, { once: true });
+  return () => parent.removeEventListener('abort', onAbort);
+}
@@ -0,0 +1,123 @@
+/**
+ * File checkpoint store
+ */
+
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { AgentError, ICheckpointStore, WorkflowCheckpoint } from '../types';
+import { serializeCheckpoint, deserializeCheckpoint } from './serialization';
+
+/**
+ * Checkpoint store that keeps one JSON file per run in a local directory
+ * Files are written to a temporary path and renamed, so a crash mid-write
+ * leaves the previous checkpoint intact. Saves of one run are written in the
+ * order they were made, so the last save is the one that is kept.
+ */
+export class FileCheckpointStore implements ICheckpointStore {
+  private directory: string;
+  /** Last pending write per run */
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Save checkpoint
+   */
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    const { runId } = checkpoint;
+    const json = serializeCheckpoint(checkpoint);
+    const previous = this.writes.get(runId) ?? Promise.resolve();
+    const write = previous.then(() => this.write(runId, json));
+    const settled = write.catch(() => undefined);
+
+    this.writes.set(runId, settled);
+    settled.then(() => {
+      if (this.writes.get(runId) === settled) {
+        this.writes.delete(runId);
+      }
+    });
+    return write;
+  }
+
+  /**
+   * Load checkpoint
+   */
+  async load(runId: string): Promise<WorkflowCheckpoint | null> {
+    try {
+      return deserializeCheckpoint(await fs.readFile(this.filePath(runId), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw new AgentError(
+        `Failed to load checkpoint: ${runId}`,
+        'CHECKPOINT_LOAD_FAILED',
+        { runId, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Delete checkpoint
+   */
+  async delete(runId: string): Promise<void> {
+    await fs.rm(this.filePath(runId), { force: true });
+  }
+
+  /**
+   * List checkpoints
+   */
+  async list(workflow?: string): Promise<WorkflowCheckpoint[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const checkpoints: WorkflowCheckpoint[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const json = await fs.readFile(path.join(this.directory, file), 'utf8');
+      const checkpoint = deserializeCheckpoint(json);
+      if (!workflow || checkpoint.workflow === workflow) {
+        checkpoints.push(checkpoint);
+      }
+    }
+    return checkpoints;
+  }
+
+  /**
+   * Write a checkpoint file through a temporary file
+   */
+  private async write(runId: string, json: string): Promise<void> {
+    const file = this.filePath(runId);
+    // Unique per save, so concurrent saves of one run never share a temp file
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempFile, json, 'utf8');
+      await fs.rename(tempFile, file);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw new AgentError(
+        `Failed to save checkpoint: ${runId}`,
+        'CHECKPOINT_SAVE_FAILED',
+        { runId, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Checkpoint file path for a run
+   */
+  private filePath(runId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(runId)}.json`);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * In-memory checkpoint store
+ */
+
+import { ICheckpointStore, WorkflowCheckpoint } from '../types';
+import { serializeCheckpoint, deserializeCheckpoint } from './serialization';
+
+/**
+ * Checkpoint store that keeps checkpoints in process memory
+ * Checkpoints are stored serialized, so later changes to a run do not leak into them.
+ */
+export class InMemoryCheckpointStore implements ICheckpointStore {
+  private checkpoints: Map<string, string> = new Map();
+
+  /**
+   * Save checkpoint
+   */
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.runId, serializeCheckpoint(checkpoint));
+  }
+
+  /**
+   * Load checkpoint
+   */
+  async load(runId: string): Promise<WorkflowCheckpoint | null> {
+    const json = this.checkpoints.get(runId);
+    return json ? deserializeCheckpoint(json) : null;
+  }
+
+  /**
+   * Delete checkpoint
+   */
+  async delete(runId: string): Promise<void> {
+    this.checkpoints.delete(runId);
+  }
+
+  /**
+   * List checkpoints
+   */
+  async list(workflow?: string): Promise<WorkflowCheckpoint[]> {
+    return [...this.checkpoints.values()]
+      .map(json => deserializeCheckpoint(json))
+      .filter(checkpoint => !workflow || checkpoint.workflow === workflow);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Checkpoint serialization
+ * JSON encoding that preserves dates and errors inside workflow data and history
+ */
+
+import { AgentError, WorkflowCheckpoint } from '../types';
+
+/**
+ * Serialize a checkpoint to JSON
+ */
+export function serializeCheckpoint(checkpoint: WorkflowCheckpoint): string {
+  return serializeValue(checkpoint);
+}
+
+/**
+ * Deserialize a checkpoint from JSON
+ */
+export function deserializeCheckpoint(json: string): WorkflowCheckpoint {
+  return deserializeValue(json);
+}
+
+/**
+ * Serialize a value to JSON, keeping dates and errors
+ */
+export function serializeValue(data: any): string {
+  return JSON.stringify(data, function (this: any, key: string, value: any) {
+    // Read the raw value, Date#toJSON has already run on `value`
+    const raw = this[key];
+
+    if (raw instanceof Date) {
+      return { $date: raw.toISOString() };
+    }
+
+    if (raw instanceof Error) {
+      return {
+        $error: {
+          name: raw.name,
+          message: raw.message,
+          code: (raw as any).code,
+          details: (raw as any).details
+        }
+      };
+    }
+
+    return value;
+  });
+}
+
+/**
+ * Deserialize a value serialized with serializeValue()
+ */
+export function deserializeValue(json: string): any {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object') {
+      if (typeof value.$date === 'string') {
+        return new Date(value.$date);
+      }
+
+      if (value.$error) {
+        const { name, message, code, details } = value.$error;
+        const error = code !== undefined
+          ? new AgentError(message, code, details)
+          : new Error(message);
+        error.name = name;
+        return error;
+      }
+    }
+
+    return value;
+  });
+}
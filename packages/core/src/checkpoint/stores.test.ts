@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ICheckpointStore, WorkflowCheckpoint } from '../types';
+import { InMemoryCheckpointStore } from './InMemoryCheckpointStore';
+import { FileCheckpointStore } from './FileCheckpointStore';
+
+const directories: string[] = [];
+
+async function tempDirectory(): Promise<string> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+  directories.push(directory);
+  return directory;
+}
+
+afterAll(async () => {
+  await Promise.all(directories.map(directory => fs.rm(directory, { recursive: true, force: true })));
+});
+
+function checkpoint(runId: string, workflow: string, status: WorkflowCheckpoint['status'] = 'running'): WorkflowCheckpoint {
+  return {
+    runId,
+    workflow,
+    status,
+    context: {
+      id: runId,
+      data: { lead: { email: 'jane@acme.com', createdAt: new Date(0) } },
+      metadata: {},
+      timestamp: new Date(0),
+      history: []
+    },
+    completedSteps: ['a'],
+    updatedAt: new Date()
+  };
+}
+
+describe.each([
+  ['InMemoryCheckpointStore', async () => new InMemoryCheckpointStore()],
+  ['FileCheckpointStore', async () => new FileCheckpointStore(await tempDirectory())]
+])('%s', (_name, createStore: () => Promise<ICheckpointStore>) => {
+  let store: ICheckpointStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+  });
+
+  it('saves, replaces and loads checkpoints with their dates', async () => {
+    await store.save(checkpoint('run-1', 'intake'));
+    await store.save(checkpoint('run-1', 'intake', 'completed'));
+
+    const loaded = await store.load('run-1');
+
+    expect(loaded?.status).toBe('completed');
+    expect(loaded?.completedSteps).toEqual(['a']);
+    expect(loaded?.context.data.lead.createdAt.getTime()).toBe(0);
+    expect(await store.load('missing')).toBeNull();
+  });
+
+  it('lists checkpoints by workflow and deletes them', async () => {
+    await store.save(checkpoint('run-1', 'intake'));
+    await store.save(checkpoint('run-2', 'intake'));
+    await store.save(checkpoint('run-3', 'scoring'));
+
+    await store.delete('run-2');
+
+    expect((await store.list('intake')).map(saved => saved.runId)).toEqual(['run-1']);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it('keeps the last of concurrent saves of a run', async () => {
+    const saves = (['running', 'pending', 'completed'] as const).map(status => checkpoint('run-1', 'intake', status));
+    saves[2].completedSteps = ['a', 'b'];
+
+    await Promise.all(saves.map(saved => store.save(saved)));
+
+    expect(await store.load('run-1')).toEqual(saves[2]);
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  it('leaves no temporary files behind', async () => {
+    const directory = await tempDirectory();
+    const store = new FileCheckpointStore(directory);
+
+    await Promise.all([1, 2, 3].map(() => store.save(checkpoint('run-1', 'intake'))));
+
+    expect(await fs.readdir(directory)).toEqual(['run-1.json']);
+  });
+
+  it('writes concurrent saves of a run one after another, each file complete', async () => {
+    const directory = await tempDirectory();
+    const store = new FileCheckpointStore(directory);
+    const file = path.join(directory, 'run-1.json');
+    const written: string[] = [];
+    const rename = fs.rename;
+    const spy = jest.spyOn(fs, 'rename').mockImplementation(async (from, to) => {
+      await rename(from, to);
+      written.push(JSON.parse(await fs.readFile(file, 'utf8')).status);
+    });
+
+    try {
+      await Promise.all((['running', 'pending', 'completed'] as const).map(status =>
+        store.save(checkpoint('run-1', 'intake', status))
+      ));
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(written).toEqual(['running', 'pending', 'completed']);
+  });
+});
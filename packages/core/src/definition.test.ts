@@ -0,0 +1,151 @@
+import { AgentWorkflow } from './AgentWorkflow';
+import { StepRegistry } from './StepRegistry';
+import { parseWorkflowDefinition, validateWorkflowDefinition } from './definition';
+import { expression } from './expression';
+import { AgentContext, WorkflowDefinition } from './types';
+
+const registry = () => new StepRegistry()
+  .registerHandler('score', async (context: AgentContext) => ({ ...context.data, score: context.data.points * 10 }))
+  .registerHandler('route-sales', async (context: AgentContext) => ({ ...context.data, route: 'sales' }))
+  .registerHandler('route-nurture', async (context: AgentContext) => ({ ...context.data, route: 'nurture' }))
+  .registerHandler('undo', async () => undefined);
+
+const qualification: WorkflowDefinition = {
+  name: 'qualification',
+  timeout: 60000,
+  onError: 'rollback',
+  mode: 'graph',
+  steps: [
+    { name: 'score', handler: 'score', compensate: 'undo', retry: { maxAttempts: 2, delay: 10 } },
+    { name: 'route', select: "data.score >= 60 && 'hot' || 'cold'", cases: { hot: 'sales', cold: 'nurture' }, dependsOn: ['score'] },
+    { name: 'sales', handler: 'route-sales' },
+    { name: 'nurture', handler: 'route-nurture' }
+  ]
+};
+
+/** Definition errors as "path: message" */
+function issuesOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error: any) {
+    expect(error.code).toBe('INVALID_DEFINITION');
+    return error.details.issues.map((issue: { path: string; message: string }) => `${issue.path}: ${issue.message}`);
+  }
+  throw new Error('Expected the definition to be rejected');
+}
+
+describe('workflow definitions', () => {
+  it('builds a runnable workflow from a definition', async () => {
+    const workflow = AgentWorkflow.fromDefinition(qualification, registry());
+
+    const hot = await workflow.execute({ points: 8 });
+    const cold = await workflow.execute({ points: 2 });
+
+    expect(hot.data).toEqual({ points: 8, score: 80, route: 'sales' });
+    expect(cold.data).toEqual({ points: 2, score: 20, route: 'nurture' });
+  });
+
+  it('exports the definition it was built from, as an object, JSON and YAML', () => {
+    const steps = registry();
+    const workflow = AgentWorkflow.fromDefinition(qualification, steps);
+
+    expect(workflow.toDefinition(steps)).toEqual(qualification);
+    expect(parseWorkflowDefinition(workflow.exportDefinition(steps, 'json'), steps)).toEqual(qualification);
+    expect(parseWorkflowDefinition(workflow.exportDefinition(steps), steps)).toEqual(qualification);
+  });
+
+  it('exports workflows built in code when their functions are registered', () => {
+    const steps = registry();
+    const workflow = new AgentWorkflow({ name: 'code' })
+      .step('score', steps.getHandler('score')!, { condition: expression('data.points > 0') });
+
+    expect(workflow.toDefinition(steps).steps).toEqual([
+      { name: 'score', handler: 'score', condition: 'data.points > 0' }
+    ]);
+  });
+
+  it('refuses to export unregistered functions and plain conditions', () => {
+    const workflow = new AgentWorkflow({ name: 'code' })
+      .step('inline', async context => context.data, { condition: () => true });
+
+    expect(() => workflow.toDefinition(registry())).toThrow(expect.objectContaining({
+      code: 'DEFINITION_EXPORT_FAILED',
+      details: {
+        issues: [
+          { path: 'steps[0].handler', message: 'Function is not registered in the step registry' },
+          { path: 'steps[0].condition', message: 'Function is not an expression; create it with expression()' }
+        ]
+      }
+    }));
+  });
+
+  it('reports entries that match no step type', () => {
+    const issues = issuesOf(() => validateWorkflowDefinition({
+      name: 'broken',
+      steps: [
+        { name: 'nothing' },
+        { name: 'both', handler: 'score', agent: 'scorer' },
+        { name: 'typo', handler: 'score', retries: 3 }
+      ]
+    }));
+
+    expect(issues).toEqual([
+      'steps[0]: Step must set exactly one of "handler", "agent" and "workflow"',
+      'steps[1]: Step must set exactly one of "handler", "agent" and "workflow"',
+      "steps[2]: Unrecognized key(s) in object: 'retries'"
+    ]);
+  });
+
+  it('reports unregistered references and invalid expressions', () => {
+    const issues = issuesOf(() => validateWorkflowDefinition({
+      name: 'broken',
+      steps: [
+        { name: 'a', handler: 'missing', compensate: 'undo', condition: 'data.x >' },
+        { name: 'b', agent: 'scorer' },
+        { name: 'c', workflow: 'child' },
+        { name: 'd', parallel: [{ name: 'e', handler: 'score' }], merge: 'concat' }
+      ]
+    }, registry()));
+
+    expect(issues).toEqual([
+      expect.stringMatching(/^steps\[0\]\.condition: Invalid expression "data\.x >"/),
+      'steps[0].handler: Handler not registered: missing',
+      'steps[1].agent: Agent not registered: scorer',
+      'steps[2].workflow: Workflow not registered: child',
+      'steps[3].merge: Unknown merge strategy or handler: concat'
+    ]);
+  });
+
+  it('reports the line and column of issues in documents', () => {
+    const source = [
+      'name: broken',
+      'steps:',
+      '  - name: a',
+      '    handler: score',
+      '    timeout: -5'
+    ].join('\n');
+
+    expect(() => parseWorkflowDefinition(source, registry())).toThrow(expect.objectContaining({
+      code: 'INVALID_DEFINITION',
+      details: { issues: [expect.objectContaining({ path: 'steps[0].timeout', line: 5, column: 14 })] }
+    }));
+    expect(() => parseWorkflowDefinition('name: [unclosed')).toThrow(expect.objectContaining({
+      code: 'INVALID_DEFINITION'
+    }));
+  });
+
+  it('rejects cycles and unknown dependencies of the definition', () => {
+    const cycle = {
+      name: 'cycle',
+      mode: 'graph' as const,
+      steps: [
+        { name: 'a', handler: 'score', dependsOn: ['b'] },
+        { name: 'b', handler: 'score', dependsOn: ['a'] }
+      ]
+    };
+    const unknown = { name: 'unknown', mode: 'graph' as const, steps: [{ name: 'a', handler: 'score', dependsOn: ['z'] }] };
+
+    expect(() => AgentWorkflow.fromDefinition(cycle, registry())).toThrow(expect.objectContaining({ code: 'WORKFLOW_CYCLE' }));
+    expect(() => AgentWorkflow.fromDefinition(unknown, registry())).toThrow(expect.objectContaining({ code: 'INVALID_WORKFLOW' }));
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Workflow definitions
+ * Validation, parsing and serialization of declarative workflow documents
+ */
+
+import { z } from 'zod';
+import { parseDocument, stringify, isNode, LineCounter, Document } from 'yaml';
+import {
+  AgentError,
+  WorkflowDefinition,
+  StepDefinition,
+  ParallelGroupDefinition,
+  BranchDefinition,
+  ApprovalDefinition,
+  WorkflowEntryDefinition,
+  DefinitionIssue,
+  DefinitionFormat
+} from './types';
+import { expression } from './expression';
+import { StepRegistry } from './StepRegistry';
+import { IssuePath, formatPath } from './schema';
+
+/** Built-in merge strategies of parallel groups */
+export const MERGE_STRATEGIES = ['shallow', 'deep', 'namespace'];
+
+interface PathIssue {
+  path: IssuePath;
+  message: string;
+}
+
+const NameSchema = z.string().min(1);
+
+const TargetsSchema = z.union([NameSchema, z.array(NameSchema).min(1)]);
+
+const RetrySchema = z.object({
+  maxAttempts: z.number().int().min(1),
+  delay: z.number().min(0),
+  backoff: z.enum(['linear', 'exponential']).optional(),
+  maxDelay: z.number().min(0).optional(),
+  jitter: z.boolean().optional(),
+  respectRetryAfter: z.boolean().optional(),
+  fatalCodes: z.array(NameSchema).optional()
+}).strict();
+
+const StepSchema = z.object({
+  name: NameSchema,
+  handler: NameSchema.optional(),
+  agent: NameSchema.optional(),
+  workflow: NameSchema.optional(),
+  input: NameSchema.optional(),
+  output: NameSchema.optional(),
+  condition: z.string().optional(),
+  onError: NameSchema.optional(),
+  compensate: NameSchema.optional(),
+  dependsOn: z.array(NameSchema).optional(),
+  retry: RetrySchema.optional(),
+  timeout: z.number().int().positive().optional()
+}).strict().superRefine((step, ctx) => {
+  if ([step.handler, step.agent, step.workflow].filter(Boolean).length !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Step must set exactly one of "handler", "agent" and "workflow"'
+    });
+  }
+  for (const key of ['input', 'output'] as const) {
+    if (step[key] && step.handler) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: `"${key}" only applies to agent and workflow steps`
+      });
+    }
+  }
+});
+
+const ParallelGroupSchema = z.object({
+  name: NameSchema,
+  parallel: z.array(StepSchema).min(1),
+  merge: NameSchema.optional(),
+  policy: z.enum(['all', 'any', 'settled']).optional(),
+  condition: z.string().optional(),
+  dependsOn: z.array(NameSchema).optional()
+}).strict();
+
+const BranchSchema = z.object({
+  name: NameSchema,
+  select: z.string(),
+  cases: z.record(TargetsSchema),
+  default: TargetsSchema.optional(),
+  dependsOn: z.array(NameSchema).optional()
+}).strict();
+
+const ApprovalSchema = z.object({
+  name: NameSchema,
+  approval: z.object({
+    payload: NameSchema.optional(),
+    assignee: NameSchema.optional(),
+    timeout: z.number().int().positive().optional(),
+    onTimeout: z.enum(['reject', 'escalate']).optional(),
+    escalateTo: NameSchema.optional(),
+    escalationTimeout: z.number().int().positive().optional()
+  }).strict(),
+  approved: TargetsSchema.optional(),
+  rejected: TargetsSchema.optional(),
+  condition: z.string().optional(),
+  dependsOn: z.array(NameSchema).optional()
+}).strict();
+
+const WorkflowDefinitionSchema = z.object({
+  name: NameSchema,
+  description: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+  onError: z.enum(['stop', 'continue', 'rollback']).optional(),
+  mode: z.enum(['sequential', 'graph']).optional(),
+  // Entries are checked one by one against the schema matching their kind
+  steps: z.array(z.record(z.unknown()))
+}).strict();
+
+/**
+ * Validate a workflow definition object
+ * With a registry, handler, agent and workflow references are checked as well.
+ * Throws an AgentError with code 'INVALID_DEFINITION' listing every issue.
+ */
+export function validateWorkflowDefinition(value: unknown, registry?: StepRegistry): WorkflowDefinition {
+  const issues = findIssues(value, registry);
+  if (issues.length > 0) {
+    throw definitionError(issues.map(issue => ({ path: formatPath(issue.path), message: issue.message })));
+  }
+  return value as WorkflowDefinition;
+}
+
+/**
+ * Parse and validate a JSON or YAML workflow definition
+ * Issues carry the line and column they were found at.
+ */
+export function parseWorkflowDefinition(source: string, registry?: StepRegistry): WorkflowDefinition {
+  const lineCounter = new LineCounter();
+  // JSON documents are valid YAML, one parser handles both formats
+  const document = parseDocument(source, { lineCounter });
+
+  if (document.errors.length > 0) {
+    throw definitionError(document.errors.map(error => ({
+      path: '',
+      message: error.message.split('\n')[0],
+      line: error.linePos?.[0].line,
+      column: error.linePos?.[0].col
+    })));
+  }
+
+  const value = document.toJS();
+  const issues = findIssues(value, registry);
+  if (issues.length > 0) {
+    throw definitionError(issues.map(issue => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+      ...locate(document, lineCounter, issue.path)
+    })));
+  }
+  return value as WorkflowDefinition;
+}
+
+/**
+ * Serialize a workflow definition
+ */
+export function stringifyWorkflowDefinition(
+  definition: WorkflowDefinition,
+  format: DefinitionFormat = 'yaml'
+): string {
+  return format === 'json'
+    ? JSON.stringify(definition, null, 2)
+    : stringify(definition);
+}
+
+/**
+ * Check whether an entry definition is a parallel group
+ */
+export function isParallelGroupDefinition(entry: WorkflowEntryDefinition): entry is ParallelGroupDefinition {
+  return 'parallel' in entry;
+}
+
+/**
+ * Check whether an entry definition is an approval step
+ */
+export function isApprovalDefinition(entry: WorkflowEntryDefinition): entry is ApprovalDefinition {
+  return 'approval' in entry;
+}
+
+/**
+ * Check whether an entry definition is a branch node
+ */
+export function isBranchDefinition(entry: WorkflowEntryDefinition): entry is BranchDefinition {
+  return 'select' in entry || 'cases' in entry;
+}
+
+/**
+ * Error listing the issues of a definition
+ */
+export function definitionError(issues: DefinitionIssue[]): AgentError {
+  const lines = issues.map(issue => {
+    const location = issue.line !== undefined ? ` (line ${issue.line}, column ${issue.column})` : '';
+    return `  ${issue.path || '<root>'}: ${issue.message}${location}`;
+  });
+  return new AgentError(
+    `Invalid workflow definition:\n${lines.join('\n')}`,
+    'INVALID_DEFINITION',
+    { issues }
+  );
+}
+
+/**
+ * Collect schema, expression and reference issues
+ */
+function findIssues(value: unknown, registry?: StepRegistry): PathIssue[] {
+  const parsed = WorkflowDefinitionSchema.safeParse(value);
+  if (!parsed.success) {
+    return toPathIssues(parsed.error, []);
+  }
+
+  const issues: PathIssue[] = [];
+
+  parsed.data.steps.forEach((entry, index) => {
+    const path = ['steps', index];
+    const schema = 'parallel' in entry
+      ? ParallelGroupSchema
+      : 'approval' in entry
+        ? ApprovalSchema
+        : 'select' in entry || 'cases' in entry ? BranchSchema : StepSchema;
+
+    const result = schema.safeParse(entry);
+    if (!result.success) {
+      issues.push(...toPathIssues(result.error, path));
+      return;
+    }
+
+    const definition = result.data as WorkflowEntryDefinition;
+    if (isParallelGroupDefinition(definition)) {
+      checkExpression(definition.condition, [...path, 'condition'], issues);
+      if (registry && definition.merge && !MERGE_STRATEGIES.includes(definition.merge) &&
+          !registry.getHandler(definition.merge)) {
+        issues.push({
+          path: [...path, 'merge'],
+          message: `Unknown merge strategy or handler: ${definition.merge}`
+        });
+      }
+      definition.parallel.forEach((step, stepIndex) =>
+        checkStep(step, [...path, 'parallel', stepIndex], issues, registry)
+      );
+    } else if (isApprovalDefinition(definition)) {
+      checkExpression(definition.condition, [...path, 'condition'], issues);
+      const payload = definition.approval.payload;
+      if (registry && payload && !registry.getHandler(payload)) {
+        issues.push({ path: [...path, 'approval', 'payload'], message: `Handler not registered: ${payload}` });
+      }
+    } else if (isBranchDefinition(definition)) {
+      checkExpression(definition.select, [...path, 'select'], issues);
+    } else {
+      checkStep(definition, path, issues, registry);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check the expression and references of a step
+ */
+function checkStep(step: StepDefinition, path: IssuePath, issues: PathIssue[], registry?: StepRegistry): void {
+  checkExpression(step.condition, [...path, 'condition'], issues);
+  if (!registry) {
+    return;
+  }
+
+  if (step.agent && !registry.getAgent(step.agent)) {
+    issues.push({ path: [...path, 'agent'], message: `Agent not registered: ${step.agent}` });
+  }
+  if (step.workflow && !registry.getWorkflow(step.workflow)) {
+    issues.push({ path: [...path, 'workflow'], message: `Workflow not registered: ${step.workflow}` });
+  }
+  for (const key of ['handler', 'onError', 'compensate', 'input', 'output'] as const) {
+    const name = step[key];
+    if (name && !registry.getHandler(name)) {
+      issues.push({ path: [...path, key], message: `Handler not registered: ${name}` });
+    }
+  }
+}
+
+/**
+ * Check that an expression compiles
+ */
+function checkExpression(source: string | undefined, path: IssuePath, issues: PathIssue[]): void {
+  if (source === undefined) {
+    return;
+  }
+  try {
+    expression(source);
+  } catch (error) {
+    issues.push({ path, message: (error as Error).message });
+  }
+}
+
+/**
+ * Convert zod issues, prefixing their paths
+ */
+function toPathIssues(error: z.ZodError, prefix: IssuePath): PathIssue[] {
+  return error.issues.map(issue => ({
+    path: [...prefix, ...issue.path],
+    message: issue.message
+  }));
+}
+
+/**
+ * Line and column of the closest node to a path
+ * Missing keys are reported at the object that lacks them.
+ */
+function locate(
+  document: Document,
+  lineCounter: LineCounter,
+  path: IssuePath
+): { line?: number; column?: number } {
+  for (let length = path.length; length >= 0; length--) {
+    const node = length > 0 ? document.getIn(path.slice(0, length), true) : document.contents;
+    if (isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+  return {};
+}
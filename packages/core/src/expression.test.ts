@@ -0,0 +1,95 @@
+import { expression, isWorkflowExpression } from './expression';
+import { AgentContext } from './types';
+
+function context(data: any, metadata: Record<string, any> = {}): AgentContext {
+  return { id: 'run-1', data, metadata, timestamp: new Date(0), history: [] };
+}
+
+const evaluate = (source: string, data: any = {}, metadata?: Record<string, any>) =>
+  expression(source)(context(data, metadata));
+
+describe('expression', () => {
+  it('reads data and metadata with dot and bracket access', () => {
+    const data = { lead: { email: 'jane@acme.com', tags: ['vip', 'trial'] } };
+
+    expect(evaluate('data.lead.email', data)).toBe('jane@acme.com');
+    expect(evaluate('data.lead.tags[1]', data)).toBe('trial');
+    expect(evaluate("data['lead']['email']", data)).toBe('jane@acme.com');
+    expect(evaluate('data.lead.tags.length', data)).toBe(2);
+    expect(evaluate('metadata.source', {}, { source: 'import' })).toBe('import');
+    expect(evaluate('data.missing.deeper', data)).toBeUndefined();
+  });
+
+  it('applies operator precedence and parentheses', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('7 % 4 / 2')).toBe(1.5);
+    expect(evaluate('-data.n + 1', { n: 3 })).toBe(-2);
+    expect(evaluate('1 + 1 == 2 && 3 > 2')).toBe(true);
+    expect(evaluate('false && true || true')).toBe(true);
+    expect(evaluate('!(data.score >= 60)', { score: 50 })).toBe(true);
+  });
+
+  it('compares strictly, with null matching missing values', () => {
+    expect(evaluate("data.n == '1'", { n: 1 })).toBe(false);
+    expect(evaluate('data.n != 1', { n: 1 })).toBe(false);
+    expect(evaluate('data.missing == null', {})).toBe(true);
+    expect(evaluate('data.value == null', { value: 0 })).toBe(false);
+    expect(evaluate("'b' > 'a'")).toBe(true);
+  });
+
+  it('tests membership in arrays, strings and objects', () => {
+    expect(evaluate("data.tier in ['gold', 'silver']", { tier: 'gold' })).toBe(true);
+    expect(evaluate("'acme' in data.email", { email: 'jane@acme.com' })).toBe(true);
+    expect(evaluate("'email' in data", { email: 'x' })).toBe(true);
+    expect(evaluate("'toString' in data", {})).toBe(false);
+    expect(evaluate('1 in null')).toBe(false);
+  });
+
+  it('parses string escapes and literals', () => {
+    expect(evaluate("'it\\'s'")).toBe("it's");
+    expect(evaluate('"double"')).toBe('double');
+    expect(evaluate('[1, 2.5, true, null]')).toEqual([1, 2.5, true, null]);
+    expect(evaluate('[]')).toEqual([]);
+  });
+
+  it('short-circuits && and ||', () => {
+    expect(evaluate('data.lead && data.lead.email', {})).toBeUndefined();
+    expect(evaluate("data.name || 'unknown'", {})).toBe('unknown');
+  });
+
+  it('reads only own properties', () => {
+    const data = { lead: {} };
+
+    expect(evaluate('data.lead.constructor', data)).toBeUndefined();
+    expect(evaluate("data.lead['__proto__']", data)).toBeUndefined();
+    expect(evaluate('data.lead.toString', data)).toBeUndefined();
+    expect(evaluate('data.lead.hasOwnProperty', data)).toBeUndefined();
+  });
+
+  it('keeps its source and is recognized as an expression', () => {
+    const compiled = expression('data.score >= 60');
+
+    expect(compiled.source).toBe('data.score >= 60');
+    expect(isWorkflowExpression(compiled)).toBe(true);
+    expect(isWorkflowExpression(() => true)).toBe(false);
+  });
+
+  it.each([
+    ['data.score >=', 'Unexpected end of expression'],
+    ['data.score >= 60 )', 'Unexpected ")"'],
+    ['(data.score', 'Expected ")"'],
+    ["'open", 'Unterminated string'],
+    ['data.score # 1', 'Unexpected character "#"'],
+    ['process.exit(1)', 'Unknown name "process"'],
+    ['data.', 'Expected a property name after "."'],
+    ['data.call()', 'Unexpected "("']
+  ])('rejects %s', (source, message) => {
+    expect(() => expression(source)).toThrow(expect.objectContaining({
+      code: 'INVALID_EXPRESSION',
+      message: expect.stringContaining(message),
+      details: expect.objectContaining({ expression: source, position: expect.any(Number) })
+    }));
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Workflow expressions
+ * A small, side-effect free expression language for conditions and branch selectors
+ * in workflow definitions, e.g. `data.score >= 60 && metadata.source != 'import'`.
+ *
+ * Supported: number, string, boolean and null literals, array literals, property access
+ * on `data` and `metadata` (`data.lead.email`, `data.tags[0]`), arithmetic (+ - * / %),
+ * comparisons (== != < <= > >=), `in`, `!`, `&&`, `||` and parentheses. == and != are
+ * strict, except that null also matches missing values. There are no function calls or
+ * assignments, and only own properties can be read.
+ */
+
+import { AgentContext, AgentError } from './types';
+
+/**
+ * Compiled expression, usable as a step condition or branch selector
+ * The source is kept so the expression can be exported with the workflow.
+ */
+export interface WorkflowExpression {
+  (context: AgentContext): any;
+  readonly source: string;
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'array'; items: ExpressionNode[] }
+  | { kind: 'root'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+/** Names an expression can read from */
+const ROOTS = ['data', 'metadata'];
+
+/** Properties that could reach prototypes */
+const BLOCKED_PROPERTIES = ['__proto__', 'prototype', 'constructor'];
+
+/** Operators, longest first so the tokenizer matches greedily */
+const OPERATORS = [
+  '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.', ','
+];
+
+/** Binary operator precedence, higher binds tighter */
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, 'in': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+/**
+ * Compile an expression
+ * Throws an AgentError with code 'INVALID_EXPRESSION' on syntax errors.
+ */
+export function expression(source: string): WorkflowExpression {
+  const ast = new Parser(source).parse();
+  const compiled = ((context: AgentContext) =>
+    evaluate(ast, { data: context.data, metadata: context.metadata })) as WorkflowExpression;
+  Object.defineProperty(compiled, 'source', { value: source, enumerable: true });
+  return compiled;
+}
+
+/**
+ * Check whether a function is a compiled expression
+ */
+export function isWorkflowExpression(value: unknown): value is WorkflowExpression {
+  return typeof value === 'function' && typeof (value as any).source === 'string';
+}
+
+/**
+ * Recursive descent parser producing an expression tree
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseBinary(0);
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.fail(`Unexpected "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = this.binaryPrecedence(token);
+      if (precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(precedence);
+      left = { kind: 'binary', operator: String(token.value), left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.index++;
+      return { kind: 'unary', operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.accept('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          this.fail('Expected a property name after "."', token.position);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value } };
+      } else if (this.accept('[')) {
+        const property = this.parseBinary(0);
+        this.expect(']');
+        node = { kind: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null };
+        }
+        if (!ROOTS.includes(token.value)) {
+          this.fail(
+            `Unknown name "${token.value}", expected one of: ${ROOTS.join(', ')}`,
+            token.position
+          );
+        }
+        return { kind: 'root', name: token.value };
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseBinary(0);
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: ExpressionNode[] = [];
+          if (!this.accept(']')) {
+            do {
+              items.push(this.parseBinary(0));
+            } while (this.accept(','));
+            this.expect(']');
+          }
+          return { kind: 'array', items };
+        }
+        break;
+
+      case 'end':
+        this.fail('Unexpected end of expression', token.position);
+    }
+
+    return this.fail(`Unexpected "${token.value}"`, token.position);
+  }
+
+  private binaryPrecedence(token: Token): number | undefined {
+    if (token.type === 'operator' || (token.type === 'identifier' && token.value === 'in')) {
+      return PRECEDENCE[token.value];
+    }
+    return undefined;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      const token = this.peek();
+      this.fail(`Expected "${operator}"`, token.position);
+    }
+  }
+
+  private tokenize(): Token[] {
+    const source = this.source;
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+      const char = source[position];
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      const number = /^\d+(\.\d+)?/.exec(source.slice(position));
+      if (number) {
+        tokens.push({ type: 'number', value: Number(number[0]), position });
+        position += number[0].length;
+        continue;
+      }
+
+      const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(position));
+      if (identifier) {
+        tokens.push({ type: 'identifier', value: identifier[0], position });
+        position += identifier[0].length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let value = '';
+        let end = position + 1;
+        while (end < source.length && source[end] !== char) {
+          if (source[end] === '\\' && end + 1 < source.length) {
+            end++;
+          }
+          value += source[end];
+          end++;
+        }
+        if (end >= source.length) {
+          this.fail('Unterminated string', position);
+        }
+        tokens.push({ type: 'string', value, position });
+        position = end + 1;
+        continue;
+      }
+
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+      if (!operator) {
+        this.fail(`Unexpected character "${char}"`, position);
+      }
+      tokens.push({ type: 'operator', value: operator, position });
+      position += operator.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position });
+    return tokens;
+  }
+
+  private fail(message: string, position: number): never {
+    throw new AgentError(
+      `Invalid expression "${this.source}": ${message} at position ${position}`,
+      'INVALID_EXPRESSION',
+      { expression: this.source, position }
+    );
+  }
+}
+
+/**
+ * Evaluate an expression tree
+ */
+function evaluate(node: ExpressionNode, scope: Record<string, any>): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'array':
+      return node.items.map(item => evaluate(item, scope));
+
+    case 'root':
+      return scope[node.name];
+
+    case 'member':
+      return readProperty(evaluate(node.object, scope), evaluate(node.property, scope));
+
+    case 'unary': {
+      const operand = evaluate(node.operand, scope);
+      return node.operator === '!' ? !operand : -operand;
+    }
+
+    case 'binary': {
+      // Short-circuit like JavaScript
+      if (node.operator === '&&') {
+        return evaluate(node.left, scope) && evaluate(node.right, scope);
+      }
+      if (node.operator === '||') {
+        return evaluate(node.left, scope) || evaluate(node.right, scope);
+      }
+
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+
+      switch (node.operator) {
+        case '==': return isEqual(left, right);
+        case '!=': return !isEqual(left, right);
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case 'in':
+          if (Array.isArray(right) || typeof right === 'string') {
+            return right.includes(left);
+          }
+          return right !== null && typeof right === 'object' &&
+            Object.prototype.hasOwnProperty.call(right, left);
+      }
+    }
+  }
+}
+
+/**
+ * Strict equality where null and undefined are equal
+ */
+function isEqual(left: any, right: any): boolean {
+  return left === right || ((left === null || left === undefined) && (right === null || right === undefined));
+}
+
+/**
+ * Read an own property, missing values read as undefined
+ */
+function readProperty(object: any, property: any): any {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.includes(key)) {
+    return undefined;
+  }
+  if ((Array.isArray(object) || typeof object === 'string') && key === 'length') {
+    return object.length;
+  }
+  return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+}
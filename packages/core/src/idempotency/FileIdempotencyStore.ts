@@ -0,0 +1,146 @@
+/**
+ * File idempotency store
+ */
+
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { AgentError, IIdempotencyStore, IdempotencyRecord } from '../types';
+import { serializeValue, deserializeValue } from '../checkpoint/serialization';
+
+/**
+ * Idempotency store that keeps one JSON file per key in a local directory
+ * Records are written to a temporary path first. Claims link it into place, which
+ * fails if the key's file exists, so processes sharing the directory cannot claim
+ * the same key twice; results are renamed into place.
+ */
+export class FileIdempotencyStore implements IIdempotencyStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Claim a key
+   */
+  async claim(key: string, ttl: number): Promise<IdempotencyRecord | null> {
+    const now = new Date();
+    const claim: IdempotencyRecord = {
+      key,
+      status: 'in-progress',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + ttl)
+    };
+
+    const file = this.filePath(key);
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempFile, serializeValue(claim), 'utf8');
+
+      // An expired record is removed by get() and the claim tried once more
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          await fs.link(tempFile, file);
+          return null;
+        } catch (error: any) {
+          if (error.code !== 'EEXIST') {
+            throw error;
+          }
+        }
+
+        const existing = await this.get(key);
+        if (existing) {
+          return existing;
+        }
+      }
+      throw new Error('Key was claimed and expired concurrently');
+    } catch (error) {
+      throw new AgentError(
+        `Failed to claim idempotency key: ${key}`,
+        'IDEMPOTENCY_STORE_FAILED',
+        { key, originalError: error }
+      );
+    } finally {
+      await fs.rm(tempFile, { force: true });
+    }
+  }
+
+  /**
+   * Record the result of a claimed key
+   */
+  async complete(key: string, result: any, ttl: number): Promise<void> {
+    const file = this.filePath(key);
+    // Unique per write, so concurrent completions of one key never share a temp file
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+    const createdAt = (await this.get(key))?.createdAt || new Date();
+    const record: IdempotencyRecord = {
+      key,
+      status: 'completed',
+      result,
+      createdAt,
+      expiresAt: new Date(Date.now() + ttl)
+    };
+
+    try {
+      await fs.writeFile(tempFile, serializeValue(record), 'utf8');
+      await fs.rename(tempFile, file);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw new AgentError(
+        `Failed to save idempotency record: ${key}`,
+        'IDEMPOTENCY_STORE_FAILED',
+        { key, originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Release a claim
+   */
+  async release(key: string): Promise<void> {
+    await this.delete(key);
+  }
+
+  /**
+   * Get the record of a key
+   * Expired records are deleted.
+   */
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    let record: IdempotencyRecord;
+    try {
+      record = deserializeValue(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw new AgentError(
+        `Failed to load idempotency record: ${key}`,
+        'IDEMPOTENCY_STORE_FAILED',
+        { key, originalError: error }
+      );
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * Delete the record of a key
+   */
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  /**
+   * Record file path for a key
+   */
+  private filePath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * In-memory idempotency store
+ */
+
+import { IIdempotencyStore, IdempotencyRecord } from '../types';
+import { serializeValue, deserializeValue } from '../checkpoint/serialization';
+
+/**
+ * Idempotency store that keeps records in process memory
+ * Results are stored serialized, so callers cannot change them for later duplicates.
+ * Expired records are removed as they are read.
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+  private records: Map<string, string> = new Map();
+
+  /**
+   * Claim a key
+   */
+  async claim(key: string, ttl: number): Promise<IdempotencyRecord | null> {
+    // Read and claim without yielding, so concurrent claims cannot both succeed
+    const existing = this.read(key);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date();
+    this.records.set(key, serializeValue({
+      key,
+      status: 'in-progress',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + ttl)
+    }));
+    return null;
+  }
+
+  /**
+   * Record the result of a claimed key
+   */
+  async complete(key: string, result: any, ttl: number): Promise<void> {
+    const createdAt = this.read(key)?.createdAt || new Date();
+    this.records.set(key, serializeValue({
+      key,
+      status: 'completed',
+      result,
+      createdAt,
+      expiresAt: new Date(Date.now() + ttl)
+    }));
+  }
+
+  /**
+   * Release a claim
+   */
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  /**
+   * Get the record of a key
+   */
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    return this.read(key);
+  }
+
+  /**
+   * Delete the record of a key
+   */
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  /**
+   * Remove expired records
+   */
+  prune(): void {
+    for (const key of [...this.records.keys()]) {
+      this.read(key);
+    }
+  }
+
+  /**
+   * Record of a key, removing it if expired
+   */
+  private read(key: string): IdempotencyRecord | null {
+    const json = this.records.get(key);
+    if (!json) {
+      return null;
+    }
+
+    const record: IdempotencyRecord = deserializeValue(json);
+    if (record.expiresAt.getTime() <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return record;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Idempotent execution
+ * Deduplicates agent executions and workflow runs that share an idempotency key
+ */
+
+import { IdempotencyConfig, IdempotencyInfo, IIdempotencyStore, ILogger } from '../types';
+import { sleep } from '../retry';
+import { InMemoryIdempotencyStore } from './InMemoryIdempotencyStore';
+
+/**
+ * Result of an execution that can be deduplicated
+ */
+interface IdempotentResult {
+  success: boolean;
+  cancelled?: boolean;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Options of an idempotent execution
+ */
+export interface IdempotentOptions<R> {
+  config?: IdempotencyConfig;
+  /** Namespace of the key, e.g. 'agent:lead-creator' */
+  scope: string;
+  /** Whether a result is kept for duplicates (default: successful results) */
+  recordable?: (result: R) => boolean;
+  /** Stops waiting for an execution in another process */
+  signal?: AbortSignal;
+  logger?: ILogger;
+}
+
+interface Outcome<R> {
+  result: R;
+  hit: boolean;
+  firstSeenAt: Date;
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_LOCK_TIMEOUT = 5 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL = 100;
+
+/** Store used when the config names none */
+const defaultStore = new InMemoryIdempotencyStore();
+
+/** Executions in progress by store and key, joined by duplicates in this process */
+const inflight: WeakMap<IIdempotencyStore, Map<string, Promise<Outcome<any>>>> = new WeakMap();
+
+/**
+ * Run execute once per key
+ *
+ * A duplicate gets the recorded result of the first execution with the key, or
+ * waits for it while it is in progress, in this process or, with a shared store,
+ * in another. Failed and cancelled results are not recorded unless cacheFailures is
+ * set, so the key can be retried. The outcome is added to the result's metadata
+ * under `idempotency`. Store failures before execution are thrown.
+ */
+export async function executeIdempotent<R extends IdempotentResult>(
+  key: string,
+  options: IdempotentOptions<R>,
+  execute: () => Promise<R>
+): Promise<R> {
+  const store = options.config?.store ?? defaultStore;
+  const storeKey = `${options.scope}:${key}`;
+
+  let running = inflight.get(store);
+  if (!running) {
+    running = new Map();
+    inflight.set(store, running);
+  }
+
+  const pending = running.get(storeKey);
+  if (pending) {
+    const outcome: Outcome<R> = await pending;
+    options.logger?.debug('Idempotency key in use, returning its result', { idempotencyKey: key });
+    return withIdempotency(outcome.result, { key, hit: true, firstSeenAt: outcome.firstSeenAt });
+  }
+
+  const attempt = claimAndExecute(store, storeKey, options, execute);
+  running.set(storeKey, attempt);
+  try {
+    const outcome = await attempt;
+    if (outcome.hit) {
+      options.logger?.debug('Idempotency key seen before, returning its result', { idempotencyKey: key });
+    }
+    return withIdempotency(outcome.result, {
+      key,
+      hit: outcome.hit,
+      firstSeenAt: outcome.hit ? outcome.firstSeenAt : undefined
+    });
+  } finally {
+    running.delete(storeKey);
+  }
+}
+
+/**
+ * Claim the key and execute, or return the result recorded for it
+ */
+async function claimAndExecute<R extends IdempotentResult>(
+  store: IIdempotencyStore,
+  storeKey: string,
+  options: IdempotentOptions<R>,
+  execute: () => Promise<R>
+): Promise<Outcome<R>> {
+  const config = options.config || {};
+  const firstSeenAt = new Date();
+
+  for (;;) {
+    const record = await store.claim(storeKey, config.lockTimeout ?? DEFAULT_LOCK_TIMEOUT);
+    if (!record) {
+      break;
+    }
+    if (record.status === 'completed') {
+      return { result: record.result, hit: true, firstSeenAt: record.createdAt };
+    }
+    // In progress in another process; its claim expires after lockTimeout
+    await sleep(config.pollInterval ?? DEFAULT_POLL_INTERVAL, options.signal);
+  }
+
+  let result: R;
+  try {
+    result = await execute();
+  } catch (error) {
+    await store.release(storeKey).catch(() => undefined);
+    throw error;
+  }
+
+  const recordable = options.recordable || ((value: R) => value.success);
+  const keep = !result.cancelled && (recordable(result) || config.cacheFailures === true);
+
+  // The work is done; a store failure must not turn its result into a failure
+  try {
+    if (keep) {
+      await store.complete(storeKey, result, config.ttl ?? DEFAULT_TTL);
+    } else {
+      await store.release(storeKey);
+    }
+  } catch (error) {
+    options.logger?.warn('Failed to record idempotency result', { key: storeKey, error });
+  }
+
+  return { result, hit: false, firstSeenAt };
+}
+
+function withIdempotency<R extends IdempotentResult>(result: R, idempotency: IdempotencyInfo): R {
+  if (idempotency.firstSeenAt === undefined) {
+    delete idempotency.firstSeenAt;
+  }
+  return { ...result, metadata: { ...result.metadata, idempotency } };
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IIdempotencyStore } from '../types';
+import { InMemoryIdempotencyStore } from './InMemoryIdempotencyStore';
+import { FileIdempotencyStore } from './FileIdempotencyStore';
+import { executeIdempotent } from './idempotent';
+
+const directories: string[] = [];
+
+async function tempDirectory(): Promise<string> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+  directories.push(directory);
+  return directory;
+}
+
+afterAll(async () => {
+  await Promise.all(directories.map(directory => fs.rm(directory, { recursive: true, force: true })));
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe.each([
+  ['InMemoryIdempotencyStore', async () => new InMemoryIdempotencyStore()],
+  ['FileIdempotencyStore', async () => new FileIdempotencyStore(await tempDirectory())]
+])('%s', (_name, createStore: () => Promise<IIdempotencyStore>) => {
+  let store: IIdempotencyStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+  });
+
+  it('lets one of several concurrent claims take a key', async () => {
+    const claims = await Promise.all(Array.from({ length: 5 }, () => store.claim('key', 60000)));
+
+    expect(claims.filter(record => record === null)).toHaveLength(1);
+    expect(claims.filter(record => record?.status === 'in-progress')).toHaveLength(4);
+  });
+
+  it('returns the recorded result to later claims', async () => {
+    await store.claim('key', 60000);
+    await store.complete('key', { success: true, data: { id: 7 }, at: new Date(0) }, 60000);
+
+    const record = await store.claim('key', 60000);
+
+    expect(record).toMatchObject({ key: 'key', status: 'completed', result: { data: { id: 7 } } });
+    expect(record?.result.at.getTime()).toBe(0);
+  });
+
+  it('frees released and deleted keys', async () => {
+    await store.claim('released', 60000);
+    await store.release('released');
+    await store.claim('deleted', 60000);
+    await store.delete('deleted');
+
+    expect(await store.claim('released', 60000)).toBeNull();
+    expect(await store.claim('deleted', 60000)).toBeNull();
+  });
+
+  it('treats expired records as absent', async () => {
+    await store.claim('key', 5);
+    await delay(20);
+
+    expect(await store.get('key')).toBeNull();
+    expect(await store.claim('key', 60000)).toBeNull();
+  });
+});
+
+describe('executeIdempotent', () => {
+  const options = () => ({ scope: 'test', config: { store: new InMemoryIdempotencyStore() } });
+
+  it('runs once for concurrent duplicates and reports the hits', async () => {
+    const config = options();
+    const execute = jest.fn(async (): Promise<{ success: boolean; value: number; metadata?: Record<string, any> }> => {
+      await delay(10);
+      return { success: true, value: 1 };
+    });
+
+    const [first, second] = await Promise.all([
+      executeIdempotent('key', config, execute),
+      executeIdempotent('key', config, execute)
+    ]);
+    const later = await executeIdempotent('key', config, execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(first.metadata?.idempotency).toMatchObject({ key: 'key', hit: false });
+    expect(second.metadata?.idempotency).toMatchObject({ hit: true });
+    expect(later).toMatchObject({ value: 1, metadata: { idempotency: { hit: true } } });
+  });
+
+  it('releases the key of failed and cancelled executions', async () => {
+    const config = options();
+
+    await executeIdempotent('failed', config, async () => ({ success: false }));
+    await executeIdempotent('cancelled', config, async () => ({ success: false, cancelled: true }));
+    await expect(executeIdempotent('thrown', config, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    for (const key of ['failed', 'cancelled', 'thrown']) {
+      expect(await config.config.store.get(`test:${key}`)).toBeNull();
+    }
+  });
+
+  it('keeps failed results with cacheFailures', async () => {
+    const store = new InMemoryIdempotencyStore();
+    const execute = jest.fn(async () => ({ success: false }));
+
+    await executeIdempotent('key', { scope: 'test', config: { store, cacheFailures: true } }, execute);
+    await executeIdempotent('key', { scope: 'test', config: { store, cacheFailures: true } }, execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
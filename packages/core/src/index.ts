@@ -8,6 +8,83 @@
 export { BaseAgent } from './BaseAgent';
 export { AgentWorkflow } from './AgentWorkflow';
 export type { WorkflowResult } from './AgentWorkflow';
+export { StepRegistry } from './StepRegistry';
+export { CircuitBreaker } from './CircuitBreaker';
+export type { RegisteredHandler } from './StepRegistry';
+
+// Agent registry and plugins
+export { AgentRegistry } from './AgentRegistry';
+export type { LoadPluginsOptions } from './AgentRegistry';
+export { discoverPlugins, loadPlugin, PLUGIN_KEYWORD } from './plugins';
+
+// Workflow definitions
+export { expression, isWorkflowExpression } from './expression';
+export type { WorkflowExpression } from './expression';
+export {
+  parseWorkflowDefinition,
+  validateWorkflowDefinition,
+  stringifyWorkflowDefinition
+} from './definition';
+
+// Schema validation
+export { parseWithSchema, toValidationIssues, toJsonSchema } from './schema';
+
+// Checkpoint stores
+export { InMemoryCheckpointStore } from './checkpoint/InMemoryCheckpointStore';
+export { FileCheckpointStore } from './checkpoint/FileCheckpointStore';
+
+// Idempotency stores
+export { InMemoryIdempotencyStore } from './idempotency/InMemoryIdempotencyStore';
+export { FileIdempotencyStore } from './idempotency/FileIdempotencyStore';
+
+// Tracing
+export {
+  Tracer,
+  Span,
+  setGlobalTracer,
+  getGlobalTracer,
+  getActiveTrace,
+  withActiveTrace,
+  formatTraceparent,
+  parseTraceparent,
+  injectTraceContext
+} from './tracing/Tracer';
+export type { TracerConfig, SpanOptions } from './tracing/Tracer';
+export { InMemorySpanExporter } from './tracing/InMemorySpanExporter';
+
+// Metrics
+export {
+  MetricsRegistry,
+  Counter,
+  Histogram,
+  DEFAULT_BUCKETS,
+  setGlobalMetrics,
+  getGlobalMetrics
+} from './metrics/MetricsRegistry';
+export type { MetricsRegistryConfig, MetricSnapshot } from './metrics/MetricsRegistry';
+
+// Logging
+export {
+  Logger,
+  DEFAULT_REDACTED_FIELDS,
+  REDACTED,
+  setGlobalLogger,
+  getGlobalLogger
+} from './logging/Logger';
+export type { LoggerConfig, LogRecord } from './logging/Logger';
+
+// Middleware
+export { useGlobalMiddleware, clearGlobalMiddleware } from './middleware';
+
+// Utilities
+export {
+  calculateRetryDelay,
+  isRetryableError,
+  getRetryAfter,
+  FATAL_ERROR_CODES,
+  RETRYABLE_ERROR_CODES
+} from './retry';
+export { abortReason, throwIfAborted, raceAbort, linkAbortSignal } from './abort';
 
 // Types
 export * from './types';
@@ -0,0 +1,172 @@
+import { Logger, LogRecord, REDACTED, logEvent } from './Logger';
+import { AgentError } from '../types';
+
+function createLogger(config: ConstructorParameters<typeof Logger>[0] = {}): { logger: Logger; records: LogRecord[] } {
+  const records: LogRecord[] = [];
+  const logger = new Logger({ ...config, write: record => records.push(record) });
+  return { logger, records };
+}
+
+describe('Logger', () => {
+  it('redacts the default fields at any depth', () => {
+    const { logger } = createLogger();
+
+    expect(logger.redact({
+      apiKey: 'k',
+      password: 'p',
+      authorization: 'Bearer t',
+      cookie: 'c',
+      sessionId: 's',
+      privateKey: 'pk',
+      nested: { clientSecret: 'cs', refreshToken: 'rt', items: [{ accessToken: 'at' }] },
+      email: 'jane@acme.com'
+    })).toEqual({
+      apiKey: REDACTED,
+      password: REDACTED,
+      authorization: REDACTED,
+      cookie: REDACTED,
+      sessionId: REDACTED,
+      privateKey: REDACTED,
+      nested: { clientSecret: REDACTED, refreshToken: REDACTED, items: [{ accessToken: REDACTED }] },
+      email: 'jane@acme.com'
+    });
+  });
+
+  it('matches field names regardless of case and punctuation', () => {
+    const { logger } = createLogger();
+
+    expect(logger.redact({ 'API-Key': 'k', access_token: 't', SESSION_ID: 's', 'x-cookie': 'c' })).toEqual({
+      'API-Key': REDACTED,
+      access_token: REDACTED,
+      SESSION_ID: REDACTED,
+      'x-cookie': 'c'
+    });
+  });
+
+  it('redacts any field ending in token, secret, password or apikey', () => {
+    const { logger } = createLogger();
+
+    expect(logger.redact({
+      hubspotToken: 't',
+      webhook_secret: 's',
+      dbPassword: 'p',
+      'salesforce-api-key': 'k',
+      tokenCount: 3,
+      secretary: 'Jane'
+    })).toEqual({
+      hubspotToken: REDACTED,
+      webhook_secret: REDACTED,
+      dbPassword: REDACTED,
+      'salesforce-api-key': REDACTED,
+      tokenCount: 3,
+      secretary: 'Jane'
+    });
+  });
+
+  it('redacts configured fields and keeps empty values', () => {
+    const { logger } = createLogger({ redact: ['phone'] });
+
+    expect(logger.redact({ phone: '555', token: null, password: undefined })).toEqual({
+      phone: REDACTED,
+      token: null,
+      password: undefined
+    });
+  });
+
+  it('replaces circular references and truncates deep values', () => {
+    const { logger } = createLogger();
+    const lead: any = { email: 'jane@acme.com', tags: ['a'] };
+    lead.self = lead;
+    const shared = { id: 1 };
+    let deep: any = { leaf: true };
+    for (let i = 0; i < 12; i++) {
+      deep = { deep };
+    }
+
+    const redacted = logger.redact({ lead, first: shared, second: shared, deep });
+
+    expect(redacted.lead).toEqual({ email: 'jane@acme.com', tags: ['a'], self: '[Circular]' });
+    expect(redacted.second).toEqual({ id: 1 });
+    expect(JSON.stringify(redacted.deep)).toContain('"[Truncated]"');
+    expect(JSON.stringify(redacted.deep)).not.toContain('leaf');
+  });
+
+  it('serializes errors, dates and bigints', () => {
+    const { logger } = createLogger();
+    const error = new AgentError('Sync failed', 'SYNC_FAILED', { apiKey: 'k', leadId: '1' });
+
+    const redacted = logger.redact({ error, at: new Date(0), count: BigInt(10) });
+
+    expect(redacted.error).toEqual({
+      name: 'AgentError',
+      message: 'Sync failed',
+      code: 'SYNC_FAILED',
+      details: { apiKey: REDACTED, leadId: '1' },
+      stack: error.stack
+    });
+    expect(redacted.at).toBe('1970-01-01T00:00:00.000Z');
+    expect(redacted.count).toBe('10');
+  });
+
+  it('writes records at or above the configured level', () => {
+    const { logger, records } = createLogger({ level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(records.map(record => record.level)).toEqual(['warn', 'error']);
+    expect(logger.isLevelEnabled('info')).toBe(false);
+    expect(logger.isLevelEnabled('silent')).toBe(false);
+  });
+
+  it('merges fields of child loggers without replacing record keys', () => {
+    const { logger, records } = createLogger({ fields: { service: 'sales-bot', region: 'eu' } });
+    const child = logger.child({ runId: 'run-1', region: 'us' }).child({ step: 'score' });
+
+    child.info('Step started', { step: 'enrich', msg: 'overridden', token: 't' });
+
+    expect(records).toEqual([{
+      level: 'info',
+      time: expect.any(String),
+      msg: 'Step started',
+      service: 'sales-bot',
+      region: 'us',
+      runId: 'run-1',
+      step: 'enrich',
+      token: REDACTED
+    }]);
+  });
+
+  it('never throws when writing fails', () => {
+    const logger = new Logger({ write: () => { throw new Error('disk full'); } });
+
+    expect(() => logger.error('Failed')).not.toThrow();
+  });
+});
+
+describe('logEvent', () => {
+  it('logs scalar event data at the level of the event type', () => {
+    const { logger, records } = createLogger({ level: 'debug' });
+    const error = new AgentError('Timed out', 'TIMEOUT');
+
+    logEvent(logger, {
+      type: 'step:error',
+      timestamp: new Date(),
+      data: { step: 'score', attempt: 2, data: { lead: 'payload' }, result: { score: 1 } },
+      error
+    });
+
+    expect(records).toEqual([expect.objectContaining({
+      level: 'warn',
+      msg: 'step:error',
+      event: 'step:error',
+      step: 'score',
+      attempt: 2,
+      error: expect.objectContaining({ code: 'TIMEOUT', message: 'Timed out' })
+    })]);
+    expect(records[0]).not.toHaveProperty('data');
+    expect(records[0]).not.toHaveProperty('result');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Logger
+ * Structured JSON logging with child loggers and redaction of secrets
+ */
+
+import { AgentEvent, AgentEventType, ILogger, LogFields, LogLevel } from '../types';
+
+/**
+ * Log record as written
+ */
+export interface LogRecord {
+  level: Exclude<LogLevel, 'silent'>;
+  /** ISO timestamp */
+  time: string;
+  msg: string;
+  [field: string]: any;
+}
+
+/**
+ * Logger configuration
+ */
+export interface LoggerConfig {
+  /** Least severe level written (default: 'info') */
+  level?: LogLevel;
+  /** Fields added to every record, e.g. { service: 'lead-pipeline' } */
+  fields?: LogFields;
+  /** Field names redacted in addition to DEFAULT_REDACTED_FIELDS */
+  redact?: string[];
+  /** Receives every record (default: a JSON line on stdout, or stderr for warn and error) */
+  write?: (record: LogRecord) => void;
+}
+
+/**
+ * Field names whose values are never logged
+ * Matching ignores case and punctuation, so 'api_key' matches 'apiKey'. Any name
+ * ending in token, secret, password or apikey is redacted as well.
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'apiKey',
+  'password',
+  'secret',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'clientSecret',
+  'authorization',
+  'cookie',
+  'privateKey',
+  'sessionId'
+];
+
+/** Replaces redacted values */
+export const REDACTED = '[REDACTED]';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+const SECRET_SUFFIX = /(token|secret|password|apikey)$/;
+
+const MAX_DEPTH = 10;
+
+/**
+ * Structured logger writing JSON records
+ * Field values are redacted recursively before they are written.
+ */
+export class Logger implements ILogger {
+  private config: LoggerConfig;
+  private redactedFields: Set<string>;
+
+  constructor(config: LoggerConfig = {}) {
+    this.config = { level: 'info', ...config };
+    this.redactedFields = new Set(
+      [...DEFAULT_REDACTED_FIELDS, ...(config.redact || [])].map(normalizeField)
+    );
+  }
+
+  /**
+   * Log a debug record
+   */
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  /**
+   * Log an info record
+   */
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  /**
+   * Log a warning
+   */
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  /**
+   * Log an error
+   */
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Logger adding fields to every record
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.config, fields: { ...this.config.fields, ...fields } });
+  }
+
+  /**
+   * Whether records of a level are written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return level !== 'silent' && LEVELS[level] >= LEVELS[this.config.level!];
+  }
+
+  /**
+   * Redact secrets in a value, recursively
+   */
+  redact(value: any): any {
+    return this.redactValue(value, 0, new WeakSet());
+  }
+
+  private log(level: LogRecord['level'], message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const time = new Date().toISOString();
+    const record: LogRecord = {
+      level,
+      time,
+      msg: message,
+      ...this.redact({ ...this.config.fields, ...fields })
+    };
+    // Fields never replace the record's own keys
+    Object.assign(record, { level, time, msg: message });
+
+    try {
+      (this.config.write || writeJson)(record);
+    } catch {
+      // Logging never breaks the logged work
+    }
+  }
+
+  private redactValue(value: any, depth: number, seen: WeakSet<object>): any {
+    if (value instanceof Error) {
+      return this.redactValue(serializeError(value), depth, seen);
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (value === null || typeof value !== 'object') {
+      return typeof value === 'bigint' ? value.toString() : value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+      return '[Truncated]';
+    }
+
+    seen.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return value.map(item => this.redactValue(item, depth + 1, seen));
+      }
+      const redacted: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        redacted[key] = this.isRedacted(key) && item !== undefined && item !== null
+          ? REDACTED
+          : this.redactValue(item, depth + 1, seen);
+      }
+      return redacted;
+    } finally {
+      seen.delete(value);
+    }
+  }
+
+  private isRedacted(field: string): boolean {
+    const normalized = normalizeField(field);
+    return this.redactedFields.has(normalized) || SECRET_SUFFIX.test(normalized);
+  }
+}
+
+/** Writes nothing; used while no global logger is set */
+const silentLogger = new Logger({ level: 'silent' });
+
+/** Logger used when no other is configured; none until one is set */
+let globalLogger: ILogger | undefined;
+
+/**
+ * Set the logger used by agents, workflows and providers without their own
+ * Pass undefined to turn logging off.
+ */
+export function setGlobalLogger(logger: ILogger | undefined): void {
+  globalLogger = logger;
+}
+
+/**
+ * Get the global logger, or a silent one if none is set
+ */
+export function getGlobalLogger(): ILogger {
+  return globalLogger ?? silentLogger;
+}
+
+/**
+ * Log an agent or workflow event at a level matching its type
+ * The logger carries the run or execution ID. Only scalar data fields are logged;
+ * results and payloads stay out of the log.
+ */
+export function logEvent(logger: ILogger, event: AgentEvent): void {
+  const fields: LogFields = { event: event.type };
+  for (const [key, value] of Object.entries(event.data || {})) {
+    if (key === 'data') {
+      continue;
+    }
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      fields[key] = value;
+    }
+  }
+  if (event.error) {
+    fields.error = event.error;
+  }
+
+  logger[eventLevel(event.type)](event.type, fields);
+}
+
+function eventLevel(type: AgentEventType): Exclude<LogLevel, 'silent'> {
+  switch (type) {
+    case 'agent:error':
+    case 'workflow:error':
+    case 'compensation:error':
+      return 'error';
+    case 'step:error':
+    case 'step:retry':
+    case 'group:error':
+    case 'circuit:open':
+    case 'quota:low':
+    case 'approval:escalated':
+      return 'warn';
+    case 'agent:cancelled':
+    case 'workflow:start':
+    case 'workflow:resume':
+    case 'workflow:complete':
+    case 'workflow:cancelled':
+    case 'workflow:suspended':
+    case 'approval:requested':
+    case 'approval:approved':
+    case 'approval:rejected':
+    case 'circuit:half-open':
+    case 'circuit:closed':
+    case 'rollback:start':
+    case 'rollback:complete':
+      return 'info';
+    default:
+      return 'debug';
+  }
+}
+
+function serializeError(error: Error): Record<string, any> {
+  const serialized: Record<string, any> = { name: error.name, message: error.message };
+  const { code, details } = error as any;
+  if (code !== undefined) {
+    serialized.code = code;
+  }
+  if (details !== undefined) {
+    serialized.details = details;
+  }
+  serialized.stack = error.stack;
+  return serialized;
+}
+
+function normalizeField(field: string): string {
+  return field.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function writeJson(record: LogRecord): void {
+  const stream = record.level === 'warn' || record.level === 'error' ? process.stderr : process.stdout;
+  stream.write(JSON.stringify(record) + '\n');
+}
@@ -0,0 +1,102 @@
+import { MetricsRegistry } from './MetricsRegistry';
+import { AgentError } from '../types';
+
+describe('MetricsRegistry', () => {
+  it('renders counters with HELP and TYPE lines', () => {
+    const metrics = new MetricsRegistry();
+    const runs = metrics.counter('runs_total', 'Workflow runs', ['workflow', 'status']);
+
+    runs.inc({ workflow: 'intake', status: 'success' });
+    runs.inc({ workflow: 'intake', status: 'success' }, 2);
+    runs.inc({ workflow: 'intake', status: 'error' });
+
+    expect(metrics.metrics()).toBe([
+      '# HELP runs_total Workflow runs',
+      '# TYPE runs_total counter',
+      'runs_total{workflow="intake",status="success"} 3',
+      'runs_total{workflow="intake",status="error"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes label values and help text', () => {
+    const metrics = new MetricsRegistry();
+    metrics.counter('errors_total', 'Errors by message\nwith a \\ in it', ['message'])
+      .inc({ message: 'path C:\\tmp "quoted"\nnext line' });
+
+    expect(metrics.metrics().split('\n')).toEqual([
+      '# HELP errors_total Errors by message\\nwith a \\\\ in it',
+      '# TYPE errors_total counter',
+      'errors_total{message="path C:\\\\tmp \\"quoted\\"\\nnext line"} 1',
+      ''
+    ]);
+  });
+
+  it('renders histograms with cumulative buckets, _sum and _count', () => {
+    const metrics = new MetricsRegistry();
+    const duration = metrics.histogram('duration_seconds', 'Step duration', ['step'], [1, 0.1, 0.5]);
+
+    duration.observe({ step: 'score' }, 0.05);
+    duration.observe({ step: 'score' }, 0.3);
+    duration.observe({ step: 'score' }, 0.4);
+    duration.observe({ step: 'score' }, 2);
+
+    expect(metrics.metrics().split('\n')).toEqual([
+      '# HELP duration_seconds Step duration',
+      '# TYPE duration_seconds histogram',
+      'duration_seconds_bucket{step="score",le="0.1"} 1',
+      'duration_seconds_bucket{step="score",le="0.5"} 3',
+      'duration_seconds_bucket{step="score",le="1"} 3',
+      'duration_seconds_bucket{step="score",le="+Inf"} 4',
+      'duration_seconds_sum{step="score"} 2.75',
+      'duration_seconds_count{step="score"} 4',
+      ''
+    ]);
+  });
+
+  it('applies the prefix and default labels', () => {
+    const metrics = new MetricsRegistry({
+      prefix: 'cognio_',
+      defaultLabels: { service: 'sales-bot' },
+      defaultBuckets: [1]
+    });
+    metrics.counter('runs_total', 'Runs').inc();
+    metrics.histogram('duration_seconds', 'Duration').observe({}, 0.5);
+
+    expect(metrics.metrics().split('\n')).toEqual([
+      '# HELP cognio_runs_total Runs',
+      '# TYPE cognio_runs_total counter',
+      'cognio_runs_total{service="sales-bot"} 1',
+      '# HELP cognio_duration_seconds Duration',
+      '# TYPE cognio_duration_seconds histogram',
+      'cognio_duration_seconds_bucket{service="sales-bot",le="1"} 1',
+      'cognio_duration_seconds_bucket{service="sales-bot",le="+Inf"} 1',
+      'cognio_duration_seconds_sum{service="sales-bot"} 0.5',
+      'cognio_duration_seconds_count{service="sales-bot"} 1',
+      ''
+    ]);
+    expect(metrics.getMetric('runs_total')?.name).toBe('cognio_runs_total');
+  });
+
+  it('renders nothing without metrics and keeps metrics registered on reset', () => {
+    const metrics = new MetricsRegistry();
+    expect(metrics.metrics()).toBe('');
+
+    metrics.counter('runs_total', 'Runs').inc();
+    metrics.reset();
+
+    expect(metrics.metrics()).toBe('# HELP runs_total Runs\n# TYPE runs_total counter\n');
+  });
+
+  it('rejects invalid names, type clashes and decreasing counters', () => {
+    const metrics = new MetricsRegistry();
+    const runs = metrics.counter('runs_total', 'Runs');
+
+    expect(metrics.counter('runs_total', 'Runs')).toBe(runs);
+    expect(() => metrics.histogram('runs_total', 'Runs')).toThrow(AgentError);
+    expect(() => metrics.counter('runs-total', 'Runs')).toThrow(
+      expect.objectContaining({ code: 'INVALID_METRIC' })
+    );
+    expect(() => runs.inc({}, -1)).toThrow(expect.objectContaining({ code: 'INVALID_METRIC' }));
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Metrics Registry
+ * Counters and histograms rendered in the Prometheus text exposition format
+ */
+
+import {
+  AgentError,
+  ICounter,
+  IHistogram,
+  IMetricsRegistry,
+  MetricLabels
+} from '../types';
+
+/**
+ * Metrics registry configuration
+ */
+export interface MetricsRegistryConfig {
+  /** Prepended to every metric name, e.g. 'cognio_' */
+  prefix?: string;
+  /** Histogram buckets used when a histogram is registered without its own */
+  defaultBuckets?: number[];
+  /** Labels added to every series, e.g. { service: 'sales-bot' } */
+  defaultLabels?: MetricLabels;
+}
+
+/**
+ * Recorded values of one metric
+ */
+export interface MetricSnapshot {
+  name: string;
+  type: 'counter' | 'histogram';
+  help: string;
+  series: Array<{
+    labels: MetricLabels;
+    /** Counter value, or number of observations of a histogram */
+    value: number;
+    /** Sum of observed values (histograms only) */
+    sum?: number;
+    /** Cumulative observation count per upper bound (histograms only) */
+    buckets?: Record<string, number>;
+  }>;
+}
+
+/** Latency buckets in seconds, from 5ms to a minute */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Counter metric
+ */
+export class Counter implements ICounter {
+  private values: Map<string, { labels: MetricLabels; value: number }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {}
+
+  /**
+   * Add value (default: 1) to the series with the given labels
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new AgentError(`Counter "${this.name}" cannot be decreased`, 'INVALID_METRIC', { value });
+    }
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.values.get(key);
+    if (series) {
+      series.value += value;
+    } else {
+      this.values.set(key, { labels: pickLabels(this.labelNames, labels), value });
+    }
+  }
+
+  /**
+   * Current value of the series with the given labels
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(seriesKey(this.labelNames, labels))?.value || 0;
+  }
+
+  /**
+   * Recorded values
+   */
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      type: 'counter',
+      help: this.help,
+      series: [...this.values.values()].map(series => ({ ...series, labels: { ...series.labels } }))
+    };
+  }
+
+  /**
+   * Forget all series
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Histogram metric with fixed bucket upper bounds
+ */
+export class Histogram implements IHistogram {
+  readonly buckets: number[];
+  private values: Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[],
+    buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record a value in the series with the given labels
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.values.get(key);
+    if (!series) {
+      series = {
+        labels: pickLabels(this.labelNames, labels),
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0
+      };
+      this.values.set(key, series);
+    }
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index !== -1) {
+      series.counts[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Recorded values, with cumulative bucket counts
+   */
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      type: 'histogram',
+      help: this.help,
+      series: [...this.values.values()].map(series => {
+        const buckets: Record<string, number> = {};
+        let cumulative = 0;
+        this.buckets.forEach((bound, i) => {
+          cumulative += series.counts[i];
+          buckets[formatNumber(bound)] = cumulative;
+        });
+        buckets['+Inf'] = series.count;
+        return { labels: { ...series.labels }, value: series.count, sum: series.sum, buckets };
+      })
+    };
+  }
+
+  /**
+   * Forget all series
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * In-process metrics registry
+ *
+ * Implements IMetricsRegistry, so it can be swapped for an adapter to another
+ * metrics library. metrics() renders everything in the Prometheus text format
+ * for a /metrics endpoint.
+ */
+export class MetricsRegistry implements IMetricsRegistry {
+  /** Content type of the metrics() output */
+  static readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private config: MetricsRegistryConfig;
+  private registered: Map<string, Counter | Histogram> = new Map();
+
+  constructor(config: MetricsRegistryConfig = {}) {
+    this.config = {
+      prefix: '',
+      defaultBuckets: DEFAULT_BUCKETS,
+      defaultLabels: {},
+      ...config
+    };
+  }
+
+  /**
+   * Register or get a counter
+   */
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, 'counter', () =>
+      new Counter(this.config.prefix + name, help, labelNames)
+    ) as Counter;
+  }
+
+  /**
+   * Register or get a histogram
+   */
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, 'histogram', () =>
+      new Histogram(this.config.prefix + name, help, labelNames, buckets || this.config.defaultBuckets)
+    ) as Histogram;
+  }
+
+  /**
+   * Recorded values of a metric, by its name without the prefix
+   */
+  getMetric(name: string): MetricSnapshot | undefined {
+    return this.registered.get(name)?.snapshot();
+  }
+
+  /**
+   * Recorded values of every metric
+   */
+  getMetrics(): MetricSnapshot[] {
+    return [...this.registered.values()].map(metric => metric.snapshot());
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  metrics(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.getMetrics()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+      for (const series of metric.series) {
+        const labels = { ...this.config.defaultLabels, ...series.labels };
+        if (metric.type === 'counter') {
+          lines.push(`${metric.name}${formatLabels(labels)} ${formatNumber(series.value)}`);
+          continue;
+        }
+        // Integer-like bounds such as "1" come first among object keys, so sort by bound
+        const buckets = Object.entries(series.buckets!).sort(([a], [b]) => parseBound(a) - parseBound(b));
+        for (const [le, count] of buckets) {
+          lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le })} ${count}`);
+        }
+        lines.push(`${metric.name}_sum${formatLabels(labels)} ${formatNumber(series.sum!)}`);
+        lines.push(`${metric.name}_count${formatLabels(labels)} ${series.value}`);
+      }
+    }
+
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+  }
+
+  /**
+   * Clear recorded values, keeping the registered metrics
+   */
+  reset(): void {
+    for (const metric of this.registered.values()) {
+      metric.reset();
+    }
+  }
+
+  private register(
+    name: string,
+    type: MetricSnapshot['type'],
+    create: () => Counter | Histogram
+  ): Counter | Histogram {
+    const existing = this.registered.get(name);
+    if (existing) {
+      const existingType = existing instanceof Counter ? 'counter' : 'histogram';
+      if (existingType !== type) {
+        throw new AgentError(
+          `Metric "${name}" is already registered as a ${existingType}`,
+          'INVALID_METRIC',
+          { name, type }
+        );
+      }
+      return existing;
+    }
+
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(this.config.prefix + name)) {
+      throw new AgentError(`Invalid metric name "${name}"`, 'INVALID_METRIC', { name });
+    }
+
+    const metric = create();
+    this.registered.set(name, metric);
+    return metric;
+  }
+}
+
+/** Registry used when no other is configured; recording is on by default */
+let globalMetrics: IMetricsRegistry | undefined = new MetricsRegistry();
+
+/**
+ * Set the registry used by agents, workflows and providers without their own
+ * Pass undefined to turn metrics off.
+ */
+export function setGlobalMetrics(registry: IMetricsRegistry | undefined): void {
+  globalMetrics = registry;
+}
+
+/**
+ * Get the global registry, if one is set
+ */
+export function getGlobalMetrics(): IMetricsRegistry | undefined {
+  return globalMetrics;
+}
+
+function seriesKey(labelNames: string[], labels: MetricLabels): string {
+  return labelNames.map(name => labels[name] ?? '').join('\u0000');
+}
+
+function pickLabels(labelNames: string[], labels: MetricLabels): MetricLabels {
+  const picked: MetricLabels = {};
+  for (const name of labelNames) {
+    picked[name] = labels[name] ?? '';
+  }
+  return picked;
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+}
+
+function parseBound(le: string): number {
+  return le === '+Inf' ? Infinity : Number(le);
+}
@@ -0,0 +1,89 @@
+/**
+ * Built-in metrics of agents and workflows
+ * Metrics are registered on first use, so any IMetricsRegistry can record them.
+ */
+
+import { IMetricsRegistry } from '../types';
+
+/**
+ * Record a finished agent execution
+ */
+export function recordAgentExecution(
+  registry: IMetricsRegistry | undefined,
+  agent: string,
+  status: 'success' | 'error' | 'cancelled',
+  durationMs: number,
+  retries: number
+): void {
+  if (!registry) {
+    return;
+  }
+  registry
+    .counter('agent_executions_total', 'Agent executions by outcome', ['agent', 'status'])
+    .inc({ agent, status });
+  registry
+    .histogram('agent_execution_duration_seconds', 'Agent execution duration in seconds, including retries', ['agent', 'status'])
+    .observe({ agent, status }, durationMs / 1000);
+  if (retries > 0) {
+    registry
+      .counter('agent_retries_total', 'Agent execution attempts retried after a failure', ['agent'])
+      .inc({ agent }, retries);
+  }
+}
+
+/**
+ * Record a finished workflow run
+ */
+export function recordWorkflowRun(
+  registry: IMetricsRegistry | undefined,
+  workflow: string,
+  status: string,
+  durationMs: number
+): void {
+  if (!registry) {
+    return;
+  }
+  registry
+    .counter('workflow_runs_total', 'Workflow runs by final status', ['workflow', 'status'])
+    .inc({ workflow, status });
+  registry
+    .histogram('workflow_run_duration_seconds', 'Workflow run duration in seconds', ['workflow', 'status'])
+    .observe({ workflow, status }, durationMs / 1000);
+}
+
+/**
+ * Record the outcome of a workflow step
+ * Skipped steps are counted without a duration.
+ */
+export function recordWorkflowStep(
+  registry: IMetricsRegistry | undefined,
+  workflow: string,
+  step: string,
+  status: 'success' | 'error' | 'skipped',
+  durationMs?: number
+): void {
+  if (!registry) {
+    return;
+  }
+  registry
+    .counter('workflow_steps_total', 'Workflow step outcomes', ['workflow', 'step', 'status'])
+    .inc({ workflow, step, status });
+  if (durationMs !== undefined) {
+    registry
+      .histogram('workflow_step_duration_seconds', 'Workflow step duration in seconds, including retries', ['workflow', 'step', 'status'])
+      .observe({ workflow, step, status }, durationMs / 1000);
+  }
+}
+
+/**
+ * Record a retried workflow step attempt
+ */
+export function recordWorkflowStepRetry(
+  registry: IMetricsRegistry | undefined,
+  workflow: string,
+  step: string
+): void {
+  registry
+    ?.counter('workflow_step_retries_total', 'Workflow step attempts retried after a failure', ['workflow', 'step'])
+    .inc({ workflow, step });
+}
@@ -0,0 +1,106 @@
+import { runMiddleware, useGlobalMiddleware, clearGlobalMiddleware } from './middleware';
+import { AgentWorkflow } from './AgentWorkflow';
+import { AgentContext, AgentMiddleware, MiddlewareInfo } from './types';
+
+const info: MiddlewareInfo = { type: 'agent', name: 'scorer' };
+
+function context(data: any = {}): AgentContext {
+  return { id: 'run-1', data, metadata: {}, timestamp: new Date(0), history: [] };
+}
+
+/** Middleware recording when it is entered and left */
+const tracing = (name: string, calls: string[]): AgentMiddleware => async (_current, next) => {
+  calls.push(`${name}:before`);
+  const result = await next();
+  calls.push(`${name}:after`);
+  return result;
+};
+
+describe('runMiddleware', () => {
+  afterEach(() => {
+    clearGlobalMiddleware();
+  });
+
+  it('runs middleware as an onion around the handler, global middleware outermost', async () => {
+    const calls: string[] = [];
+    useGlobalMiddleware(tracing('global', calls));
+
+    const result = await runMiddleware([tracing('outer', calls), tracing('inner', calls)], context(), info, async () => {
+      calls.push('handler');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(calls).toEqual([
+      'global:before', 'outer:before', 'inner:before',
+      'handler',
+      'inner:after', 'outer:after', 'global:after'
+    ]);
+  });
+
+  it('passes replaced contexts and transformed results along the chain', async () => {
+    const enrich: AgentMiddleware = (current, next) => next({ ...current, data: { ...current.data, tier: 'gold' } });
+    const wrap: AgentMiddleware = async (_current, next) => ({ wrapped: await next() });
+
+    const result = await runMiddleware([wrap, enrich], context({ id: 1 }), info, async current => current.data);
+
+    expect(result).toEqual({ wrapped: { id: 1, tier: 'gold' } });
+  });
+
+  it('short-circuits the rest of the chain when next() is not called', async () => {
+    const handler = jest.fn();
+    const inner = jest.fn();
+    const cached: AgentMiddleware = async () => 'cached';
+
+    const result = await runMiddleware([cached, inner], context(), info, handler);
+
+    expect(result).toBe('cached');
+    expect(inner).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('refuses a second call of next()', async () => {
+    const handler = jest.fn(async () => 'done');
+    const twice: AgentMiddleware = async (_current, next) => {
+      await next();
+      return next();
+    };
+
+    await expect(runMiddleware([twice], context(), info, handler)).rejects.toMatchObject({
+      code: 'MIDDLEWARE_ERROR',
+      details: { type: 'agent', name: 'scorer', index: 0 }
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes errors of the handler through the middleware', async () => {
+    const seen: string[] = [];
+    const observe: AgentMiddleware = async (_current, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        seen.push((error as Error).message);
+        throw error;
+      }
+    };
+
+    await expect(runMiddleware([observe], context(), info, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    expect(seen).toEqual(['boom']);
+  });
+
+  it('runs around workflow steps with the step described in info', async () => {
+    const seen: MiddlewareInfo[] = [];
+    const workflow = new AgentWorkflow({ name: 'intake' })
+      .use(async (_current, next, stepInfo) => {
+        seen.push(stepInfo);
+        return next();
+      })
+      .step('a', async current => current.data);
+
+    await workflow.execute({});
+
+    expect(seen).toEqual([expect.objectContaining({ type: 'step', name: 'a', workflow: 'intake' })]);
+  });
+});
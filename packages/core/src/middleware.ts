@@ -0,0 +1,62 @@
+/**
+ * Middleware
+ * Interceptors around agent executions and workflow steps
+ */
+
+import { AgentContext, AgentError, AgentMiddleware, MiddlewareInfo } from './types';
+
+/** Middleware applied to every agent execution and workflow step */
+const globalMiddleware: AgentMiddleware[] = [];
+
+/**
+ * Register middleware for every agent and workflow step
+ * Global middleware runs before the middleware of the agent or workflow.
+ */
+export function useGlobalMiddleware(middleware: AgentMiddleware): void {
+  globalMiddleware.push(middleware);
+}
+
+/**
+ * Remove global middleware, or all of it
+ */
+export function clearGlobalMiddleware(middleware?: AgentMiddleware): void {
+  if (!middleware) {
+    globalMiddleware.length = 0;
+    return;
+  }
+  const index = globalMiddleware.indexOf(middleware);
+  if (index !== -1) {
+    globalMiddleware.splice(index, 1);
+  }
+}
+
+/**
+ * Run a handler through global middleware and then the given middleware, in order
+ * Each middleware may replace the context passed to next() and transform or replace
+ * its result; one that does not call next() short-circuits the rest of the chain.
+ */
+export function runMiddleware<T>(
+  middleware: AgentMiddleware[],
+  context: AgentContext,
+  info: MiddlewareInfo,
+  handler: (context: AgentContext) => Promise<T>
+): Promise<T> {
+  const chain = [...globalMiddleware, ...middleware];
+
+  const dispatch = async (index: number, current: AgentContext): Promise<T> => {
+    if (index === chain.length) {
+      return handler(current);
+    }
+
+    let called = false;
+    return chain[index](current, async (next = current) => {
+      if (called) {
+        throw new AgentError('next() called more than once', 'MIDDLEWARE_ERROR', { ...info, index });
+      }
+      called = true;
+      return dispatch(index + 1, next);
+    }, info);
+  };
+
+  return dispatch(0, context);
+}
@@ -0,0 +1,120 @@
+/**
+ * Plugins
+ * Discovery and loading of plugin packages for an AgentRegistry
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentError, AgentPlugin } from './types';
+
+/** package.json keyword marking a plugin package */
+export const PLUGIN_KEYWORD = 'cognio-plugin';
+
+/**
+ * Plugin fields of a package.json
+ * "cognio": { "plugin": "./dist/plugin.js" } names the module exporting the plugin;
+ * without it the package's main module is loaded.
+ */
+interface PluginPackageJson {
+  name: string;
+  version?: string;
+  keywords?: string[];
+  cognio?: { plugin?: string };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+/**
+ * Names of the installed plugin packages a project depends on
+ * A plugin package has the 'cognio-plugin' keyword or a "cognio.plugin" field.
+ */
+export function discoverPlugins(cwd: string = process.cwd()): string[] {
+  const project = readPackageJson(path.join(cwd, 'package.json'));
+  if (!project) {
+    return [];
+  }
+
+  const names = new Set([
+    ...Object.keys(project.dependencies || {}),
+    ...Object.keys(project.optionalDependencies || {}),
+    ...Object.keys(project.devDependencies || {})
+  ]);
+
+  return [...names].filter(name => {
+    const directory = findPackage(name, cwd);
+    const packageJson = directory && readPackageJson(path.join(directory, 'package.json'));
+    return packageJson ? isPlugin(packageJson) : false;
+  });
+}
+
+/**
+ * Load the plugin of an installed package
+ * The module's `plugin` export is used, or its default export. A plugin without a
+ * version gets the package's version.
+ */
+export function loadPlugin(packageName: string, cwd: string = process.cwd()): AgentPlugin {
+  const directory = findPackage(packageName, cwd);
+  const packageJson = directory && readPackageJson(path.join(directory, 'package.json'));
+  if (!directory || !packageJson) {
+    throw new AgentError(`Plugin package not found: ${packageName}`, 'PLUGIN_NOT_FOUND', {
+      package: packageName,
+      cwd
+    });
+  }
+
+  let exports: any;
+  try {
+    const entry = packageJson.cognio?.plugin
+      ? path.resolve(directory, packageJson.cognio.plugin)
+      : require.resolve(packageName, { paths: [cwd] });
+    exports = require(entry);
+  } catch (error) {
+    throw new AgentError(`Failed to load plugin package: ${packageName}`, 'PLUGIN_LOAD_FAILED', {
+      package: packageName,
+      originalError: error
+    });
+  }
+
+  const plugin: AgentPlugin | undefined = exports?.plugin ?? exports?.default ?? exports;
+  if (!plugin || typeof plugin.name !== 'string' || typeof plugin.register !== 'function') {
+    throw new AgentError(
+      `Package ${packageName} does not export a plugin with a name and a register function`,
+      'INVALID_PLUGIN',
+      { package: packageName }
+    );
+  }
+
+  return plugin.version || !packageJson.version ? plugin : { ...plugin, version: packageJson.version };
+}
+
+function isPlugin(packageJson: PluginPackageJson): boolean {
+  return Boolean(packageJson.cognio?.plugin) || (packageJson.keywords || []).includes(PLUGIN_KEYWORD);
+}
+
+/**
+ * Directory of an installed package, searching node_modules from cwd upwards
+ * Package exports may hide package.json from require.resolve, so it is looked up directly.
+ */
+function findPackage(name: string, cwd: string): string | undefined {
+  let directory = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(directory, 'node_modules', name);
+    if (fs.existsSync(path.join(candidate, 'package.json'))) {
+      return candidate;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+function readPackageJson(file: string): PluginPackageJson | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
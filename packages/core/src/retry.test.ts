@@ -0,0 +1,123 @@
+import { AgentError } from './types';
+import { calculateRetryDelay, getRetryAfter, isRetryableError } from './retry';
+
+/** Error with extra properties, like those of HTTP clients */
+function httpError(properties: Record<string, any>): Error {
+  return Object.assign(new Error('request failed'), properties);
+}
+
+describe('isRetryableError', () => {
+  it('retries transient codes and stops on fatal ones', () => {
+    expect(isRetryableError(new AgentError('slow down', 'RATE_LIMITED'), 1)).toBe(true);
+    expect(isRetryableError(httpError({ code: 'ECONNRESET' }), 1)).toBe(true);
+    expect(isRetryableError(new AgentError('bad input', 'INVALID_INPUT'), 1)).toBe(false);
+    expect(isRetryableError(new AgentError('open', 'CIRCUIT_OPEN'), 1)).toBe(false);
+    expect(isRetryableError(httpError({ errorCode: 'NOT_FOUND' }), 1)).toBe(false);
+  });
+
+  it('classifies wrapped errors through details, originalError and cause', () => {
+    const fatal = new AgentError('missing', 'NOT_FOUND');
+    const transient = httpError({ code: 'ETIMEDOUT' });
+
+    expect(isRetryableError(new AgentError('failed', 'READ_FAILED', fatal), 1)).toBe(false);
+    expect(isRetryableError(new AgentError('failed', 'READ_FAILED', { originalError: fatal }), 1)).toBe(false);
+    expect(isRetryableError(new Error('failed', { cause: fatal }), 1)).toBe(false);
+    expect(isRetryableError(new AgentError('failed', 'READ_FAILED', { originalError: transient }), 1)).toBe(true);
+  });
+
+  it('lets the outermost classified error decide', () => {
+    const error = new AgentError('bad lead', 'VALIDATION_ERROR', httpError({ status: 503 }));
+
+    expect(isRetryableError(error, 1)).toBe(false);
+  });
+
+  it('retries 5xx, 408, 425 and 429 statuses but no other 4xx', () => {
+    for (const status of [500, 502, 503, 408, 425, 429]) {
+      expect(isRetryableError(httpError({ status }), 1)).toBe(true);
+    }
+    for (const status of [400, 401, 404, 409, 422]) {
+      expect(isRetryableError(httpError({ status }), 1)).toBe(false);
+    }
+    expect(isRetryableError(httpError({ response: { status: 404 } }), 1)).toBe(false);
+    expect(isRetryableError(httpError({ statusCode: 503 }), 1)).toBe(true);
+  });
+
+  it('retries unclassified errors', () => {
+    expect(isRetryableError(new Error('boom'), 1)).toBe(true);
+    expect(isRetryableError(httpError({ status: 200 }), 1)).toBe(true);
+  });
+
+  it('lets the retry config decide first and add fatal codes', () => {
+    const transient = new AgentError('slow down', 'RATE_LIMITED');
+    const config = { maxAttempts: 3, delay: 1 };
+
+    expect(isRetryableError(transient, 1, { ...config, retryable: () => false })).toBe(false);
+    expect(isRetryableError(transient, 2, { ...config, retryable: (_error, attempt) => attempt < 2 ? true : undefined }))
+      .toBe(true);
+    expect(isRetryableError(new AgentError('dup', 'DUPLICATE_VALUE'), 1, { ...config, fatalCodes: ['DUPLICATE_VALUE'] }))
+      .toBe(false);
+  });
+});
+
+describe('getRetryAfter', () => {
+  it('reads Retry-After in seconds from headers of the error or its response', () => {
+    expect(getRetryAfter(httpError({ headers: { 'Retry-After': '2' } }))).toBe(2000);
+    expect(getRetryAfter(httpError({ response: { headers: new Headers({ 'retry-after': '0.5' }) } }))).toBe(500);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Mon, 19 Oct 2026 10:00:00 GMT'));
+    try {
+      expect(getRetryAfter(httpError({ headers: { 'retry-after': 'Mon, 19 Oct 2026 10:00:30 GMT' } }))).toBe(30000);
+      expect(getRetryAfter(httpError({ headers: { 'retry-after': 'Mon, 19 Oct 2026 09:00:00 GMT' } }))).toBe(0);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('reads retryAfter in ms and hints of wrapped errors', () => {
+    expect(getRetryAfter(httpError({ retryAfter: 1500 }))).toBe(1500);
+    expect(getRetryAfter(new AgentError('failed', 'READ_FAILED', httpError({ headers: { 'retry-after': '3' } }))))
+      .toBe(3000);
+  });
+
+  it('ignores missing and unparsable hints', () => {
+    expect(getRetryAfter(new Error('boom'))).toBeUndefined();
+    expect(getRetryAfter(httpError({ headers: { 'retry-after': 'soon' } }))).toBeUndefined();
+  });
+});
+
+describe('calculateRetryDelay', () => {
+  it('backs off linearly or exponentially up to maxDelay', () => {
+    expect(calculateRetryDelay(3, { maxAttempts: 5, delay: 100 })).toBe(100);
+    expect(calculateRetryDelay(3, { maxAttempts: 5, delay: 100, backoff: 'exponential' })).toBe(400);
+    expect(calculateRetryDelay(5, { maxAttempts: 5, delay: 100, backoff: 'exponential', maxDelay: 1000 })).toBe(1000);
+  });
+
+  it('draws jittered delays from half the delay up to the delay', () => {
+    const random = jest.spyOn(Math, 'random');
+    const retry = { maxAttempts: 3, delay: 100, backoff: 'exponential' as const, jitter: true };
+    try {
+      random.mockReturnValue(0);
+      expect(calculateRetryDelay(2, retry)).toBe(100);
+      random.mockReturnValue(0.999999);
+      expect(calculateRetryDelay(2, retry)).toBeCloseTo(200, 3);
+    } finally {
+      random.mockRestore();
+    }
+
+    for (let i = 0; i < 100; i++) {
+      const delay = calculateRetryDelay(1, retry);
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('waits at least as long as a Retry-After hint unless told not to', () => {
+    const error = httpError({ headers: { 'retry-after': '2' } });
+
+    expect(calculateRetryDelay(1, { maxAttempts: 3, delay: 100 }, error)).toBe(2000);
+    expect(calculateRetryDelay(1, { maxAttempts: 3, delay: 5000 }, error)).toBe(5000);
+    expect(calculateRetryDelay(1, { maxAttempts: 3, delay: 100, respectRetryAfter: false }, error)).toBe(100);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Retry utilities shared by agents and workflow steps
+ */
+
+import { RetryConfig } from './types';
+import { abortReason } from './abort';
+
+/**
+ * Error codes that will not succeed on retry
+ */
+export const FATAL_ERROR_CODES = [
+  'INVALID_INPUT',
+  'INVALID_OUTPUT',
+  'INVALID_CONFIG',
+  'UNKNOWN_OPERATION',
+  'UNKNOWN_PROVIDER',
+  'NOT_IMPLEMENTED',
+  'NOT_FOUND',
+  'VALIDATION_ERROR',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'CANCELLED',
+  'CIRCUIT_OPEN',
+  'APPROVAL_REJECTED'
+];
+
+/**
+ * Error codes of transient failures
+ */
+export const RETRYABLE_ERROR_CODES = [
+  'RATE_LIMITED',
+  'SERVICE_UNAVAILABLE',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN'
+];
+
+/** Status codes worth retrying; other 4xx statuses are fatal */
+const RETRYABLE_STATUSES = [408, 425, 429];
+
+/**
+ * Calculate retry delay with backoff
+ * With jitter the delay is drawn from [delay / 2, delay]. A Retry-After hint on the
+ * error extends the delay unless retry.respectRetryAfter is false.
+ */
+export function calculateRetryDelay(attempt: number, retry: RetryConfig, error?: unknown): number {
+  let delay = retry.delay;
+  if (retry.backoff === 'exponential') {
+    delay = retry.delay * Math.pow(2, attempt - 1);
+    delay = Math.min(delay, retry.maxDelay || delay);
+  }
+
+  if (retry.jitter) {
+    delay = delay / 2 + Math.random() * (delay / 2);
+  }
+
+  const retryAfter = error !== undefined && retry.respectRetryAfter !== false
+    ? getRetryAfter(error)
+    : undefined;
+  return retryAfter !== undefined ? Math.max(delay, retryAfter) : delay;
+}
+
+/**
+ * Decide whether an error is worth retrying
+ * The retry.retryable predicate decides first. Otherwise the error and its causes
+ * (details, originalError, cause) are checked, outermost first, for a fatal or
+ * transient error code and for an HTTP status. Unclassified errors are retried.
+ */
+export function isRetryableError(error: unknown, attempt: number, retry?: RetryConfig): boolean {
+  const decision = retry?.retryable?.(error as Error, attempt);
+  if (decision !== undefined) {
+    return decision;
+  }
+
+  const fatalCodes = [...FATAL_ERROR_CODES, ...(retry?.fatalCodes || [])];
+
+  for (const cause of errorChain(error)) {
+    for (const code of [cause.code, cause.errorCode]) {
+      if (typeof code === 'string') {
+        if (fatalCodes.includes(code)) {
+          return false;
+        }
+        if (RETRYABLE_ERROR_CODES.includes(code)) {
+          return true;
+        }
+      }
+    }
+
+    const status = httpStatus(cause);
+    if (status !== undefined) {
+      return status >= 500 || RETRYABLE_STATUSES.includes(status);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Read a Retry-After hint from an error or its causes, in ms
+ * Supports a numeric `retryAfter` property in ms and `Retry-After` headers in
+ * seconds or as an HTTP date.
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  for (const cause of errorChain(error)) {
+    if (typeof cause.retryAfter === 'number') {
+      return cause.retryAfter;
+    }
+
+    const header = readHeader(cause.headers, 'retry-after') ??
+      readHeader(cause.response?.headers, 'retry-after');
+    if (header === undefined) {
+      continue;
+    }
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * An error followed by the errors it wraps
+ */
+function errorChain(error: unknown): any[] {
+  const chain: any[] = [];
+  const queue: unknown[] = [error];
+
+  while (queue.length > 0 && chain.length < 10) {
+    const cause = queue.shift();
+    if (!cause || typeof cause !== 'object' || chain.includes(cause)) {
+      continue;
+    }
+    chain.push(cause);
+
+    const { details, originalError } = cause as any;
+    queue.push((cause as any).cause, originalError, details, details?.originalError);
+  }
+  return chain;
+}
+
+/**
+ * HTTP status of an error, if it carries one
+ */
+function httpStatus(cause: any): number | undefined {
+  const status = cause.status ?? cause.statusCode ?? cause.response?.status ?? cause.response?.statusCode;
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : undefined;
+}
+
+/**
+ * Read a header from a plain object or a fetch Headers instance
+ */
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+  return key !== undefined ? String(headers[key]) : undefined;
+}
+
+/**
+ * Sleep utility
+ * Rejects early if the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
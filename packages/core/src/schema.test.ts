@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { parseWithSchema, toJsonSchema, formatPath } from './schema';
+import { AgentError } from './types';
+
+describe('parseWithSchema', () => {
+  const lead = z.object({
+    email: z.string().email(),
+    score: z.number().int().default(0),
+    tags: z.array(z.string()).optional()
+  });
+
+  it('returns the parsed value with defaults applied', () => {
+    expect(parseWithSchema(lead, { email: 'jane@acme.com' }, 'INVALID_INPUT', 'input')).toEqual({
+      email: 'jane@acme.com',
+      score: 0
+    });
+  });
+
+  it('throws an AgentError with the given code listing the issues by field', () => {
+    let error: AgentError | undefined;
+    try {
+      parseWithSchema(lead, { email: 'jane', score: 1.5, tags: ['a', 2] }, 'INVALID_OUTPUT', 'output');
+    } catch (caught) {
+      error = caught as AgentError;
+    }
+
+    expect(error).toBeInstanceOf(AgentError);
+    expect(error?.code).toBe('INVALID_OUTPUT');
+    expect(error?.details.issues).toEqual([
+      { path: 'email', message: 'Invalid email', code: 'invalid_string' },
+      { path: 'score', message: 'Expected integer, received float', code: 'invalid_type' },
+      { path: 'tags[1]', message: 'Expected string, received number', code: 'invalid_type' }
+    ]);
+    expect(error?.message).toBe([
+      'Invalid output:',
+      '  email: Invalid email',
+      '  score: Expected integer, received float',
+      '  tags[1]: Expected string, received number'
+    ].join('\n'));
+  });
+
+  it('names the root for issues of the value itself', () => {
+    expect(() => parseWithSchema(lead, 'jane', 'INVALID_INPUT', 'input')).toThrow(
+      'Invalid input:\n  <root>: Expected object, received string'
+    );
+  });
+});
+
+describe('formatPath', () => {
+  it('formats keys and indexes', () => {
+    expect(formatPath(['steps', 2, 'retry', 'maxAttempts'])).toBe('steps[2].retry.maxAttempts');
+    expect(formatPath([0, 'name'])).toBe('[0].name');
+    expect(formatPath([])).toBe('');
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('converts objects with required and optional properties', () => {
+    const schema = z.object({
+      email: z.string().email().describe('Work email'),
+      name: z.string().min(1).max(100).optional(),
+      score: z.number().int().min(0).lt(100).default(0),
+      createdAt: z.date(),
+      status: z.enum(['new', 'qualified']),
+      tags: z.array(z.string().regex(/^[a-z]+$/)).max(5),
+      company: z.object({ domain: z.string().url() }).strict().nullable()
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Work email' },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        score: { type: 'integer', minimum: 0, exclusiveMaximum: 100, default: 0 },
+        createdAt: { type: 'string', format: 'date-time' },
+        status: { type: 'string', enum: ['new', 'qualified'] },
+        tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' }, maxItems: 5 },
+        company: {
+          anyOf: [
+            {
+              type: 'object',
+              properties: { domain: { type: 'string', format: 'uri' } },
+              required: ['domain'],
+              additionalProperties: false
+            },
+            { type: 'null' }
+          ]
+        }
+      },
+      required: ['email', 'createdAt', 'status', 'tags', 'company']
+    });
+  });
+
+  it('converts unions, literals, records, tuples and native enums', () => {
+    enum Priority { Low, High }
+
+    expect(toJsonSchema(z.union([z.literal('a'), z.literal(1), z.null()]))).toEqual({
+      anyOf: [{ type: 'string', const: 'a' }, { type: 'number', const: 1 }, { type: 'null' }]
+    });
+    expect(toJsonSchema(z.record(z.number()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'number' }
+    });
+    expect(toJsonSchema(z.tuple([z.string(), z.boolean()]))).toEqual({
+      type: 'array',
+      items: [{ type: 'string' }, { type: 'boolean' }],
+      minItems: 2,
+      maxItems: 2
+    });
+    expect(toJsonSchema(z.nativeEnum(Priority))).toEqual({ enum: [0, 1] });
+  });
+
+  it('leaves out refinements and transforms', () => {
+    const schema = z.string()
+      .refine(value => value.includes('@'))
+      .transform(value => value.toLowerCase());
+
+    expect(toJsonSchema(schema)).toEqual({ type: 'string' });
+  });
+
+  it('cuts recursive schemas off at the first repetition', () => {
+    interface Category { name: string; children: Category[] }
+    const category: z.ZodType<Category> = z.lazy(() => z.object({
+      name: z.string(),
+      children: z.array(category)
+    }));
+
+    expect(toJsonSchema(category)).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: {} } },
+      required: ['name', 'children']
+    });
+  });
+});
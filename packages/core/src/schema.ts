@@ -0,0 +1,274 @@
+/**
+ * Schema validation
+ * Validates agent inputs and outputs with zod and exports zod schemas as JSON Schema
+ */
+
+import { z } from 'zod';
+import { AgentError, JSONSchema, ValidationIssue } from './types';
+
+/** Path of a value in a document, e.g. ['steps', 2, 'retry'] */
+export type IssuePath = Array<string | number>;
+
+/**
+ * Parse a value with a schema
+ * Returns the parsed value, with defaults and transforms applied. Throws an AgentError
+ * with the given code whose details list the issues by field.
+ */
+export function parseWithSchema<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, any>,
+  value: unknown,
+  code: string,
+  subject: string
+): T {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = toValidationIssues(result.error);
+  const lines = issues.map(issue => `  ${issue.path || '<root>'}: ${issue.message}`);
+  throw new AgentError(`Invalid ${subject}:\n${lines.join('\n')}`, code, { issues });
+}
+
+/**
+ * Field-level issues of a zod error
+ */
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+    code: issue.code
+  }));
+}
+
+/**
+ * Format a path as steps[2].retry.maxAttempts
+ */
+export function formatPath(path: IssuePath): string {
+  return path.reduce<string>((formatted, segment) => typeof segment === 'number'
+    ? `${formatted}[${segment}]`
+    : formatted ? `${formatted}.${segment}` : segment, '');
+}
+
+/**
+ * Convert a zod schema to JSON Schema (draft-07)
+ *
+ * Covers the types that can be represented in JSON. Dates become date-time strings;
+ * refinements, transforms and other types JSON Schema cannot express are left out,
+ * so the result may accept more than the zod schema does.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JSONSchema {
+  return convert(schema, new Set());
+}
+
+function convert(schema: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JSONSchema {
+  const json = convertType(schema, seen);
+  if (schema.description && json.description === undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convertType(schema: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JSONSchema {
+  const def = schema._def;
+
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(def as z.ZodStringDef);
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(def as z.ZodNumberDef);
+
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case z.ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral: {
+      const value = def.value;
+      return value === null ? { type: 'null' } : { type: typeof value, const: value };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric enums map names to values and values back to names
+      const values = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[def.values[key]] !== 'number')
+        .map(([, value]) => value);
+      return { enum: [...new Set(values)] };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject, seen);
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const json: JSONSchema = { type: 'array', items: convert(def.type, seen) };
+      if (def.exactLength) {
+        json.minItems = def.exactLength.value;
+        json.maxItems = def.exactLength.value;
+      }
+      if (def.minLength) {
+        json.minItems = def.minLength.value;
+      }
+      if (def.maxLength) {
+        json.maxItems = def.maxLength.value;
+      }
+      return json;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const items = (def.items as z.ZodTypeAny[]).map(item => convert(item, seen));
+      return {
+        type: 'array',
+        items,
+        minItems: items.length,
+        ...(def.rest ? { additionalItems: convert(def.rest, seen) } : { maxItems: items.length })
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodSet:
+      return { type: 'array', uniqueItems: true, items: convert(def.valueType, seen) };
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: convert(def.valueType, seen) };
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: [...def.options].map((option: z.ZodTypeAny) => convert(option, seen)) };
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [convert(def.left, seen), convert(def.right, seen)] };
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [convert(def.innerType, seen), { type: 'null' }] };
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...convert(def.innerType, seen), default: def.defaultValue() };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+    case z.ZodFirstPartyTypeKind.ZodPromise:
+      return convert(def.innerType ?? def.type, seen);
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return convert(def.schema, seen);
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return convert(def.in, seen);
+
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return convert(def.type, seen);
+
+    case z.ZodFirstPartyTypeKind.ZodLazy: {
+      // Recursive schemas are cut off at the first repetition
+      if (seen.has(schema)) {
+        return {};
+      }
+      seen.add(schema);
+      try {
+        return convert(def.getter(), seen);
+      } finally {
+        seen.delete(schema);
+      }
+    }
+
+    default:
+      return {};
+  }
+}
+
+function convertString(def: z.ZodStringDef): JSONSchema {
+  const json: JSONSchema = { type: 'string' };
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'date':
+        json.format = 'date';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function convertNumber(def: z.ZodNumberDef): JSONSchema {
+  const json: JSONSchema = { type: 'number' };
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+function convertObject(schema: z.AnyZodObject, seen: Set<z.ZodTypeAny>): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, property] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+    properties[key] = convert(property, seen);
+    if (!property.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const json: JSONSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    json.required = required;
+  }
+
+  const { catchall, unknownKeys } = schema._def;
+  if (catchall && catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever) {
+    json.additionalProperties = convert(catchall, seen);
+  } else if (unknownKeys === 'strict') {
+    json.additionalProperties = false;
+  }
+  return json;
+}
@@ -0,0 +1,47 @@
+/**
+ * In-memory span exporter
+ */
+
+import { ISpanExporter, SpanData } from '../types';
+
+/**
+ * Span exporter that keeps finished spans in process memory, for tests and debugging
+ */
+export class InMemorySpanExporter implements ISpanExporter {
+  private spans: SpanData[] = [];
+
+  /**
+   * Store finished spans
+   */
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  /**
+   * Spans finished so far, in the order they ended
+   */
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Spans of one trace
+   */
+  getTrace(traceId: string): SpanData[] {
+    return this.spans.filter(span => span.traceId === traceId);
+  }
+
+  /**
+   * Forget all spans
+   */
+  reset(): void {
+    this.spans = [];
+  }
+
+  /**
+   * Shut down the exporter
+   */
+  async shutdown(): Promise<void> {
+    this.reset();
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  Tracer,
+  setGlobalTracer,
+  getActiveTrace,
+  withActiveTrace,
+  formatTraceparent,
+  parseTraceparent,
+  injectTraceContext
+} from './Tracer';
+import { InMemorySpanExporter } from './InMemorySpanExporter';
+import { AgentWorkflow } from '../AgentWorkflow';
+import { AgentError } from '../types';
+
+describe('Tracer', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ exporter, serviceName: 'sales' });
+  });
+
+  afterEach(() => {
+    setGlobalTracer(undefined);
+  });
+
+  it('links child spans to their parent within one trace', () => {
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan('child', { parent: root.context(), kind: 'client', attributes: { step: 'a' } });
+    child.end();
+    root.end();
+
+    const [childSpan, rootSpan] = exporter.getFinishedSpans();
+    expect(rootSpan.parentSpanId).toBeUndefined();
+    expect(rootSpan.traceId).toMatch(/^[\da-f]{32}$/);
+    expect(rootSpan.spanId).toMatch(/^[\da-f]{16}$/);
+    expect(childSpan).toMatchObject({
+      name: 'child',
+      kind: 'client',
+      traceId: rootSpan.traceId,
+      parentSpanId: rootSpan.spanId,
+      attributes: { step: 'a' },
+      resource: { 'service.name': 'sales' }
+    });
+    expect(childSpan.spanId).not.toBe(rootSpan.spanId);
+    expect(exporter.getTrace(rootSpan.traceId)).toHaveLength(2);
+  });
+
+  it('records exceptions as error status with the error code', () => {
+    const span = tracer.startSpan('call');
+
+    span.recordException(new AgentError('slow down', 'RATE_LIMITED'));
+    span.end();
+
+    const [data] = exporter.getFinishedSpans();
+    expect(data.status).toEqual({ code: 'error', message: 'slow down' });
+    expect(data.events).toEqual([expect.objectContaining({
+      name: 'exception',
+      attributes: { 'exception.type': 'AgentError', 'exception.message': 'slow down', 'exception.code': 'RATE_LIMITED' }
+    })]);
+  });
+
+  it('exports a span once, however often it is ended', () => {
+    const span = tracer.startSpan('once');
+
+    span.end();
+    span.end();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('keeps tracing failures away from the traced work', () => {
+    const failing = new Tracer({
+      exporter: {
+        export: () => {
+          throw new Error('collector down');
+        }
+      }
+    });
+
+    expect(() => failing.startSpan('work').end()).not.toThrow();
+  });
+
+  it('tracks the active span across async calls', async () => {
+    const span = tracer.startSpan('outer');
+
+    const seen = await withActiveTrace(span.context(), async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return getActiveTrace();
+    });
+
+    expect(seen).toEqual(span.context());
+    expect(getActiveTrace()).toBeUndefined();
+  });
+
+  it('formats, parses and injects W3C traceparent headers', () => {
+    const trace = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1, traceState: 'vendor=1' };
+
+    expect(formatTraceparent(trace)).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+    expect(parseTraceparent(formatTraceparent(trace), 'vendor=1')).toEqual(trace);
+    expect(injectTraceContext({ accept: 'json' }, trace)).toEqual({
+      accept: 'json',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      tracestate: 'vendor=1'
+    });
+    expect(withActiveTrace(trace, () => injectTraceContext({}))).toEqual({
+      traceparent: formatTraceparent(trace),
+      tracestate: 'vendor=1'
+    });
+    expect(injectTraceContext({})).toEqual({});
+  });
+
+  it.each([
+    'garbage',
+    'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    '00-00000000000000000000000000000000-00f067aa0ba902b7-01',
+    '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01'
+  ])('rejects the invalid traceparent %s', header => {
+    expect(parseTraceparent(header)).toBeUndefined();
+  });
+
+  it('nests step spans under the workflow span and marks failed steps', async () => {
+    setGlobalTracer(tracer);
+    const workflow = new AgentWorkflow({ name: 'intake' })
+      .step('ok', async context => context.data)
+      .step('broken', async () => {
+        throw new AgentError('boom', 'STEP_BROKEN');
+      });
+
+    await workflow.execute({});
+
+    const spans = exporter.getFinishedSpans();
+    const run = spans.find(span => span.name === 'workflow intake')!;
+    const broken = spans.find(span => span.name === 'step broken')!;
+    expect(spans.find(span => span.name === 'step ok')).toMatchObject({ parentSpanId: run.spanId, traceId: run.traceId });
+    expect(broken).toMatchObject({ parentSpanId: run.spanId, status: { code: 'error' } });
+    expect(run.status.code).toBe('error');
+  });
+});
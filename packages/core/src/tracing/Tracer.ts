@@ -0,0 +1,245 @@
+/**
+ * Tracer
+ * OpenTelemetry-compatible spans for agents, workflow runs, steps and provider calls
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import {
+  ISpanExporter,
+  SpanAttributes,
+  SpanData,
+  SpanKind,
+  SpanStatus,
+  TraceContext
+} from '../types';
+
+/**
+ * Tracer configuration
+ */
+export interface TracerConfig {
+  /** Receives every finished span */
+  exporter: ISpanExporter;
+  /** Reported as the service.name resource attribute */
+  serviceName?: string;
+}
+
+/**
+ * Options of a new span
+ */
+export interface SpanOptions {
+  /** Parent span; without one the span starts a new trace */
+  parent?: TraceContext;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+}
+
+/** Span of the code currently running, used when no parent is passed explicitly */
+const activeTrace = new AsyncLocalStorage<TraceContext>();
+
+let globalTracer: Tracer | undefined;
+
+/**
+ * Span in progress
+ * end() hands the finished span to the exporter; later calls are ignored.
+ */
+export class Span {
+  private data: SpanData;
+  private ended: boolean = false;
+
+  constructor(
+    private exporter: ISpanExporter,
+    name: string,
+    private trace: TraceContext,
+    options: SpanOptions,
+    resource: SpanAttributes
+  ) {
+    this.data = {
+      name,
+      kind: options.kind || 'internal',
+      traceId: trace.traceId,
+      spanId: trace.spanId,
+      parentSpanId: options.parent?.spanId,
+      startTime: new Date(),
+      endTime: new Date(),
+      duration: 0,
+      attributes: { ...options.attributes },
+      events: [],
+      status: { code: 'unset' },
+      resource
+    };
+  }
+
+  /**
+   * Trace context to pass to child spans and outbound requests
+   */
+  context(): TraceContext {
+    return { ...this.trace };
+  }
+
+  /**
+   * Set an attribute
+   */
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.data.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * Record an event that happened during the span
+   */
+  addEvent(name: string, attributes?: SpanAttributes, time: Date = new Date()): this {
+    this.data.events.push({ name, time, attributes });
+    return this;
+  }
+
+  /**
+   * Set the span status
+   */
+  setStatus(code: SpanStatus['code'], message?: string): this {
+    this.data.status = { code, message };
+    return this;
+  }
+
+  /**
+   * Record an error as an exception event and mark the span as failed
+   */
+  recordException(error: Error): this {
+    const attributes: SpanAttributes = {
+      'exception.type': error.name,
+      'exception.message': error.message
+    };
+    const code = (error as any).code;
+    if (typeof code === 'string') {
+      attributes['exception.code'] = code;
+    }
+    return this.addEvent('exception', attributes).setStatus('error', error.message);
+  }
+
+  /**
+   * End the span and export it
+   * Exporter failures are ignored so tracing never breaks the traced work.
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    const endTime = new Date();
+    const span: SpanData = {
+      ...this.data,
+      endTime,
+      duration: endTime.getTime() - this.data.startTime.getTime()
+    };
+
+    try {
+      Promise.resolve(this.exporter.export([span])).catch(() => undefined);
+    } catch {
+      // Ignored, see above
+    }
+  }
+}
+
+/**
+ * Creates spans and hands them to an exporter
+ */
+export class Tracer {
+  private resource: SpanAttributes;
+
+  constructor(private config: TracerConfig) {
+    this.resource = config.serviceName ? { 'service.name': config.serviceName } : {};
+  }
+
+  /**
+   * Start a span, as a child of options.parent or as the root of a new trace
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const trace: TraceContext = {
+      traceId: options.parent?.traceId || randomId(16),
+      spanId: randomId(8),
+      traceFlags: options.parent?.traceFlags ?? 1,
+      traceState: options.parent?.traceState
+    };
+    return new Span(this.config.exporter, name, trace, options, this.resource);
+  }
+
+  /**
+   * Flush and shut down the exporter
+   */
+  async shutdown(): Promise<void> {
+    await this.config.exporter.shutdown?.();
+  }
+}
+
+/**
+ * Set the tracer used by agents, workflows and providers without their own
+ * Pass undefined to turn tracing off.
+ */
+export function setGlobalTracer(tracer: Tracer | undefined): void {
+  globalTracer = tracer;
+}
+
+/**
+ * Get the global tracer, if one is set
+ */
+export function getGlobalTracer(): Tracer | undefined {
+  return globalTracer;
+}
+
+/**
+ * Trace context of the span the calling code runs in
+ */
+export function getActiveTrace(): TraceContext | undefined {
+  return activeTrace.getStore();
+}
+
+/**
+ * Run fn with trace as the active span, so calls inside it become its children
+ */
+export function withActiveTrace<T>(trace: TraceContext | undefined, fn: () => T): T {
+  return trace ? activeTrace.run(trace, fn) : fn();
+}
+
+/**
+ * Format a W3C traceparent header
+ */
+export function formatTraceparent(trace: TraceContext): string {
+  return `00-${trace.traceId}-${trace.spanId}-${trace.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a W3C traceparent header, returning undefined if it is invalid
+ */
+export function parseTraceparent(header: string, traceState?: string): TraceContext | undefined {
+  const match = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/.exec(header.trim().toLowerCase());
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return undefined;
+  }
+  return {
+    traceId: match[2],
+    spanId: match[3],
+    traceFlags: parseInt(match[4], 16),
+    traceState
+  };
+}
+
+/**
+ * Add W3C traceparent and tracestate headers for a span, by default the active one
+ */
+export function injectTraceContext(
+  headers: Record<string, string>,
+  trace: TraceContext | undefined = getActiveTrace()
+): Record<string, string> {
+  if (trace) {
+    headers.traceparent = formatTraceparent(trace);
+    if (trace.traceState) {
+      headers.tracestate = trace.traceState;
+    }
+  }
+  return headers;
+}
+
+function randomId(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
@@ -3,6 +3,11 @@
  */
 
 import { z } from 'zod';
+import type { BaseAgent } from './BaseAgent';
+import type { AgentWorkflow, WorkflowResult } from './AgentWorkflow';
+import type { CircuitBreaker } from './CircuitBreaker';
+import type { Tracer } from './tracing/Tracer';
+import type { AgentRegistry } from './AgentRegistry';
 
 /**
  * Agent execution context
@@ -18,6 +23,14 @@ export interface AgentContext<T = any> {
   history: StepResult[];
   /** Timestamp */
   timestamp: Date;
+  /** Signal aborted when the execution is cancelled or times out */
+  signal?: AbortSignal;
+  /** Span of the enclosing execution, the parent of spans started for this context */
+  trace?: TraceContext;
+  /** Logger carrying the execution's fields, such as run ID, step and agent */
+  logger?: ILogger;
+  /** Duplicate executions with the same key return the first one's result */
+  idempotencyKey?: string;
 }
 
 /**
@@ -30,10 +43,12 @@ export interface AgentResult<T = any> {
   data?: T;
   /** Error if failed */
   error?: AgentError;
-  /** Metadata */
+  /** Metadata, including the attempt log of agents under `attempts` (RetryAttempt[]) */
   metadata?: Record<string, any>;
   /** Execution time in ms */
   executionTime?: number;
+  /** Whether the execution was cancelled */
+  cancelled?: boolean;
 }
 
 /**
@@ -52,8 +67,48 @@ export interface AgentConfig {
   timeout?: number;
   /** Retry configuration */
   retry?: RetryConfig;
+  /** Circuit breaker guarding each attempt; pass an instance to share it between agents */
+  circuitBreaker?: CircuitBreakerConfig | CircuitBreaker;
+  /** Middleware around each execution, outermost first */
+  middleware?: AgentMiddleware[];
+  /** Tracer recording a span per execution (default: the global tracer) */
+  tracer?: Tracer;
+  /** Registry recording execution metrics (default: the global registry) */
+  metrics?: IMetricsRegistry;
+  /** Logger for execution events (default: the global logger) */
+  logger?: ILogger;
+  /** Schema the input is parsed with; failures are INVALID_INPUT errors */
+  inputSchema?: z.ZodTypeAny;
+  /** Schema the output is parsed with; failures are INVALID_OUTPUT errors */
+  outputSchema?: z.ZodTypeAny;
+  /** Deduplication of executions with an idempotency key */
+  idempotency?: IdempotencyConfig;
+}
+
+/**
+ * What a middleware is running around
+ */
+export interface MiddlewareInfo {
+  /** An agent execution or a workflow step */
+  type: 'agent' | 'step';
+  /** Agent or step name */
+  name: string;
+  /** Workflow of the step */
+  workflow?: string;
 }
 
+/**
+ * Interceptor around an agent execution or a workflow step
+ * Call next() to continue, optionally with a modified context, and return its result
+ * or a transformed one. Returning without calling next() short-circuits the execution.
+ * Retries happen inside next().
+ */
+export type AgentMiddleware<TInput = any, TOutput = any> = (
+  context: AgentContext<TInput>,
+  next: (context?: AgentContext<TInput>) => Promise<TOutput>,
+  info: MiddlewareInfo
+) => Promise<TOutput>;
+
 /**
  * Retry configuration
  */
@@ -66,6 +121,53 @@ export interface RetryConfig {
   backoff?: 'linear' | 'exponential';
   /** Maximum delay in ms */
   maxDelay?: number;
+  /** Randomize delays so concurrent callers do not retry in lockstep */
+  jitter?: boolean;
+  /** Wait at least as long as a Retry-After hint on the error (default: true) */
+  respectRetryAfter?: boolean;
+  /** Error codes never retried, in addition to the built-in ones */
+  fatalCodes?: string[];
+  /** Decide whether an error is retried; return undefined to use the built-in classification */
+  retryable?: (error: Error, attempt: number) => boolean | undefined;
+}
+
+/**
+ * Record of one execution attempt
+ */
+export interface RetryAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  startedAt: Date;
+  /** Duration in ms */
+  duration: number;
+  error?: Error;
+  /** Whether the error was classified as retryable */
+  retryable?: boolean;
+  /** Delay before the next attempt in ms */
+  delay?: number;
+}
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Name reported in errors and events */
+  name?: string;
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Cool-down in ms before an open circuit lets a trial call through (default: 30000) */
+  resetTimeout?: number;
+  /** Concurrent trial calls allowed while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+  /** Successful trial calls that close the circuit again (default: 1) */
+  successThreshold?: number;
+  /** Whether an error counts as a failure (default: errors that are worth retrying) */
+  isFailure?: (error: Error) => boolean;
 }
 
 /**
@@ -94,8 +196,197 @@ export interface WorkflowStep {
   condition?: (context: AgentContext) => boolean | Promise<boolean>;
   /** Error handler */
   onError?: (error: Error, context: AgentContext) => void | Promise<void>;
+  /** Compensation handler, run on rollback if the step completed */
+  compensate?: CompensationHandler;
+  /** Names of the steps this step depends on (graph mode) */
+  dependsOn?: string[];
+  /** Retry configuration for the handler */
+  retry?: RetryConfig;
+  /** Timeout per attempt in ms */
+  timeout?: number;
+  /** Agent or sub-workflow the step runs, set by AgentWorkflow.agentStep() and workflowStep() */
+  child?: StepChild;
+}
+
+/**
+ * Options for a workflow step
+ */
+export type StepOptions = Omit<WorkflowStep, 'name' | 'handler' | 'child'>;
+
+/**
+ * Options for a step that runs an agent or a sub-workflow
+ */
+export interface ChildStepOptions extends StepOptions {
+  /** Maps the workflow context to the child input; defaults to the context data */
+  input?: (context: AgentContext) => any;
+  /** Maps the child output to the step output; defaults to the child output */
+  output?: (output: any, context: AgentContext) => any;
 }
 
+/**
+ * Agent or sub-workflow run by a step
+ */
+export type StepChild = Pick<ChildStepOptions, 'input' | 'output'> & (
+  | { type: 'agent'; agent: BaseAgent }
+  | { type: 'workflow'; workflow: AgentWorkflow }
+);
+
+/**
+ * Execution of an agent or sub-workflow by a step
+ */
+export interface ChildRun {
+  /** Child kind */
+  type: StepChild['type'];
+  /** Agent or workflow name */
+  name: string;
+  /** Agent execution ID or workflow run ID */
+  runId: string;
+  /** Result of the child */
+  result: AgentResult | WorkflowResult;
+}
+
+/**
+ * Merge strategy for the outputs of a parallel group
+ * - shallow: spread each branch output over the context data, in declaration order
+ * - deep: recursively merge plain objects, in declaration order
+ * - namespace: store each branch output under its step name
+ * - function: custom merge of the current data and the outputs keyed by step name
+ */
+export type MergeStrategy =
+  | 'shallow'
+  | 'deep'
+  | 'namespace'
+  | ((data: any, outputs: Record<string, any>) => any);
+
+/**
+ * Failure policy for a parallel group
+ * - all: every branch must succeed
+ * - any: at least one branch must succeed
+ * - settled: the group succeeds whatever the branch outcomes
+ */
+export type ParallelPolicy = 'all' | 'any' | 'settled';
+
+/**
+ * Group of steps executed concurrently against the same context
+ */
+export interface ParallelGroup {
+  /** Group name */
+  name: string;
+  /** Branch steps */
+  steps: WorkflowStep[];
+  /** Merge strategy for branch outputs */
+  merge?: MergeStrategy;
+  /** Failure policy */
+  policy?: ParallelPolicy;
+  /** Condition to execute */
+  condition?: (context: AgentContext) => boolean | Promise<boolean>;
+  /** Names of the steps this group depends on (graph mode) */
+  dependsOn?: string[];
+}
+
+/**
+ * Branch node that routes a graph workflow to one set of steps
+ */
+export interface WorkflowBranch {
+  /** Branch name */
+  name: string;
+  /** Selects the case to follow; booleans select the 'true' or 'false' case */
+  select: (context: AgentContext) => BranchValue | Promise<BranchValue>;
+  /** Step names to run for each case */
+  cases: Record<string, string | string[]>;
+  /** Step names to run when no case matches */
+  default?: string | string[];
+  /** Names of the steps this branch depends on */
+  dependsOn?: string[];
+}
+
+/**
+ * Approval settings of an approval step
+ */
+export interface ApprovalConfig {
+  /** Builds the item shown to the approver; defaults to the context data */
+  payload?: (context: AgentContext) => any;
+  /** Who has to decide */
+  assignee?: string | ((context: AgentContext) => string);
+  /** Time to decide in ms */
+  timeout?: number;
+  /** What happens when the deadline passes; defaults to 'reject' */
+  onTimeout?: 'reject' | 'escalate';
+  /** Who decides after an escalation; defaults to the assignee */
+  escalateTo?: string | ((context: AgentContext) => string);
+  /** Time to decide after an escalation, then the request is rejected; defaults to timeout */
+  escalationTimeout?: number;
+}
+
+/**
+ * Approval step that suspends the run until a decision is submitted
+ * In graph mode the decision can route the run like a branch node.
+ */
+export interface WorkflowApproval {
+  /** Step name */
+  name: string;
+  /** Approval settings */
+  approval: ApprovalConfig;
+  /** Step names to run for the 'approved' and 'rejected' decisions (graph mode) */
+  cases: Record<string, string | string[]>;
+  /** Condition to request approval; the step is skipped otherwise */
+  condition?: (context: AgentContext) => boolean | Promise<boolean>;
+  /** Names of the steps this step depends on (graph mode) */
+  dependsOn?: string[];
+}
+
+/**
+ * Approval request status
+ */
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Approval request raised by an approval step
+ */
+export interface ApprovalRequest {
+  /** Run ID */
+  runId: string;
+  /** Workflow name */
+  workflow: string;
+  /** Approval step name */
+  step: string;
+  /** Item to approve */
+  payload: any;
+  /** Who has to decide */
+  assignee?: string;
+  /** Request status */
+  status: ApprovalStatus;
+  /** When the approval was requested */
+  requestedAt: Date;
+  /** When the request times out */
+  deadline?: Date;
+  /** Whether the request was escalated */
+  escalated: boolean;
+  /** Decision, once submitted */
+  decision?: ApprovalDecision;
+}
+
+/**
+ * Decision on an approval request
+ */
+export interface ApprovalDecision {
+  /** Whether the item was approved */
+  approved: boolean;
+  /** Who decided */
+  by?: string;
+  /** Comment of the approver */
+  comment?: string;
+  /** Decision time */
+  decidedAt: Date;
+  /** Whether the request was rejected by its timeout */
+  automatic?: boolean;
+}
+
+/**
+ * Value selecting a branch case
+ */
+export type BranchValue = string | number | boolean;
+
 /**
  * Step handler function
  */
@@ -103,6 +394,15 @@ export type StepHandler<TInput = any, TOutput = any> = (
   context: AgentContext<TInput>
 ) => Promise<TOutput> | TOutput;
 
+/**
+ * Compensation handler function
+ * Receives the step's own result so it can undo any side effects
+ */
+export type CompensationHandler<TInput = any> = (
+  context: AgentContext<TInput>,
+  result: StepResult
+) => Promise<void> | void;
+
 /**
  * Step result
  */
@@ -121,6 +421,38 @@ export interface StepResult {
   completedAt: Date;
   /** Duration in ms */
   duration: number;
+  /** Whether the step was skipped by its condition or an untaken branch */
+  skipped?: boolean;
+  /** Case selected by a branch node */
+  branch?: string;
+  /** Number of handler attempts */
+  attempts?: number;
+  /** Errors of the failed attempts, in order */
+  attemptErrors?: Error[];
+  /** Parallel group the step ran in */
+  group?: string;
+  /** Agent or sub-workflow run by the step, for its last attempt */
+  child?: ChildRun;
+  /** Decided request of an approval step */
+  approval?: ApprovalRequest;
+}
+
+/**
+ * Compensation result
+ */
+export interface CompensationResult {
+  /** Step name */
+  step: string;
+  /** Success status */
+  success: boolean;
+  /** Error if failed */
+  error?: Error;
+  /** Start time */
+  startedAt: Date;
+  /** End time */
+  completedAt: Date;
+  /** Duration in ms */
+  duration: number;
 }
 
 /**
@@ -135,6 +467,510 @@ export interface WorkflowConfig {
   timeout?: number;
   /** Error handling strategy */
   onError?: 'stop' | 'continue' | 'rollback';
+  /**
+   * Execution mode
+   * - sequential: steps run in the order they were added
+   * - graph: steps run in dependency order and may branch
+   */
+  mode?: 'sequential' | 'graph';
+  /** Store that persists the run after each step, enabling resume() */
+  checkpointStore?: ICheckpointStore;
+  /** Middleware around each step, outermost first */
+  middleware?: AgentMiddleware[];
+  /** Tracer recording spans for runs and steps (default: the global tracer) */
+  tracer?: Tracer;
+  /** Registry recording run and step metrics (default: the global registry) */
+  metrics?: IMetricsRegistry;
+  /** Logger for run and step events (default: the global logger) */
+  logger?: ILogger;
+  /** Deduplication of runs with an idempotency key */
+  idempotency?: IdempotencyConfig;
+}
+
+/**
+ * Workflow run status
+ */
+export type WorkflowRunStatus = 'running' | 'pending' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Snapshot of a workflow run
+ */
+export interface WorkflowRunInfo {
+  /** Run ID */
+  runId: string;
+  /** Workflow name */
+  workflow: string;
+  /** Run status */
+  status: WorkflowRunStatus;
+  /** Run context */
+  context: AgentContext;
+  /** Step results so far */
+  steps: StepResult[];
+  /** Steps currently executing */
+  currentSteps: string[];
+  /** Approval requests of the run */
+  approvals: ApprovalRequest[];
+  /** Start time */
+  startedAt: Date;
+  /** End time */
+  completedAt?: Date;
+}
+
+/**
+ * Persisted state of a workflow run
+ */
+export interface WorkflowCheckpoint {
+  /** Run ID (the workflow context ID) */
+  runId: string;
+  /** Workflow name */
+  workflow: string;
+  /** Run status */
+  status: WorkflowRunStatus;
+  /** Workflow context, including the step history */
+  context: AgentContext;
+  /** Steps that completed and are not executed again on resume */
+  completedSteps: string[];
+  /** Approval requests of the run */
+  approvals?: ApprovalRequest[];
+  /** Last update */
+  updatedAt: Date;
+}
+
+/**
+ * Kinds of components in an AgentRegistry
+ */
+export type RegistryKind = 'agent' | 'provider' | 'handler' | 'middleware';
+
+/**
+ * Metadata of a registered component
+ */
+export interface RegistrationMetadata {
+  /** Semantic version, e.g. '1.2.0' */
+  version?: string;
+  /** Description */
+  description?: string;
+  /** Agents an agent needs, as 'name' or 'name@range', e.g. 'crm@^1.0.0' */
+  dependsOn?: string[];
+  /** Lifecycle hooks of an agent */
+  hooks?: LifecycleHooks;
+}
+
+/**
+ * Registered component, as listed by AgentRegistry.list()
+ */
+export interface RegistryEntry {
+  kind: RegistryKind;
+  name: string;
+  version?: string;
+  description?: string;
+  dependsOn: string[];
+  /** Plugin that registered the component */
+  plugin?: string;
+}
+
+/**
+ * Hooks around agent initialization and close in an AgentRegistry
+ */
+export interface LifecycleHooks {
+  beforeInitialize?(agent: BaseAgent, name: string): void | Promise<void>;
+  afterInitialize?(agent: BaseAgent, name: string): void | Promise<void>;
+  beforeClose?(agent: BaseAgent, name: string): void | Promise<void>;
+  afterClose?(agent: BaseAgent, name: string): void | Promise<void>;
+}
+
+/**
+ * Creates an agent from the agents it depends on, by registered name
+ */
+export type AgentFactory = (
+  dependencies: Record<string, BaseAgent>,
+  registry: AgentRegistry
+) => BaseAgent | Promise<BaseAgent>;
+
+/**
+ * Creates a provider, such as a CRM provider, from its configuration
+ */
+export type ProviderFactory<TConfig = any, TProvider = any> = (config: TConfig) => TProvider;
+
+/**
+ * Package of agents, providers, handlers and middleware
+ */
+export interface AgentPlugin {
+  /** Plugin name, usually the package name */
+  name: string;
+  /** Plugin version; registrations without their own inherit it */
+  version?: string;
+  /** Register the plugin's components */
+  register(registry: AgentRegistry): void | Promise<void>;
+}
+
+/**
+ * Deduplication of executions by idempotency key
+ */
+export interface IdempotencyConfig {
+  /** Store of claimed keys and results (default: a process-wide in-memory store) */
+  store?: IIdempotencyStore;
+  /** How long results are kept, in ms (default: 24 hours) */
+  ttl?: number;
+  /** How long an execution holds its key before a duplicate may take over, in ms (default: 5 minutes) */
+  lockTimeout?: number;
+  /** How often a duplicate checks on an execution in another process, in ms (default: 100) */
+  pollInterval?: number;
+  /** Keep failed results too; by default a failure releases the key so it can be retried */
+  cacheFailures?: boolean;
+}
+
+/**
+ * Claimed idempotency key
+ */
+export interface IdempotencyRecord<T = any> {
+  key: string;
+  /** 'in-progress' while the first execution runs */
+  status: 'in-progress' | 'completed';
+  /** Result of the first execution, once completed */
+  result?: T;
+  createdAt: Date;
+  /** When the record expires, or an in-progress claim may be taken over */
+  expiresAt: Date;
+}
+
+/**
+ * Idempotency store interface
+ * Stores treat expired records as absent.
+ */
+export interface IIdempotencyStore {
+  /** Claim a key; returns null once claimed, or the record that holds the key */
+  claim(key: string, ttl: number): Promise<IdempotencyRecord | null>;
+
+  /** Record the result of a claimed key */
+  complete(key: string, result: any, ttl: number): Promise<void>;
+
+  /** Give up a claim without a result, so the key can be used again */
+  release(key: string): Promise<void>;
+
+  /** Get the record of a key */
+  get(key: string): Promise<IdempotencyRecord | null>;
+
+  /** Delete the record of a key */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Idempotency outcome, in result metadata under `idempotency`
+ */
+export interface IdempotencyInfo {
+  /** Key passed by the caller */
+  key: string;
+  /** Whether the result is that of an earlier execution with the key */
+  hit: boolean;
+  /** When the earlier execution started, for hits */
+  firstSeenAt?: Date;
+}
+
+/**
+ * Checkpoint store interface
+ */
+export interface ICheckpointStore {
+  /** Save or replace the checkpoint of a run */
+  save(checkpoint: WorkflowCheckpoint): Promise<void>;
+
+  /** Load the checkpoint of a run */
+  load(runId: string): Promise<WorkflowCheckpoint | null>;
+
+  /** Delete the checkpoint of a run */
+  delete(runId: string): Promise<void>;
+
+  /** List checkpoints, optionally for one workflow */
+  list(workflow?: string): Promise<WorkflowCheckpoint[]>;
+}
+
+/**
+ * Declarative workflow definition, loaded from JSON or YAML
+ * Handlers and agents are referenced by their name in a StepRegistry;
+ * conditions and branch selectors are expressions (see expression()).
+ */
+export interface WorkflowDefinition {
+  /** Workflow name */
+  name: string;
+  /** Description */
+  description?: string;
+  /** Timeout in ms */
+  timeout?: number;
+  /** Error handling strategy */
+  onError?: WorkflowConfig['onError'];
+  /** Execution mode */
+  mode?: WorkflowConfig['mode'];
+  /** Workflow entries */
+  steps: WorkflowEntryDefinition[];
+}
+
+/**
+ * Entry of a workflow definition
+ */
+export type WorkflowEntryDefinition =
+  | StepDefinition
+  | ParallelGroupDefinition
+  | BranchDefinition
+  | ApprovalDefinition;
+
+/**
+ * Step of a workflow definition; exactly one of handler, agent and workflow is set
+ */
+export interface StepDefinition {
+  /** Step name */
+  name: string;
+  /** Registered handler name */
+  handler?: string;
+  /** Registered agent name */
+  agent?: string;
+  /** Registered workflow name, run as a sub-workflow */
+  workflow?: string;
+  /** Registered input mapping function name, for agent and workflow steps */
+  input?: string;
+  /** Registered output mapping function name, for agent and workflow steps */
+  output?: string;
+  /** Condition expression */
+  condition?: string;
+  /** Registered error handler name */
+  onError?: string;
+  /** Registered compensation handler name */
+  compensate?: string;
+  /** Names of the steps this step depends on (graph mode) */
+  dependsOn?: string[];
+  /** Retry configuration for the handler; predicates cannot be declared */
+  retry?: Omit<RetryConfig, 'retryable'>;
+  /** Timeout per attempt in ms */
+  timeout?: number;
+}
+
+/**
+ * Parallel group of a workflow definition
+ */
+export interface ParallelGroupDefinition {
+  /** Group name */
+  name: string;
+  /** Branch steps */
+  parallel: StepDefinition[];
+  /** Built-in merge strategy or registered merge function name */
+  merge?: string;
+  /** Failure policy */
+  policy?: ParallelPolicy;
+  /** Condition expression */
+  condition?: string;
+  /** Names of the steps this group depends on (graph mode) */
+  dependsOn?: string[];
+}
+
+/**
+ * Branch node of a workflow definition
+ */
+export interface BranchDefinition {
+  /** Branch name */
+  name: string;
+  /** Case selector expression */
+  select: string;
+  /** Step names to run for each case */
+  cases: Record<string, string | string[]>;
+  /** Step names to run when no case matches */
+  default?: string | string[];
+  /** Names of the steps this branch depends on */
+  dependsOn?: string[];
+}
+
+/**
+ * Approval step of a workflow definition
+ */
+export interface ApprovalDefinition {
+  /** Step name */
+  name: string;
+  /** Approval settings */
+  approval: {
+    /** Registered payload function name */
+    payload?: string;
+    /** Who has to decide */
+    assignee?: string;
+    /** Time to decide in ms */
+    timeout?: number;
+    /** What happens when the deadline passes */
+    onTimeout?: ApprovalConfig['onTimeout'];
+    /** Who decides after an escalation */
+    escalateTo?: string;
+    /** Time to decide after an escalation */
+    escalationTimeout?: number;
+  };
+  /** Step names to run when approved (graph mode) */
+  approved?: string | string[];
+  /** Step names to run when rejected (graph mode) */
+  rejected?: string | string[];
+  /** Condition expression */
+  condition?: string;
+  /** Names of the steps this step depends on (graph mode) */
+  dependsOn?: string[];
+}
+
+/**
+ * Problem found in a workflow definition
+ */
+export interface DefinitionIssue {
+  /** Location in the document, e.g. steps[2].retry.maxAttempts */
+  path: string;
+  /** Description of the problem */
+  message: string;
+  /** Line in the source document, when parsed from text */
+  line?: number;
+  /** Column in the source document, when parsed from text */
+  column?: number;
+}
+
+/**
+ * Serialization format of a workflow definition
+ */
+export type DefinitionFormat = 'json' | 'yaml';
+
+/**
+ * W3C trace context of a span
+ */
+export interface TraceContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  /** Trace flags; 1 means sampled */
+  traceFlags: number;
+  /** Vendor-specific tracestate header value */
+  traceState?: string;
+}
+
+/**
+ * Span kind, as in OpenTelemetry
+ */
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+/**
+ * Span attribute values
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Span status, as in OpenTelemetry
+ */
+export interface SpanStatus {
+  code: 'unset' | 'ok' | 'error';
+  message?: string;
+}
+
+/**
+ * Finished span handed to exporters
+ */
+export interface SpanData {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  /** Span ID of the parent, absent on root spans */
+  parentSpanId?: string;
+  startTime: Date;
+  endTime: Date;
+  /** Duration in ms */
+  duration: number;
+  attributes: SpanAttributes;
+  events: Array<{ name: string; time: Date; attributes?: SpanAttributes }>;
+  status: SpanStatus;
+  /** Attributes of the traced service, such as service.name */
+  resource: SpanAttributes;
+}
+
+/**
+ * Receives finished spans, e.g. to send them to a tracing backend
+ */
+export interface ISpanExporter {
+  /** Export finished spans */
+  export(spans: SpanData[]): void | Promise<void>;
+  /** Flush and release resources */
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Field-level problem found by schema validation
+ */
+export interface ValidationIssue {
+  /** Field path, e.g. contacts[0].email; empty for the value itself */
+  path: string;
+  /** Description of the problem */
+  message: string;
+  /** zod issue code, e.g. 'invalid_type' */
+  code: string;
+}
+
+/**
+ * JSON Schema document
+ */
+export type JSONSchema = Record<string, any>;
+
+/**
+ * JSON Schemas of an agent's input and output, for API docs and LLM tool definitions
+ */
+export interface AgentSchemas {
+  name: string;
+  description?: string;
+  /** Input schema; absent when the agent declares none */
+  input?: JSONSchema;
+  /** Output schema; absent when the agent declares none */
+  output?: JSONSchema;
+}
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields of a log record
+ */
+export type LogFields = Record<string, any>;
+
+/**
+ * Structured logger
+ */
+export interface ILogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger adding fields to every record, e.g. the run ID */
+  child(fields: LogFields): ILogger;
+}
+
+/**
+ * Metric label values by label name
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Monotonic counter
+ */
+export interface ICounter {
+  /** Add value (default: 1) to the series with the given labels */
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+/**
+ * Histogram of observed values, such as durations in seconds
+ */
+export interface IHistogram {
+  /** Record a value in the series with the given labels */
+  observe(labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Registry metrics are recorded in
+ * Registering a name again returns the existing metric, so instrumented code can
+ * register metrics where it uses them.
+ */
+export interface IMetricsRegistry {
+  /** Register or get a counter */
+  counter(name: string, help: string, labelNames: string[]): ICounter;
+  /** Register or get a histogram */
+  histogram(name: string, help: string, labelNames: string[], buckets?: number[]): IHistogram;
 }
 
 /**
@@ -144,12 +980,33 @@ export type AgentEventType =
   | 'agent:start'
   | 'agent:complete'
   | 'agent:error'
+  | 'agent:cancelled'
   | 'step:start'
   | 'step:complete'
   | 'step:error'
+  | 'step:retry'
+  | 'group:start'
+  | 'group:complete'
+  | 'group:error'
   | 'workflow:start'
+  | 'workflow:resume'
   | 'workflow:complete'
-  | 'workflow:error';
+  | 'workflow:error'
+  | 'workflow:cancelled'
+  | 'workflow:suspended'
+  | 'approval:requested'
+  | 'approval:escalated'
+  | 'approval:approved'
+  | 'approval:rejected'
+  | 'circuit:open'
+  | 'circuit:half-open'
+  | 'circuit:closed'
+  | 'quota:low'
+  | 'rollback:start'
+  | 'rollback:complete'
+  | 'compensation:start'
+  | 'compensation:complete'
+  | 'compensation:error';
 
 /**
  * Agent event
@@ -163,6 +1020,12 @@ export interface AgentEvent<T = any> {
   data?: T;
   /** Error if applicable */
   error?: Error;
+  /** Workflow run or agent execution the event belongs to */
+  runId?: string;
+  /** Run of the parent workflow, on events forwarded from a child */
+  parentRunId?: string;
+  /** Parent step that ran the child, on events forwarded from a child */
+  parentStep?: string;
 }
 
 /**
@@ -187,7 +1050,7 @@ export interface ProviderConfig {
 /**
  * CRM provider types
  */
-export type CRMProvider = 'salesforce' | 'hubspot' | 'pipedrive' | 'custom';
+export type CRMProvider = 'salesforce' | 'hubspot' | 'pipedrive' | 'memory' | 'custom';
 
 /**
  * Email provider types
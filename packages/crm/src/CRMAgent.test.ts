@@ -0,0 +1,58 @@
+import { MetricsRegistry } from '@cognio/core';
+import { z } from 'zod';
+import { CRMAgent } from './CRMAgent';
+import { CRMProviderRegistry } from './ProviderRegistry';
+import { InMemoryProvider } from './providers/InMemoryProvider';
+
+describe('CRMAgent', () => {
+  afterEach(() => {
+    CRMProviderRegistry.default.unregister('acme');
+  });
+
+  it('uses a given provider instance under the configured name', async () => {
+    const provider = new InMemoryProvider();
+    const metrics = new MetricsRegistry();
+    const agent = new CRMAgent({ name: 'crm', crm: { provider: 'acme' }, provider, metrics });
+    await agent.initialize();
+
+    const lead = await agent.createLead({ email: 'jane@acme.com' });
+
+    expect((await provider.getLead(lead.id!)).email).toBe('jane@acme.com');
+    expect(metrics.getMetric('crm_operations_total')?.series).toContainEqual({
+      labels: { provider: 'acme', operation: 'createLead', status: 'success' },
+      value: 1
+    });
+  });
+
+  it('creates the provider from the given registry', async () => {
+    const provider = new InMemoryProvider();
+    const providers = new CRMProviderRegistry().register('acme', () => provider);
+    const agent = new CRMAgent({ name: 'crm', crm: { provider: 'acme' }, providers });
+    await agent.initialize();
+
+    const result = await agent.execute({ operation: 'createLead', data: { email: 'jane@acme.com' } });
+
+    expect(result.success).toBe(true);
+    expect((await provider.searchLeads({})).results).toHaveLength(1);
+  });
+
+  it('creates providers registered with the default registry', async () => {
+    CRMAgent.registerProvider('acme', config => new InMemoryProvider(config), {
+      optionsSchema: z.object({ region: z.string() }).strict()
+    });
+
+    const agent = new CRMAgent({ name: 'crm', crm: { provider: 'acme', options: { region: 'eu' } } });
+    await agent.initialize();
+
+    expect(await agent.createLead({ email: 'jane@acme.com' })).toMatchObject({ provider: 'memory' });
+    expect(() => CRMAgent.registerProvider('acme', config => new InMemoryProvider(config)))
+      .toThrow(expect.objectContaining({ code: 'DUPLICATE_REGISTRATION' }));
+  });
+
+  it('fails on construction with invalid provider options or an unknown provider', () => {
+    expect(() => new CRMAgent({ name: 'crm', crm: { provider: 'memory', options: { latency: -1 } } }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_CONFIG', provider: 'memory' }));
+    expect(() => new CRMAgent({ name: 'crm', crm: { provider: 'acme' } }))
+      .toThrow(expect.objectContaining({ code: 'UNKNOWN_PROVIDER' }));
+  });
+});
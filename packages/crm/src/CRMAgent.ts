@@ -3,7 +3,7 @@
  * Main agent class for CRM operations
  */
 
-import { BaseAgent, AgentContext, AgentConfig, Lead, Contact } from '@cognio/core';
+import { BaseAgent, AgentContext, AgentConfig, Lead, Contact, isRetryableError } from '@cognio/core';
 import {
   CRMConfig,
   ICRMProvider,
@@ -13,16 +13,29 @@ import {
   Account,
   SearchCriteria,
   SearchResult,
-  CRMError
+  CRMRequestOptions,
+  CRMQuota,
+  CRMError,
+  CRMProviderFactory,
+  CRMProviderRegistration,
+  CRM_FATAL_ERROR_CODES
 } from './types';
-import { SalesforceProvider } from './providers/SalesforceProvider';
+import { CRMProviderRegistry } from './ProviderRegistry';
+import { RateLimitedProvider } from './providers/RateLimitedProvider';
+import { TracingProvider } from './providers/TracingProvider';
+import { MetricsProvider } from './providers/MetricsProvider';
+import { RateLimiter } from './RateLimiter';
 
 /**
  * CRM Agent configuration
  */
 export interface CRMAgentConfig extends AgentConfig {
-  /** CRM configuration */
+  /** CRM configuration; with a provider instance, it names the provider and sets the rate limit */
   crm: CRMConfig;
+  /** Provider to use instead of creating one from the CRM configuration */
+  provider?: ICRMProvider;
+  /** Registry the provider is created from (default: CRMProviderRegistry.default) */
+  providers?: CRMProviderRegistry;
 }
 
 /**
@@ -36,6 +49,8 @@ export interface CRMOperationInput {
              'createAccount' | 'getAccount';
   /** Operation data */
   data: any;
+  /** Queue priority under rate limiting, higher runs first */
+  priority?: number;
 }
 
 /**
@@ -43,68 +58,127 @@ export interface CRMOperationInput {
  */
 export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   private provider: ICRMProvider;
+  private crmConfig: CRMConfig;
 
   constructor(config: CRMAgentConfig) {
     super({
       description: 'CRM integration agent',
       ...config
     });
+    this.crmConfig = config.crm;
+
+    // Use the given provider or create one (validating its options), measured and traced
+    // per operation and throttled by the limiter shared with other agents on the same org
+    this.provider = new TracingProvider(
+      new MetricsProvider(
+        config.provider ?? (config.providers ?? CRMProviderRegistry.default).create(config.crm),
+        config.crm.provider,
+        config.metrics
+      ),
+      config.crm.provider,
+      config.tracer
+    );
+    if (config.crm.rateLimit) {
+      this.provider = new RateLimitedProvider(this.provider, RateLimiter.shared(config.crm));
+    }
+  }
 
-    // Create provider
-    this.provider = this.createProvider(config.crm);
+  /**
+   * Register a provider with the default registry, making it available to every CRMAgent
+   */
+  static registerProvider(
+    name: string,
+    factory: CRMProviderFactory,
+    options?: Pick<CRMProviderRegistration, 'optionsSchema' | 'description'>
+  ): void {
+    CRMProviderRegistry.default.register(name, factory, options);
   }
 
   /**
    * Initialize provider
    */
   async initialize(): Promise<void> {
+    // Credentials in the configuration are redacted by the logger
+    this.getLogger().debug('Initializing CRM provider', { crm: this.crmConfig });
     await this.provider.initialize();
     await super.initialize();
   }
 
+  /**
+   * Validation failures reported by the CRM are not retried
+   */
+  protected isRetryable(error: Error, attempt: number): boolean {
+    const retry = this.config.retry!;
+    return isRetryableError(error, attempt, {
+      ...retry,
+      fatalCodes: [...CRM_FATAL_ERROR_CODES, ...(retry.fatalCodes || [])]
+    });
+  }
+
   /**
    * Execute CRM operation
    */
   protected async run(context: AgentContext<CRMOperationInput>): Promise<any> {
-    const { operation, data } = context.data;
+    const { operation, data, priority } = context.data;
+    const logger = context.logger?.child({ provider: this.crmConfig.provider, operation });
+    const options: CRMRequestOptions = { signal: context.signal, priority, trace: context.trace, logger };
+
+    logger?.debug('CRM operation started');
+    try {
+      const result = await this.runOperation(operation, data, options);
+      logger?.debug('CRM operation completed');
+      return result;
+    } catch (error) {
+      logger?.warn('CRM operation failed', { error });
+      throw error;
+    }
+  }
 
+  /**
+   * Run an operation on the provider
+   */
+  private async runOperation(
+    operation: CRMOperationInput['operation'],
+    data: any,
+    options: CRMRequestOptions
+  ): Promise<any> {
     switch (operation) {
       case 'createLead':
-        return this.provider.createLead(data);
+        return this.provider.createLead(data, options);
 
       case 'getLead':
-        return this.provider.getLead(data.id);
+        return this.provider.getLead(data.id, options);
 
       case 'updateLead':
-        return this.provider.updateLead(data.id, data.updates);
+        return this.provider.updateLead(data.id, data.updates, options);
 
       case 'deleteLead':
-        await this.provider.deleteLead(data.id);
+        await this.provider.deleteLead(data.id, options);
         return { success: true };
 
       case 'searchLeads':
-        return this.provider.searchLeads(data);
+        return this.provider.searchLeads(data, options);
 
       case 'createContact':
-        return this.provider.createContact(data);
+        return this.provider.createContact(data, options);
 
       case 'getContact':
-        return this.provider.getContact(data.id);
+        return this.provider.getContact(data.id, options);
 
       case 'updateContact':
-        return this.provider.updateContact(data.id, data.updates);
+        return this.provider.updateContact(data.id, data.updates, options);
 
       case 'createOpportunity':
-        return this.provider.createOpportunity(data);
+        return this.provider.createOpportunity(data, options);
 
       case 'getOpportunity':
-        return this.provider.getOpportunity(data.id);
+        return this.provider.getOpportunity(data.id, options);
 
       case 'createAccount':
-        return this.provider.createAccount(data);
+        return this.provider.createAccount(data, options);
 
       case 'getAccount':
-        return this.provider.getAccount(data.id);
+        return this.provider.getAccount(data.id, options);
 
       default:
         throw new CRMError(
@@ -117,10 +191,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Create lead
    */
-  async createLead(lead: Lead): Promise<CRMLead> {
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
     const result = await this.execute({
       operation: 'createLead',
-      data: lead
+      data: lead,
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -133,10 +213,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Get lead
    */
-  async getLead(id: string): Promise<CRMLead> {
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
     const result = await this.execute({
       operation: 'getLead',
-      data: { id }
+      data: { id },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -149,10 +235,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Update lead
    */
-  async updateLead(id: string, updates: Partial<Lead>): Promise<CRMLead> {
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
     const result = await this.execute({
       operation: 'updateLead',
-      data: { id, updates }
+      data: { id, updates },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -165,10 +257,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Delete lead
    */
-  async deleteLead(id: string): Promise<void> {
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
     const result = await this.execute({
       operation: 'deleteLead',
-      data: { id }
+      data: { id },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -179,10 +277,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Search leads
    */
-  async searchLeads(criteria: SearchCriteria): Promise<SearchResult<CRMLead>> {
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
     const result = await this.execute({
       operation: 'searchLeads',
-      data: criteria
+      data: criteria,
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -195,10 +299,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Create contact
    */
-  async createContact(contact: Contact): Promise<CRMContact> {
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
     const result = await this.execute({
       operation: 'createContact',
-      data: contact
+      data: contact,
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -211,10 +321,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Get contact
    */
-  async getContact(id: string): Promise<CRMContact> {
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
     const result = await this.execute({
       operation: 'getContact',
-      data: { id }
+      data: { id },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -227,10 +343,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Update contact
    */
-  async updateContact(id: string, updates: Partial<Contact>): Promise<CRMContact> {
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
     const result = await this.execute({
       operation: 'updateContact',
-      data: { id, updates }
+      data: { id, updates },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -243,10 +365,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Create opportunity
    */
-  async createOpportunity(opportunity: Opportunity): Promise<Opportunity> {
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
     const result = await this.execute({
       operation: 'createOpportunity',
-      data: opportunity
+      data: opportunity,
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -259,10 +387,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Get opportunity
    */
-  async getOpportunity(id: string): Promise<Opportunity> {
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
     const result = await this.execute({
       operation: 'getOpportunity',
-      data: { id }
+      data: { id },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -275,10 +409,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Create account
    */
-  async createAccount(account: Account): Promise<Account> {
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
     const result = await this.execute({
       operation: 'createAccount',
-      data: account
+      data: account,
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -291,10 +431,16 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   /**
    * Convenience method: Get account
    */
-  async getAccount(id: string): Promise<Account> {
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
     const result = await this.execute({
       operation: 'getAccount',
-      data: { id }
+      data: { id },
+      priority: options?.priority
+    }, {
+      signal: options?.signal,
+      trace: options?.trace,
+      logger: options?.logger,
+      idempotencyKey: options?.idempotencyKey
     });
 
     if (!result.success) {
@@ -305,27 +451,11 @@ export class CRMAgent extends BaseAgent<CRMOperationInput, any> {
   }
 
   /**
-   * Create provider based on configuration
+   * Last API quota reported by the CRM
+   * Workflows can check it to defer non-urgent work before the hard limit is hit.
    */
-  private createProvider(config: CRMConfig): ICRMProvider {
-    switch (config.provider) {
-      case 'salesforce':
-        return new SalesforceProvider(config);
-
-      case 'hubspot':
-        // TODO: Implement HubSpot provider
-        throw new CRMError('HubSpot provider not implemented yet', 'NOT_IMPLEMENTED');
-
-      case 'pipedrive':
-        // TODO: Implement Pipedrive provider
-        throw new CRMError('Pipedrive provider not implemented yet', 'NOT_IMPLEMENTED');
-
-      default:
-        throw new CRMError(
-          `Unknown CRM provider: ${config.provider}`,
-          'UNKNOWN_PROVIDER'
-        );
-    }
+  getQuota(): CRMQuota | undefined {
+    return this.provider.getQuota?.();
   }
 
   /**
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { CRMProviderRegistry } from './ProviderRegistry';
+import { InMemoryProvider } from './providers/InMemoryProvider';
+import { CRMConfig, CRMError } from './types';
+
+function errorOf(action: () => unknown): CRMError {
+  try {
+    action();
+  } catch (error) {
+    return error as CRMError;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('CRMProviderRegistry', () => {
+  let registry: CRMProviderRegistry;
+
+  beforeEach(() => {
+    registry = new CRMProviderRegistry();
+  });
+
+  it('holds the built-in providers by default', () => {
+    expect(CRMProviderRegistry.default.list().map(registration => registration.name))
+      .toEqual(expect.arrayContaining(['salesforce', 'hubspot', 'pipedrive', 'memory', 'custom']));
+    expect(registry.list()).toEqual([]);
+  });
+
+  it('creates a registered provider with its configuration', () => {
+    const factory = jest.fn((config: CRMConfig) => new InMemoryProvider(config));
+    registry.register('acme', factory, { description: 'Acme CRM' });
+
+    const provider = registry.create({ provider: 'acme', apiKey: 'key' });
+
+    expect(provider).toBeInstanceOf(InMemoryProvider);
+    expect(factory).toHaveBeenCalledWith({ provider: 'acme', apiKey: 'key' });
+    expect(registry.get('acme')).toMatchObject({ name: 'acme', description: 'Acme CRM' });
+  });
+
+  it('rejects a second registration of a name until it is unregistered', () => {
+    registry.register('acme', config => new InMemoryProvider(config));
+
+    expect(errorOf(() => registry.register('acme', config => new InMemoryProvider(config)))).toMatchObject({
+      code: 'DUPLICATE_REGISTRATION',
+      provider: 'acme'
+    });
+    expect(errorOf(() => registry.register('', config => new InMemoryProvider(config))).code)
+      .toBe('INVALID_REGISTRATION');
+
+    expect(registry.unregister('acme')).toBe(true);
+    registry.register('acme', config => new InMemoryProvider(config));
+    expect(registry.has('acme')).toBe(true);
+  });
+
+  it('rejects unknown providers, listing the registered ones', () => {
+    registry.register('acme', config => new InMemoryProvider(config));
+
+    expect(errorOf(() => registry.create({ provider: 'zoho' }))).toMatchObject({
+      code: 'UNKNOWN_PROVIDER',
+      details: { registered: ['acme'] }
+    });
+  });
+
+  it('validates options with the provider schema before creating it', () => {
+    const factory = jest.fn((config: CRMConfig) => new InMemoryProvider(config));
+    registry.register('acme', factory, {
+      optionsSchema: z.object({ region: z.enum(['eu', 'us']), pageSize: z.number().int().optional() }).strict()
+    });
+
+    const error = errorOf(() => registry.create({ provider: 'acme', options: { region: 'apac', page: 1 } }));
+
+    expect(error).toBeInstanceOf(CRMError);
+    expect(error).toMatchObject({ code: 'INVALID_CONFIG', provider: 'acme' });
+    expect(error.details.issues).toEqual([
+      expect.objectContaining({ path: 'region', code: 'invalid_enum_value' }),
+      expect.objectContaining({ path: '', code: 'unrecognized_keys' })
+    ]);
+    expect(error.message).toMatch(/^Invalid acme provider options:\n {2}region: /);
+    expect(factory).not.toHaveBeenCalled();
+    expect(() => registry.validate({ provider: 'acme', options: { region: 'eu' } })).not.toThrow();
+  });
+
+  it('validates the options of the built-in providers', () => {
+    expect(errorOf(() => CRMProviderRegistry.default.validate({
+      provider: 'hubspot',
+      options: { properties: 'lead_rating' }
+    }))).toMatchObject({ code: 'INVALID_CONFIG', details: { issues: [expect.objectContaining({ path: 'properties' })] } });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * CRM Provider Registry
+ * Providers that CRMAgent creates by name
+ */
+
+import { toValidationIssues } from '@cognio/core';
+import {
+  CRMConfig,
+  CRMError,
+  CRMProviderFactory,
+  CRMProviderRegistration,
+  ICRMProvider
+} from './types';
+import { SalesforceProvider } from './providers/SalesforceProvider';
+import { HubSpotProvider } from './providers/HubSpotProvider';
+import { PipedriveProvider } from './providers/PipedriveProvider';
+import { InMemoryProvider } from './providers/InMemoryProvider';
+import { RestProvider } from './providers/RestProvider';
+import {
+  salesforceOptionsSchema,
+  hubSpotOptionsSchema,
+  pipedriveOptionsSchema,
+  inMemoryOptionsSchema,
+  restOptionsSchema
+} from './schemas';
+
+/**
+ * Registry of CRM providers by name
+ *
+ * CRMAgent creates its provider from the default registry, which holds the built-in
+ * providers; providers registered there are available to every agent. A provider's
+ * options schema is checked when the provider is created, so invalid options fail
+ * when the agent is constructed rather than on its first call.
+ */
+export class CRMProviderRegistry {
+  /** Registry used by CRMAgent unless it is given another */
+  static readonly default: CRMProviderRegistry = CRMProviderRegistry.withBuiltIns();
+
+  private registrations: Map<string, CRMProviderRegistration> = new Map();
+
+  /**
+   * Registry with the built-in providers
+   */
+  static withBuiltIns(): CRMProviderRegistry {
+    return new CRMProviderRegistry()
+      .register('salesforce', config => new SalesforceProvider(config), {
+        optionsSchema: salesforceOptionsSchema,
+        description: 'Salesforce CRM provider'
+      })
+      .register('hubspot', config => new HubSpotProvider(config), {
+        optionsSchema: hubSpotOptionsSchema,
+        description: 'HubSpot CRM provider'
+      })
+      .register('pipedrive', config => new PipedriveProvider(config), {
+        optionsSchema: pipedriveOptionsSchema,
+        description: 'Pipedrive CRM provider'
+      })
+      .register('memory', config => new InMemoryProvider(config), {
+        optionsSchema: inMemoryOptionsSchema,
+        description: 'In-memory CRM provider'
+      })
+      .register('custom', config => new RestProvider(config), {
+        optionsSchema: restOptionsSchema,
+        description: 'Config-driven REST CRM provider'
+      });
+  }
+
+  /**
+   * Register a provider
+   * Names are unique; unregister a provider before replacing it.
+   */
+  register(
+    name: string,
+    factory: CRMProviderFactory,
+    options: Pick<CRMProviderRegistration, 'optionsSchema' | 'description'> = {}
+  ): this {
+    if (!name || typeof factory !== 'function') {
+      throw new CRMError('A provider needs a name and a factory', 'INVALID_REGISTRATION', name);
+    }
+    if (this.registrations.has(name)) {
+      throw new CRMError(`CRM provider already registered: ${name}`, 'DUPLICATE_REGISTRATION', name);
+    }
+
+    this.registrations.set(name, { name, factory, ...options });
+    return this;
+  }
+
+  /**
+   * Remove a provider
+   */
+  unregister(name: string): boolean {
+    return this.registrations.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.registrations.has(name);
+  }
+
+  get(name: string): CRMProviderRegistration | undefined {
+    return this.registrations.get(name);
+  }
+
+  /**
+   * Registered providers, in registration order
+   */
+  list(): CRMProviderRegistration[] {
+    return [...this.registrations.values()];
+  }
+
+  /**
+   * Check that a configuration names a registered provider and has valid options
+   */
+  validate(config: CRMConfig): void {
+    const registration = this.registration(config);
+    if (!registration.optionsSchema) {
+      return;
+    }
+
+    const result = registration.optionsSchema.safeParse(config.options ?? {});
+    if (!result.success) {
+      const issues = toValidationIssues(result.error);
+      const lines = issues.map(issue => `  ${issue.path || '<root>'}: ${issue.message}`);
+      throw new CRMError(
+        `Invalid ${config.provider} provider options:\n${lines.join('\n')}`,
+        'INVALID_CONFIG',
+        config.provider,
+        { issues }
+      );
+    }
+  }
+
+  /**
+   * Create the provider of a configuration, after validating its options
+   */
+  create(config: CRMConfig): ICRMProvider {
+    this.validate(config);
+    return this.registration(config).factory(config);
+  }
+
+  private registration(config: CRMConfig): CRMProviderRegistration {
+    const registration = config?.provider ? this.registrations.get(config.provider) : undefined;
+    if (!registration) {
+      throw new CRMError(
+        `Unknown CRM provider: ${config?.provider}`,
+        'UNKNOWN_PROVIDER',
+        config?.provider,
+        { registered: [...this.registrations.keys()] }
+      );
+    }
+    return registration;
+  }
+}
@@ -0,0 +1,127 @@
+import { AgentEvent } from '@cognio/core';
+import { RateLimiter } from './RateLimiter';
+import { CRMQuota } from './types';
+
+/** Promise resolved from outside */
+function deferred<T = void>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+function quota(remaining: number): CRMQuota {
+  return { used: 100 - remaining, limit: 100, remaining, updatedAt: new Date() };
+}
+
+describe('RateLimiter', () => {
+  it('lets a burst through and spaces later requests at the sustained rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 2 });
+    const started: number[] = [];
+    const startTime = Date.now();
+
+    await Promise.all([1, 2, 3, 4].map(() => limiter.schedule(async () => {
+      started.push(Date.now() - startTime);
+    })));
+
+    expect(started[1]).toBeLessThan(40);
+    expect(started[2]).toBeGreaterThanOrEqual(45);
+    expect(started[3]).toBeGreaterThanOrEqual(95);
+  });
+
+  it('caps concurrent requests', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const first = deferred();
+
+    const running = limiter.schedule(() => first.promise);
+    const queued = limiter.schedule(async () => 'second');
+
+    expect(limiter.getStats()).toMatchObject({ queued: 1, running: 1 });
+    first.resolve();
+    await expect(queued).resolves.toBe('second');
+    await running;
+  });
+
+  it('starts queued requests by priority, in order within a priority', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const first = deferred();
+    const order: string[] = [];
+
+    const requests = [
+      limiter.schedule(() => first.promise),
+      limiter.schedule(async () => { order.push('low'); }),
+      limiter.schedule(async () => { order.push('high'); }, { priority: 5 }),
+      limiter.schedule(async () => { order.push('high again'); }, { priority: 5 })
+    ];
+    first.resolve();
+    await Promise.all(requests);
+
+    expect(order).toEqual(['high', 'high again', 'low']);
+  });
+
+  it('holds the quota reserve back for requests with a positive priority', async () => {
+    const limiter = new RateLimiter({ quotaReserve: 10 });
+    const events: AgentEvent[] = [];
+    limiter.onEvent(event => { events.push(event); });
+
+    limiter.updateQuota(quota(50));
+    limiter.updateQuota(quota(10));
+    limiter.updateQuota(quota(8));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'quota:low', data: { quota: { remaining: 10 } } });
+    await expect(limiter.schedule(async () => 'sent')).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    await expect(limiter.schedule(async () => 'sent', { priority: 1 })).resolves.toBe('sent');
+  });
+
+  it('rejects requests once the queue is full', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, maxQueue: 1 });
+    const first = deferred();
+
+    const running = limiter.schedule(() => first.promise);
+    const queued = limiter.schedule(async () => 'queued');
+
+    await expect(limiter.schedule(async () => 'rejected')).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    first.resolve();
+    await expect(queued).resolves.toBe('queued');
+    await running;
+  });
+
+  it('drops an aborted request from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const first = deferred();
+    const controller = new AbortController();
+    const fn = jest.fn(async () => 'sent');
+
+    const running = limiter.schedule(() => first.promise);
+    const queued = limiter.schedule(fn, { signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(limiter.getStats().queued).toBe(0);
+    first.resolve();
+    await running;
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('rejects queued requests when cleared', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const first = deferred();
+
+    const running = limiter.schedule(() => first.promise);
+    const queued = limiter.schedule(async () => 'queued');
+    limiter.clear();
+
+    await expect(queued).rejects.toMatchObject({ code: 'CANCELLED' });
+    first.resolve();
+    await running;
+  });
+
+  it('shares a limiter between providers of the same org', () => {
+    const config = { provider: 'salesforce', options: { loginUrl: 'https://acme.my.salesforce.com' } };
+
+    expect(RateLimiter.keyFor(config)).toBe('salesforce:https://acme.my.salesforce.com');
+    expect(RateLimiter.shared(config)).toBe(RateLimiter.shared({ ...config }));
+    expect(RateLimiter.shared(config)).not.toBe(RateLimiter.shared({ provider: 'hubspot', apiKey: 'secret' }));
+    expect(RateLimiter.keyFor({ provider: 'hubspot', apiKey: 'secret' })).not.toContain('secret');
+  });
+});
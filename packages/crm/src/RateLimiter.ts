@@ -0,0 +1,249 @@
+/**
+ * Rate Limiter
+ * Client-side throttling of CRM requests with API quota tracking
+ */
+
+import { createHash } from 'crypto';
+import { EventEmitter } from 'eventemitter3';
+import { AgentEvent, EventListener, abortReason } from '@cognio/core';
+import { CRMConfig, CRMQuota, CRMRequestOptions, RateLimitConfig, CRMError } from './types';
+
+interface QueuedRequest {
+  priority: number;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+/** Limiters shared by providers talking to the same org */
+const sharedLimiters: Map<string, RateLimiter> = new Map();
+
+/**
+ * Token bucket limiter with a concurrency cap and a priority queue
+ *
+ * Each request takes a token; tokens refill at requestsPerSecond up to burst.
+ * Requests that find no token or no free slot wait in the queue, highest
+ * priority first. Once the tracked quota drops to quotaReserve, requests without
+ * a positive priority fail with a CRMError coded 'QUOTA_EXCEEDED'.
+ */
+export class RateLimiter extends EventEmitter {
+  private config: RateLimitConfig;
+  private tokens: number;
+  private refilledAt: number = Date.now();
+  private running: number = 0;
+  private queue: QueuedRequest[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private quota?: CRMQuota;
+
+  constructor(config: RateLimitConfig = {}) {
+    super();
+    this.config = {
+      quotaReserve: 0,
+      ...config,
+      burst: config.burst ?? config.requestsPerSecond
+    };
+    this.tokens = this.capacity();
+  }
+
+  /**
+   * Limiter shared by every provider with the same key
+   * The configuration of the first caller creates the limiter.
+   */
+  static shared(config: CRMConfig): RateLimiter {
+    const key = config.rateLimit?.key || RateLimiter.keyFor(config);
+    let limiter = sharedLimiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter({ ...config.rateLimit, key });
+      sharedLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Default limiter key: provider and org
+   * Access tokens are hashed, so the key can be logged.
+   */
+  static keyFor(config: CRMConfig): string {
+    const org = config.endpoint ||
+      config.options?.loginUrl ||
+      config.oauth?.clientId ||
+      (config.apiKey?.includes(':') ? config.apiKey.split(':')[0] : undefined) ||
+      (config.apiKey && createHash('sha256').update(config.apiKey).digest('hex').slice(0, 12)) ||
+      'default';
+    return `${config.provider}:${org}`;
+  }
+
+  /**
+   * Run a request once a token and a concurrency slot are available
+   */
+  schedule<T>(fn: () => Promise<T>, options: CRMRequestOptions = {}): Promise<T> {
+    const priority = options.priority || 0;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    if (this.quota && priority <= 0 && this.quota.remaining <= this.config.quotaReserve!) {
+      return Promise.reject(new CRMError(
+        `API quota reserve reached: ${this.quota.remaining} of ${this.quota.limit} requests left`,
+        'QUOTA_EXCEEDED',
+        undefined,
+        { key: this.config.key, quota: this.quota }
+      ));
+    }
+
+    if (this.config.maxQueue !== undefined && this.queue.length >= this.config.maxQueue) {
+      return Promise.reject(new CRMError(
+        'Rate limit queue is full',
+        'RATE_LIMITED',
+        undefined,
+        { key: this.config.key, queued: this.queue.length }
+      ));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== request);
+        reject(abortReason(signal!));
+      };
+
+      const request: QueuedRequest = {
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          Promise.resolve()
+            .then(fn)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.drain();
+            });
+        },
+        reject
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(request);
+      this.drain();
+    });
+  }
+
+  /**
+   * Record the quota reported by the CRM
+   * Emits 'quota:low' when the remaining quota first drops to the reserve.
+   */
+  updateQuota(quota: CRMQuota): void {
+    const reserve = this.config.quotaReserve!;
+    const wasLow = this.quota !== undefined && this.quota.remaining <= reserve;
+    this.quota = quota;
+
+    if (!wasLow && quota.remaining <= reserve) {
+      this.emitEvent({
+        type: 'quota:low',
+        timestamp: new Date(),
+        data: { key: this.config.key, quota }
+      });
+    }
+  }
+
+  /**
+   * Last recorded quota
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.quota;
+  }
+
+  /**
+   * Queued and running requests
+   */
+  getStats(): { queued: number; running: number; tokens: number } {
+    this.refill();
+    return { queued: this.queue.length, running: this.running, tokens: this.tokens };
+  }
+
+  /**
+   * Reject every queued request
+   */
+  clear(): void {
+    const queued = this.queue;
+    this.queue = [];
+    for (const request of queued) {
+      request.reject(new CRMError('Rate limiter cleared', 'CANCELLED', undefined, { key: this.config.key }));
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Add event listener
+   */
+  onEvent(listener: EventListener): void {
+    this.on('event', listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  offEvent(listener: EventListener): void {
+    this.off('event', listener);
+  }
+
+  /**
+   * Insert a request behind those of equal or higher priority
+   */
+  private enqueue(request: QueuedRequest): void {
+    const index = this.queue.findIndex(queued => queued.priority < request.priority);
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
+    }
+  }
+
+  /**
+   * Start queued requests while tokens and slots allow
+   */
+  private drain(): void {
+    this.refill();
+    const maxConcurrent = this.config.maxConcurrent ?? Infinity;
+
+    while (this.queue.length > 0 && this.running < maxConcurrent && this.tokens >= 1) {
+      const request = this.queue.shift()!;
+      this.tokens--;
+      this.running++;
+      request.start();
+    }
+
+    // Wake up when the next token is due; freed slots call drain() themselves
+    if (this.queue.length > 0 && this.tokens < 1 && !this.timer) {
+      const wait = ((1 - this.tokens) / this.config.requestsPerSecond!) * 1000;
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, Math.ceil(wait));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.config.requestsPerSecond) {
+      const refilled = ((now - this.refilledAt) / 1000) * this.config.requestsPerSecond;
+      this.tokens = Math.min(this.capacity(), this.tokens + refilled);
+    }
+    this.refilledAt = now;
+  }
+
+  private capacity(): number {
+    return this.config.requestsPerSecond ? Math.max(1, this.config.burst!) : Infinity;
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  private emitEvent(event: AgentEvent): void {
+    this.emit('event', event);
+    this.emit(event.type, event);
+  }
+}
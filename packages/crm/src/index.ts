@@ -10,6 +10,30 @@ export type { CRMAgentConfig, CRMOperationInput } from './CRMAgent';
 // Providers
 export { BaseCRMProvider } from './providers/BaseCRMProvider';
 export { SalesforceProvider } from './providers/SalesforceProvider';
+export { HubSpotProvider } from './providers/HubSpotProvider';
+export { PipedriveProvider } from './providers/PipedriveProvider';
+export { InMemoryProvider } from './providers/InMemoryProvider';
+export { RestProvider } from './providers/RestProvider';
+export { CircuitBreakerProvider } from './providers/CircuitBreakerProvider';
+export { RateLimitedProvider } from './providers/RateLimitedProvider';
+export { TracingProvider } from './providers/TracingProvider';
+export { MetricsProvider } from './providers/MetricsProvider';
+
+// Provider registry
+export { CRMProviderRegistry } from './ProviderRegistry';
+export {
+  salesforceOptionsSchema,
+  hubSpotOptionsSchema,
+  pipedriveOptionsSchema,
+  inMemoryOptionsSchema,
+  restOptionsSchema
+} from './schemas';
+
+// Registry plugin
+export { crmPlugin } from './plugin';
+
+// Rate limiting
+export { RateLimiter } from './RateLimiter';
 
 // Types
 export * from './types';
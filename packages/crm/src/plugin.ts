@@ -0,0 +1,28 @@
+/**
+ * CRM Plugin
+ * Registers the CRM providers with an AgentRegistry
+ */
+
+import type { AgentPlugin } from '@cognio/core';
+import { CRMProviderRegistry } from './ProviderRegistry';
+import { CRMConfig } from './types';
+
+/**
+ * Plugin registering the CRM providers, loaded by AgentRegistry.loadPlugins()
+ * Providers are those of the default CRMProviderRegistry when the plugin registers;
+ * their options are validated as they are created.
+ */
+export const crmPlugin: AgentPlugin = {
+  name: '@cognio/crm',
+  register(registry) {
+    for (const { name, description } of CRMProviderRegistry.default.list()) {
+      registry.registerProvider(
+        name,
+        (config: Omit<CRMConfig, 'provider'>) => CRMProviderRegistry.default.create({ ...config, provider: name }),
+        { description: description || `${name} CRM provider` }
+      );
+    }
+  }
+};
+
+export default crmPlugin;
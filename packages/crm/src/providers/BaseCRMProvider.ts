@@ -11,9 +11,15 @@ import {
   Account,
   SearchCriteria,
   SearchResult,
+  CRMRequestOptions,
+  CRMQuota,
   CRMError
 } from '../types';
-import { Lead, Contact } from '@cognio/core';
+import { Lead, Contact, AgentError, raceAbort } from '@cognio/core';
+import type { RateLimiter } from '../RateLimiter';
+
+/** Codes of the CRMErrors a rate limiter rejects requests with */
+const LIMITER_CODES = ['RATE_LIMITED', 'QUOTA_EXCEEDED'];
 
 /**
  * Abstract base class for CRM providers
@@ -21,6 +27,7 @@ import { Lead, Contact } from '@cognio/core';
 export abstract class BaseCRMProvider implements ICRMProvider {
   protected config: CRMConfig;
   protected initialized: boolean = false;
+  private limiter?: RateLimiter;
 
   constructor(config: CRMConfig) {
     this.config = config;
@@ -34,62 +41,69 @@ export abstract class BaseCRMProvider implements ICRMProvider {
   /**
    * Create lead
    */
-  abstract createLead(lead: Lead): Promise<CRMLead>;
+  abstract createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead>;
 
   /**
    * Get lead by ID
    */
-  abstract getLead(id: string): Promise<CRMLead>;
+  abstract getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead>;
 
   /**
    * Update lead
    */
-  abstract updateLead(id: string, updates: Partial<Lead>): Promise<CRMLead>;
+  abstract updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead>;
 
   /**
    * Delete lead
    */
-  abstract deleteLead(id: string): Promise<void>;
+  abstract deleteLead(id: string, options?: CRMRequestOptions): Promise<void>;
 
   /**
    * Search leads
    */
-  abstract searchLeads(criteria: SearchCriteria): Promise<SearchResult<CRMLead>>;
+  abstract searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>>;
 
   /**
    * Create contact
    */
-  abstract createContact(contact: Contact): Promise<CRMContact>;
+  abstract createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact>;
 
   /**
    * Get contact by ID
    */
-  abstract getContact(id: string): Promise<CRMContact>;
+  abstract getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact>;
 
   /**
    * Update contact
    */
-  abstract updateContact(id: string, updates: Partial<Contact>): Promise<CRMContact>;
+  abstract updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact>;
 
   /**
    * Create opportunity
    */
-  abstract createOpportunity(opportunity: Opportunity): Promise<Opportunity>;
+  abstract createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity>;
 
   /**
    * Get opportunity by ID
    */
-  abstract getOpportunity(id: string): Promise<Opportunity>;
+  abstract getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity>;
 
   /**
    * Create account
    */
-  abstract createAccount(account: Account): Promise<Account>;
+  abstract createAccount(account: Account, options?: CRMRequestOptions): Promise<Account>;
 
   /**
    * Get account by ID
    */
-  abstract getAccount(id: string): Promise<Account>;
+  abstract getAccount(id: string, options?: CRMRequestOptions): Promise<Account>;
+
+  /**
+   * Last API quota reported by the CRM; none unless the provider reads it
+   */
+  getQuota(): CRMQuota | undefined {
+    return undefined;
+  }
 
   /**
    * Close provider
@@ -98,6 +112,14 @@ export abstract class BaseCRMProvider implements ICRMProvider {
     this.initialized = false;
   }
 
+  /**
+   * Take a token from the limiter for every API request the provider sends
+   */
+  useRateLimiter(limiter: RateLimiter | undefined): boolean {
+    this.limiter = limiter;
+    return true;
+  }
+
   /**
    * Ensure provider is initialized
    */
@@ -111,6 +133,47 @@ export abstract class BaseCRMProvider implements ICRMProvider {
     }
   }
 
+  /**
+   * Await a provider call, rejecting as soon as the request is cancelled
+   */
+  protected withSignal<T>(operation: PromiseLike<T>, options?: CRMRequestOptions): Promise<T> {
+    return raceAbort(Promise.resolve(operation), options?.signal);
+  }
+
+  /**
+   * Send one API request, through the rate limiter when there is one
+   * The quota the provider reports afterwards is recorded on the limiter.
+   */
+  protected throttle<T>(request: () => PromiseLike<T>, options?: CRMRequestOptions): Promise<T> {
+    const limiter = this.limiter;
+    if (!limiter) {
+      return this.withSignal(request(), options);
+    }
+
+    return limiter.schedule(async () => {
+      try {
+        return await this.withSignal(request(), options);
+      } finally {
+        const quota = this.getQuota();
+        if (quota) {
+          limiter.updateQuota(quota);
+        }
+      }
+    }, options);
+  }
+
+  /**
+   * Wrap a failed provider call in a CRMError
+   * Cancellations and timeouts (AgentErrors from the signal) and rate limiter
+   * rejections pass through unchanged.
+   */
+  protected wrapError(error: any, message: string, code: string): Error {
+    if (error instanceof AgentError || LIMITER_CODES.includes(error?.code)) {
+      return error;
+    }
+    return new CRMError(message, code, this.config.provider, error);
+  }
+
   /**
    * Validate configuration
    */
@@ -0,0 +1,44 @@
+import { InMemoryProvider } from './InMemoryProvider';
+import { CircuitBreakerProvider } from './CircuitBreakerProvider';
+
+describe('CircuitBreakerProvider', () => {
+  let memory: InMemoryProvider;
+  let crm: CircuitBreakerProvider;
+
+  beforeEach(async () => {
+    memory = new InMemoryProvider();
+    crm = new CircuitBreakerProvider(memory, { name: 'memory', failureThreshold: 2, resetTimeout: 50 });
+    await crm.initialize();
+  });
+
+  it('opens after consecutive failures and rejects calls without sending them', async () => {
+    memory.injectFailure({ status: 503, times: 2 });
+    const getLead = jest.spyOn(memory, 'getLead');
+
+    await expect(crm.getLead('lead-1')).rejects.toMatchObject({ code: 'READ_FAILED' });
+    await expect(crm.getLead('lead-1')).rejects.toMatchObject({ code: 'READ_FAILED' });
+    await expect(crm.createLead({ email: 'jane@acme.com' })).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    expect(getLead).toHaveBeenCalledTimes(2);
+    expect(crm.breaker.getState()).toBe('open');
+  });
+
+  it('closes again after a successful trial call', async () => {
+    memory.injectFailure({ status: 503, times: 2 });
+    await crm.getLead('lead-1').catch(() => undefined);
+    await crm.getLead('lead-1').catch(() => undefined);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    await expect(crm.createLead({ email: 'jane@acme.com' })).resolves.toBeDefined();
+    expect(crm.breaker.getState()).toBe('closed');
+  });
+
+  it('does not count errors that show the CRM is reachable', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(crm.getLead('missing')).rejects.toMatchObject({ code: 'READ_FAILED' });
+    }
+
+    expect(crm.breaker.getState()).toBe('closed');
+  });
+});
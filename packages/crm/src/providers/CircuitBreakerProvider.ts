@@ -0,0 +1,146 @@
+/**
+ * Circuit Breaker Provider
+ * Wraps a CRM provider so calls fail fast while the CRM is unavailable
+ */
+
+import { CircuitBreaker, CircuitBreakerConfig, Lead, Contact } from '@cognio/core';
+import {
+  ICRMProvider,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMQuota
+} from '../types';
+import type { RateLimiter } from '../RateLimiter';
+
+/**
+ * Provider decorator running every request through a circuit breaker
+ * While the circuit is open, requests are rejected with an AgentError coded 'CIRCUIT_OPEN'.
+ */
+export class CircuitBreakerProvider implements ICRMProvider {
+  /** Breaker guarding the provider; listen with breaker.onEvent() for state changes */
+  readonly breaker: CircuitBreaker;
+
+  constructor(
+    private provider: ICRMProvider,
+    breaker: CircuitBreaker | CircuitBreakerConfig = {}
+  ) {
+    this.breaker = breaker instanceof CircuitBreaker ? breaker : new CircuitBreaker(breaker);
+  }
+
+  /**
+   * Initialize the wrapped provider
+   */
+  async initialize(): Promise<void> {
+    return this.breaker.execute(() => this.provider.initialize());
+  }
+
+  /**
+   * Create lead
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.breaker.execute(() => this.provider.createLead(lead, options));
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.breaker.execute(() => this.provider.getLead(id, options));
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.breaker.execute(() => this.provider.updateLead(id, updates, options));
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    return this.breaker.execute(() => this.provider.deleteLead(id, options));
+  }
+
+  /**
+   * Search leads
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    return this.breaker.execute(() => this.provider.searchLeads(criteria, options));
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.breaker.execute(() => this.provider.createContact(contact, options));
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.breaker.execute(() => this.provider.getContact(id, options));
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.breaker.execute(() => this.provider.updateContact(id, updates, options));
+  }
+
+  /**
+   * Create opportunity
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.breaker.execute(() => this.provider.createOpportunity(opportunity, options));
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.breaker.execute(() => this.provider.getOpportunity(id, options));
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    return this.breaker.execute(() => this.provider.createAccount(account, options));
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    return this.breaker.execute(() => this.provider.getAccount(id, options));
+  }
+
+  /**
+   * Last API quota reported by the wrapped provider
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.provider.getQuota?.();
+  }
+
+  /**
+   * Pass the rate limiter on to the wrapped provider
+   */
+  useRateLimiter(limiter: RateLimiter | undefined): boolean {
+    return this.provider.useRateLimiter?.(limiter) ?? false;
+  }
+
+  /**
+   * Close the wrapped provider
+   */
+  async close(): Promise<void> {
+    return this.provider.close();
+  }
+}
@@ -0,0 +1,296 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { HubSpotProvider } from './HubSpotProvider';
+import { CRMAgent } from '../CRMAgent';
+import { CRMConfig } from '../types';
+
+interface Recorded {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: any;
+  at: number;
+}
+
+interface Reply {
+  status?: number;
+  headers?: Record<string, string>;
+  body: any;
+}
+
+type Handler = (request: Recorded) => Reply;
+
+/** HubSpot API stand-in answering with the handler of a route, or 404 */
+async function startHubSpot(routes: Record<string, Handler>): Promise<{ server: Server; url: string; requests: Recorded[] }> {
+  const requests: Recorded[] = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let text = '';
+    for await (const chunk of req) {
+      text += chunk;
+    }
+    const url = new URL(req.url!, 'http://localhost');
+    const request: Recorded = {
+      method: req.method!,
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body: req.headers['content-type']?.includes('json') && text ? JSON.parse(text) : text,
+      at: Date.now()
+    };
+    requests.push(request);
+
+    const route = Object.keys(routes).find(key => {
+      const [method, pattern] = key.split(' ');
+      return method === request.method && new RegExp(`^${pattern}$`).test(request.path);
+    });
+    const reply = route
+      ? routes[route](request)
+      : { status: 404, body: { status: 'error', message: 'Not found', category: 'OBJECT_NOT_FOUND' } };
+    res.writeHead(reply.status ?? 200, { 'content-type': 'application/json', ...reply.headers });
+    res.end(JSON.stringify(reply.body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+const NOW = '2024-01-31T12:00:00.000Z';
+
+function contact(id: string, properties: Record<string, string | null>): any {
+  return { id, properties, createdAt: NOW, updatedAt: NOW, archived: false };
+}
+
+describe('HubSpotProvider', () => {
+  let server: Server;
+  let requests: Recorded[];
+  let endpoint: string;
+
+  async function start(routes: Record<string, Handler>): Promise<void> {
+    ({ server, requests, url: endpoint } = await startHubSpot(routes));
+  }
+
+  async function connect(config: Partial<CRMConfig> = {}): Promise<HubSpotProvider> {
+    const provider = new HubSpotProvider({ provider: 'hubspot', apiKey: 'pat-token', endpoint, ...config });
+    await provider.initialize();
+    return provider;
+  }
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('creates a lead as a contact in the lead lifecycle stage', async () => {
+    await start({
+      'POST /crm/v3/objects/contacts': request => ({
+        status: 201,
+        body: contact('101', request.body.properties)
+      })
+    });
+    const provider = await connect();
+
+    const lead = await provider.createLead({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      company: 'Acme',
+      status: 'NEW',
+      customFields: { favorite_color: 'green' }
+    });
+
+    expect(requests[0].headers.authorization).toBe('Bearer pat-token');
+    expect(requests[0].body.properties).toEqual({
+      email: 'jane@acme.com',
+      firstname: 'Jane',
+      company: 'Acme',
+      hs_lead_status: 'NEW',
+      lifecyclestage: 'lead',
+      favorite_color: 'green'
+    });
+    expect(lead).toMatchObject({ id: '101', providerId: '101', provider: 'hubspot', email: 'jane@acme.com' });
+    expect(lead.createdAt).toEqual(new Date(NOW));
+  });
+
+  it('gets a lead with its configured custom properties', async () => {
+    await start({
+      'GET /crm/v3/objects/contacts/101': () => ({
+        body: contact('101', {
+          email: 'jane@acme.com',
+          firstname: 'Jane',
+          lastname: 'Doe',
+          hubspotscore: '42',
+          hs_analytics_source: 'ORGANIC_SEARCH',
+          favorite_color: 'green'
+        })
+      })
+    });
+    const provider = await connect({ options: { properties: ['favorite_color'] } });
+
+    const lead = await provider.getLead('101');
+
+    expect(requests[0].query.get('properties')?.split(',')).toEqual(expect.arrayContaining(['hubspotscore', 'favorite_color']));
+    expect(lead).toMatchObject({
+      id: '101',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      score: 42,
+      source: 'ORGANIC_SEARCH',
+      customFields: { favorite_color: 'green' }
+    });
+  });
+
+  it('does not write the source and score to the properties HubSpot calculates', async () => {
+    await start({
+      'POST /crm/v3/objects/contacts': request => ({ status: 201, body: contact('101', request.body.properties) })
+    });
+    const provider = await connect();
+
+    await provider.createLead({ email: 'jane@acme.com', source: 'Webinar', score: 80 });
+
+    expect(requests[0].body.properties).toEqual({ email: 'jane@acme.com', lifecyclestage: 'lead' });
+  });
+
+  it('keeps the source and score in the configured properties', async () => {
+    const properties: Record<string, string | null> = {};
+    await start({
+      'POST /crm/v3/objects/contacts': request => {
+        Object.assign(properties, request.body.properties);
+        return { status: 201, body: contact('101', properties) };
+      },
+      'PATCH /crm/v3/objects/contacts/101': request => {
+        Object.assign(properties, request.body.properties);
+        return { body: contact('101', properties) };
+      },
+      'GET /crm/v3/objects/contacts/101': () => ({ body: contact('101', { ...properties, hubspotscore: '12' }) }),
+      'POST /crm/v3/objects/contacts/search': () => ({ body: { total: 0, results: [] } })
+    });
+    const provider = await connect({ options: { sourceProperty: 'lead_source', scoreProperty: 'lead_score' } });
+
+    await provider.createLead({ email: 'jane@acme.com', source: 'Webinar', score: 80 });
+    const updated = await provider.updateLead('101', { score: 95 });
+    await provider.searchLeads({ filters: { source: 'Webinar' }, sortBy: 'score' });
+
+    expect(requests[0].body.properties).toMatchObject({ lead_source: 'Webinar', lead_score: '80' });
+    expect(requests[1].body.properties).toEqual({ lead_score: '95' });
+    expect(requests[2].query.get('properties')?.split(',')).toEqual(expect.arrayContaining(['lead_source', 'lead_score']));
+    expect(updated).toMatchObject({ source: 'Webinar', score: 95 });
+    expect(requests[3].body.filterGroups[0].filters[1]).toEqual({ propertyName: 'lead_source', operator: 'EQ', value: 'Webinar' });
+    expect(requests[3].body.sorts).toEqual(['lead_score']);
+  });
+
+  it('maps search filters to HubSpot properties', async () => {
+    await start({
+      'POST /crm/v3/objects/contacts/search': () => ({
+        body: { total: 3, results: [contact('101', { email: 'jane@acme.com' })], paging: { next: { after: '1' } } }
+      })
+    });
+    const provider = await connect();
+
+    const result = await provider.searchLeads({
+      query: 'acme',
+      filters: { status: 'NEW', source: ['PAID_SEARCH', 'EMAIL'], title: null, industry: 'Software' },
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      limit: 500,
+      offset: 0
+    });
+
+    const body = requests[0].body;
+    expect(body.query).toBe('acme');
+    expect(body.filterGroups[0].filters).toEqual([
+      { propertyName: 'lifecyclestage', operator: 'IN', values: ['subscriber', 'lead', 'marketingqualifiedlead', 'salesqualifiedlead'] },
+      { propertyName: 'hs_lead_status', operator: 'EQ', value: 'NEW' },
+      { propertyName: 'hs_analytics_source', operator: 'IN', values: ['PAID_SEARCH', 'EMAIL'] },
+      { propertyName: 'jobtitle', operator: 'NOT_HAS_PROPERTY' },
+      { propertyName: 'industry', operator: 'EQ', value: 'Software' }
+    ]);
+    expect(body.sorts).toEqual(['-createdate']);
+    expect(body.limit).toBe(200);
+    expect(result).toMatchObject({ total: 3, hasMore: true, nextOffset: 1 });
+  });
+
+  it('associates deals with their company and contact', async () => {
+    await start({
+      'POST /crm/v3/objects/deals': request => ({
+        status: 201,
+        body: { id: '501', properties: request.body.properties, createdAt: NOW, updatedAt: NOW, archived: false }
+      }),
+      'GET /crm/v3/objects/deals/501': () => ({
+        body: {
+          id: '501',
+          properties: { dealname: 'Acme renewal', amount: '5000', dealstage: 'qualifiedtobuy' },
+          createdAt: NOW,
+          updatedAt: NOW,
+          archived: false,
+          associations: {
+            companies: { results: [{ id: '201', type: 'deal_to_company' }] },
+            contacts: { results: [{ id: '101', type: 'deal_to_contact' }] }
+          }
+        }
+      })
+    });
+    const provider = await connect({ options: { pipeline: 'sales' } });
+
+    await provider.createOpportunity({ name: 'Acme renewal', amount: 5000, accountId: '201', contactId: '101' });
+    const deal = await provider.getOpportunity('501');
+
+    expect(requests[0].body.properties).toMatchObject({ dealname: 'Acme renewal', amount: '5000', pipeline: 'sales' });
+    expect(requests[0].body.associations).toEqual([
+      { to: { id: '201' }, types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 5 }] },
+      { to: { id: '101' }, types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 3 }] }
+    ]);
+    expect(requests[1].query.get('associations')).toBe('companies,contacts');
+    expect(deal).toMatchObject({ id: '501', amount: 5000, accountId: '201', contactId: '101' });
+  });
+
+  it('refreshes the OAuth token when HubSpot rejects it', async () => {
+    let tokens = 0;
+    await start({
+      'POST /oauth/v1/token': () => ({
+        body: { access_token: `token-${++tokens}`, refresh_token: 'refresh', expires_in: 1800, token_type: 'bearer' }
+      }),
+      'GET /crm/v3/objects/contacts/101': request => request.headers.authorization === 'Bearer token-1'
+        ? { status: 401, body: { status: 'error', message: 'Expired token', category: 'EXPIRED_AUTHENTICATION' } }
+        : { body: contact('101', { email: 'jane@acme.com' }) }
+    });
+    const provider = await connect({
+      apiKey: undefined,
+      oauth: { clientId: 'client', clientSecret: 'secret', refreshToken: 'refresh' }
+    });
+
+    const lead = await provider.getLead('101');
+
+    expect(lead.email).toBe('jane@acme.com');
+    expect(requests.map(request => `${request.method} ${request.path}`)).toEqual([
+      'POST /oauth/v1/token',
+      'GET /crm/v3/objects/contacts/101',
+      'POST /oauth/v1/token',
+      'GET /crm/v3/objects/contacts/101'
+    ]);
+    expect(new URLSearchParams(requests[0].body).get('refresh_token')).toBe('refresh');
+    expect(requests[3].headers.authorization).toBe('Bearer token-2');
+  });
+
+  it('keeps the status and Retry-After of rate limited requests so the agent waits', async () => {
+    let calls = 0;
+    await start({
+      'GET /crm/v3/objects/contacts/101': () => ++calls === 1
+        ? {
+          status: 429,
+          headers: { 'retry-after': '1' },
+          body: { status: 'error', message: 'Too many requests', category: 'RATE_LIMITS' }
+        }
+        : { body: contact('101', { email: 'jane@acme.com' }) }
+    });
+    const agent = new CRMAgent({
+      name: 'crm',
+      crm: { provider: 'hubspot', apiKey: 'pat-token', endpoint },
+      retry: { maxAttempts: 2, delay: 1, backoff: 'linear' }
+    });
+    await agent.initialize();
+
+    const lead = await agent.getLead('101');
+
+    expect(lead.email).toBe('jane@acme.com');
+    expect(requests).toHaveLength(2);
+    expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(950);
+  });
+});
@@ -0,0 +1,739 @@
+/**
+ * HubSpot CRM Provider
+ */
+
+import { Client } from '@hubspot/api-client';
+import { BaseCRMProvider } from './BaseCRMProvider';
+import {
+  CRMConfig,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMError
+} from '../types';
+import { Lead, Contact } from '@cognio/core';
+
+/** HubSpot object as returned by the CRM APIs */
+interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt?: Date;
+  updatedAt?: Date;
+  associations?: Record<string, { results: Array<{ id: string }> }>;
+}
+
+/** Lifecycle stages of contacts that are leads */
+const LEAD_LIFECYCLE_STAGES = ['subscriber', 'lead', 'marketingqualifiedlead', 'salesqualifiedlead'];
+
+/** HubSpot-defined association types of a deal */
+const DEAL_TO_COMPANY = 5;
+const DEAL_TO_CONTACT = 3;
+
+const LEAD_PROPERTIES = [
+  'firstname',
+  'lastname',
+  'email',
+  'phone',
+  'company',
+  'jobtitle',
+  'industry',
+  'hs_lead_status',
+  'lifecyclestage'
+];
+
+const CONTACT_PROPERTIES = ['firstname', 'lastname', 'email', 'phone'];
+
+const COMPANY_PROPERTIES = [
+  'name',
+  'industry',
+  'website',
+  'phone',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'country',
+  'numberofemployees',
+  'annualrevenue'
+];
+
+const DEAL_PROPERTIES = ['dealname', 'amount', 'dealstage', 'pipeline', 'closedate', 'hs_deal_stage_probability'];
+
+/** Properties HubSpot sets itself, read as a lead's source and score by default */
+const SOURCE_PROPERTY = 'hs_analytics_source';
+const SCORE_PROPERTY = 'hubspotscore';
+
+/** Lead fields by HubSpot property, for search filters and sorting */
+const LEAD_FIELDS: Record<string, string> = {
+  firstName: 'firstname',
+  lastName: 'lastname',
+  title: 'jobtitle',
+  status: 'hs_lead_status',
+  createdAt: 'createdate',
+  updatedAt: 'lastmodifieddate'
+};
+
+/**
+ * HubSpot provider implementation
+ *
+ * Leads are contacts in a lead lifecycle stage, accounts are companies and
+ * opportunities are deals. Authenticates with a private-app access token (apiKey)
+ * or an OAuth refresh token, which is exchanged for access tokens as they expire.
+ *
+ * Options: `leadLifecycleStage` of created leads (default: 'lead'), `pipeline` and
+ * `dealStage` of created deals (default: 'default' and 'appointmentscheduled'), and
+ * `properties`, extra properties read into customFields. `endpoint` replaces the API
+ * base URL.
+ *
+ * A lead's source and score are read from HubSpot's own hs_analytics_source and
+ * hubspotscore, which cannot be written. Set the `sourceProperty` and `scoreProperty`
+ * options to read and write them in other properties instead; without them, the
+ * source and score of created and updated leads are not stored.
+ */
+export class HubSpotProvider extends BaseCRMProvider {
+  private client: Client | null = null;
+  private tokenExpiresAt?: number;
+  private refreshing?: Promise<void>;
+
+  constructor(config: CRMConfig) {
+    super({ ...config, provider: 'hubspot' });
+  }
+
+  /**
+   * Initialize HubSpot client
+   */
+  async initialize(): Promise<void> {
+    this.validateConfig();
+
+    try {
+      this.client = new Client({
+        accessToken: this.config.oauth ? undefined : this.config.apiKey,
+        basePath: this.config.endpoint
+      });
+
+      if (this.config.oauth) {
+        await this.refreshAccessToken();
+      }
+
+      this.initialized = true;
+    } catch (error: any) {
+      throw new CRMError(
+        'Failed to initialize HubSpot',
+        'INIT_FAILED',
+        'hubspot',
+        this.apiError(error)
+      );
+    }
+  }
+
+  /**
+   * Create lead as a contact in a lead lifecycle stage
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      const properties = this.toProperties({
+        firstname: lead.firstName,
+        lastname: lead.lastName,
+        email: lead.email,
+        phone: lead.phone,
+        company: lead.company,
+        jobtitle: lead.title,
+        industry: lead.industry,
+        hs_lead_status: lead.status,
+        lifecyclestage: this.config.options?.leadLifecycleStage || 'lead',
+        ...this.sourceAndScore(lead),
+        ...lead.customFields
+      });
+
+      const result = await this.request(
+        client => client.crm.contacts.basicApi.create({ properties, associations: [] }),
+        options
+      );
+
+      return {
+        ...lead,
+        id: result.id,
+        providerId: result.id,
+        provider: 'hubspot',
+        createdAt: result.createdAt,
+        updatedAt: result.updatedAt,
+        raw: result
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create lead', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.request(
+        client => client.crm.contacts.basicApi.getById(id, this.leadProperties()),
+        options
+      );
+
+      return this.mapHubSpotLead(result);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get lead', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      const properties = this.toProperties({
+        firstname: updates.firstName,
+        lastname: updates.lastName,
+        email: updates.email,
+        phone: updates.phone,
+        company: updates.company,
+        jobtitle: updates.title,
+        industry: updates.industry,
+        hs_lead_status: updates.status,
+        ...this.sourceAndScore(updates),
+        ...updates.customFields
+      });
+
+      await this.request(client => client.crm.contacts.basicApi.update(id, { properties }), options);
+
+      return this.getLead(id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to update lead', 'UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Delete lead (archives the contact)
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await this.request(client => client.crm.contacts.basicApi.archive(id), options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to delete lead', 'DELETE_FAILED');
+    }
+  }
+
+  /**
+   * Search leads with the CRM search API
+   * The query is a full-text search; filters match lead fields or HubSpot properties
+   * exactly, arrays match any of their values and null matches a missing value.
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    this.ensureInitialized();
+
+    try {
+      const filters: any[] = [
+        { propertyName: 'lifecyclestage', operator: 'IN', values: LEAD_LIFECYCLE_STAGES }
+      ];
+
+      Object.entries(criteria.filters || {}).forEach(([key, value]) => {
+        const propertyName = this.leadProperty(key);
+        if (value === null) {
+          filters.push({ propertyName, operator: 'NOT_HAS_PROPERTY' });
+        } else if (Array.isArray(value)) {
+          filters.push({ propertyName, operator: 'IN', values: value.map(item => this.toPropertyValue(item)) });
+        } else {
+          filters.push({ propertyName, operator: 'EQ', value: this.toPropertyValue(value) });
+        }
+      });
+
+      // HubSpot returns at most 200 results per page
+      const limit = Math.min(criteria.limit || 100, 200);
+      const offset = criteria.offset || 0;
+
+      const result = await this.request(client => client.crm.contacts.searchApi.doSearch({
+        query: criteria.query,
+        filterGroups: [{ filters }],
+        // The SDK takes a sort as the property name, prefixed with '-' to sort descending
+        sorts: criteria.sortBy
+          ? [`${criteria.sortOrder === 'desc' ? '-' : ''}${this.leadProperty(criteria.sortBy)}`]
+          : [],
+        properties: this.leadProperties(),
+        limit,
+        after: offset
+      }), options);
+
+      const leads: CRMLead[] = result.results.map(record => this.mapHubSpotLead(record));
+      const after = result.paging?.next?.after;
+
+      return {
+        results: leads,
+        total: result.total,
+        hasMore: after !== undefined,
+        nextOffset: after !== undefined ? Number(after) : offset + leads.length
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to search leads', 'SEARCH_FAILED');
+    }
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      const properties = this.toProperties({
+        email: contact.email,
+        firstname: contact.name?.split(' ')[0],
+        lastname: contact.name?.split(' ').slice(1).join(' ') || undefined,
+        phone: contact.phone,
+        ...contact.customFields
+      });
+
+      const result = await this.request(
+        client => client.crm.contacts.basicApi.create({ properties, associations: [] }),
+        options
+      );
+
+      return {
+        ...contact,
+        id: result.id,
+        providerId: result.id,
+        provider: 'hubspot',
+        raw: result
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create contact', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.request(
+        client => client.crm.contacts.basicApi.getById(id, this.withCustomProperties(CONTACT_PROPERTIES)),
+        options
+      );
+
+      return this.mapHubSpotContact(result);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get contact', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      const properties = this.toProperties({
+        email: updates.email,
+        phone: updates.phone,
+        ...(updates.name ? {
+          firstname: updates.name.split(' ')[0],
+          lastname: updates.name.split(' ').slice(1).join(' ')
+        } : {}),
+        ...updates.customFields
+      });
+
+      await this.request(client => client.crm.contacts.basicApi.update(id, { properties }), options);
+
+      return this.getContact(id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to update contact', 'UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Create opportunity as a deal, associated with its company and contact
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    this.ensureInitialized();
+
+    try {
+      const properties = this.toProperties({
+        dealname: opportunity.name,
+        amount: opportunity.amount,
+        dealstage: opportunity.stage || this.config.options?.dealStage || 'appointmentscheduled',
+        pipeline: this.config.options?.pipeline || 'default',
+        closedate: opportunity.closeDate,
+        ...opportunity.customFields
+      });
+
+      const associations: any[] = [];
+      if (opportunity.accountId) {
+        associations.push(this.association(opportunity.accountId, DEAL_TO_COMPANY));
+      }
+      if (opportunity.contactId) {
+        associations.push(this.association(opportunity.contactId, DEAL_TO_CONTACT));
+      }
+
+      const result = await this.request(
+        client => client.crm.deals.basicApi.create({ properties, associations }),
+        options
+      );
+
+      return {
+        ...opportunity,
+        id: result.id,
+        providerId: result.id,
+        createdAt: result.createdAt,
+        updatedAt: result.updatedAt
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create opportunity', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.request(
+        client => client.crm.deals.basicApi.getById(
+          id,
+          this.withCustomProperties(DEAL_PROPERTIES),
+          undefined,
+          ['companies', 'contacts']
+        ),
+        options
+      );
+
+      return this.mapHubSpotDeal(result);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get opportunity', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Create account as a company
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    this.ensureInitialized();
+
+    try {
+      const properties = this.toProperties({
+        name: account.name,
+        industry: account.industry,
+        website: account.website,
+        phone: account.phone,
+        numberofemployees: account.employees,
+        annualrevenue: account.revenue,
+        address: account.address?.street,
+        city: account.address?.city,
+        state: account.address?.state,
+        zip: account.address?.postalCode,
+        country: account.address?.country,
+        ...account.customFields
+      });
+
+      const result = await this.request(
+        client => client.crm.companies.basicApi.create({ properties, associations: [] }),
+        options
+      );
+
+      return {
+        ...account,
+        id: result.id,
+        providerId: result.id,
+        createdAt: result.createdAt,
+        updatedAt: result.updatedAt
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create account', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.request(
+        client => client.crm.companies.basicApi.getById(id, this.withCustomProperties(COMPANY_PROPERTIES)),
+        options
+      );
+
+      return this.mapHubSpotCompany(result);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get account', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Call the API with a current access token
+   * With OAuth, an expired token is refreshed first, and once more if HubSpot
+   * rejects it. API errors keep their HTTP status for retry classification.
+   */
+  private async request<T>(call: (client: Client) => Promise<T>, options?: CRMRequestOptions): Promise<T> {
+    if (this.config.oauth && (this.tokenExpiresAt ?? 0) <= Date.now()) {
+      await this.withSignal(this.refreshAccessToken(), options);
+    }
+
+    try {
+      return await this.throttle(() => call(this.client!), options);
+    } catch (error: any) {
+      if (this.config.oauth && error?.code === 401) {
+        await this.withSignal(this.refreshAccessToken(), options);
+        return this.throttle(() => call(this.client!), options).catch(retryError => {
+          throw this.apiError(retryError);
+        });
+      }
+      throw this.apiError(error);
+    }
+  }
+
+  /**
+   * Exchange the OAuth refresh token for an access token
+   * Concurrent requests share one refresh.
+   */
+  private refreshAccessToken(): Promise<void> {
+    if (!this.refreshing) {
+      const { clientId, clientSecret, refreshToken } = this.config.oauth!;
+      this.refreshing = this.client!.oauth.tokensApi
+        .create('refresh_token', undefined, undefined, clientId, clientSecret, refreshToken)
+        .then(token => {
+          this.client!.setAccessToken(token.accessToken);
+          // Refresh a minute early so tokens do not expire in flight
+          this.tokenExpiresAt = Date.now() + (token.expiresIn - 60) * 1000;
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Error for a failed API call, keeping the HTTP status, the HubSpot error category
+   * and the response headers for retry classification and Retry-After
+   */
+  private apiError(error: any): Error {
+    if (typeof error?.code !== 'number' || !('body' in error)) {
+      return error;
+    }
+
+    const body = typeof error.body === 'string' ? safeParse(error.body) : error.body;
+    const apiError: Error & { status?: number; errorCode?: string; headers?: Record<string, string> } =
+      new Error(body?.message || error.message);
+    apiError.status = error.code;
+    apiError.errorCode = body?.category;
+    apiError.headers = error.headers;
+    return apiError;
+  }
+
+  /**
+   * HubSpot properties as strings, without empty values
+   */
+  private toProperties(values: Record<string, any>): Record<string, string> {
+    const properties: Record<string, string> = {};
+    Object.entries(values).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        properties[key] = this.toPropertyValue(value);
+      }
+    });
+    return properties;
+  }
+
+  private toPropertyValue(value: any): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  /**
+   * Properties to read, with the configured custom properties
+   */
+  private withCustomProperties(properties: string[]): string[] {
+    return [...properties, ...(this.config.options?.properties || [])];
+  }
+
+  /**
+   * Properties to read of a lead
+   */
+  private leadProperties(): string[] {
+    return this.withCustomProperties([
+      ...LEAD_PROPERTIES,
+      this.leadProperty('source'),
+      this.leadProperty('score')
+    ]);
+  }
+
+  /**
+   * HubSpot property of a lead field, or the field name itself
+   */
+  private leadProperty(field: string): string {
+    switch (field) {
+      case 'source':
+        return this.config.options?.sourceProperty || SOURCE_PROPERTY;
+      case 'score':
+        return this.config.options?.scoreProperty || SCORE_PROPERTY;
+      default:
+        return LEAD_FIELDS[field] || field;
+    }
+  }
+
+  /**
+   * Properties holding a lead's source and score, if configured
+   */
+  private sourceAndScore(lead: Partial<Lead>): Record<string, any> {
+    const { sourceProperty, scoreProperty } = this.config.options || {};
+    return {
+      ...(sourceProperty ? { [sourceProperty]: lead.source } : {}),
+      ...(scoreProperty ? { [scoreProperty]: lead.score } : {})
+    };
+  }
+
+  /**
+   * Configured custom properties of a record
+   */
+  private customFields(record: HubSpotObject): Record<string, any> | undefined {
+    const names: string[] = this.config.options?.properties || [];
+    if (names.length === 0) {
+      return undefined;
+    }
+    return Object.fromEntries(names.map(name => [name, record.properties[name] ?? undefined]));
+  }
+
+  private association(id: string, associationTypeId: number): any {
+    return {
+      to: { id },
+      types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId }]
+    };
+  }
+
+  /**
+   * Map HubSpot contact to CRMLead
+   */
+  private mapHubSpotLead(contact: HubSpotObject): CRMLead {
+    const properties = contact.properties;
+    return {
+      id: contact.id,
+      providerId: contact.id,
+      provider: 'hubspot',
+      firstName: properties.firstname ?? undefined,
+      lastName: properties.lastname ?? undefined,
+      email: properties.email ?? '',
+      phone: properties.phone ?? undefined,
+      company: properties.company ?? undefined,
+      title: properties.jobtitle ?? undefined,
+      industry: properties.industry ?? undefined,
+      source: properties[this.leadProperty('source')] ?? undefined,
+      score: toNumber(properties[this.leadProperty('score')]),
+      status: properties.hs_lead_status ?? undefined,
+      customFields: this.customFields(contact),
+      createdAt: contact.createdAt ? new Date(contact.createdAt) : undefined,
+      updatedAt: contact.updatedAt ? new Date(contact.updatedAt) : undefined,
+      raw: contact
+    };
+  }
+
+  /**
+   * Map HubSpot contact to CRMContact
+   */
+  private mapHubSpotContact(contact: HubSpotObject): CRMContact {
+    const properties = contact.properties;
+    return {
+      id: contact.id,
+      providerId: contact.id,
+      provider: 'hubspot',
+      email: properties.email ?? '',
+      name: `${properties.firstname || ''} ${properties.lastname || ''}`.trim(),
+      phone: properties.phone ?? undefined,
+      customFields: this.customFields(contact),
+      raw: contact
+    };
+  }
+
+  /**
+   * Map HubSpot deal to Opportunity
+   */
+  private mapHubSpotDeal(deal: HubSpotObject): Opportunity {
+    const properties = deal.properties;
+    const probability = toNumber(properties.hs_deal_stage_probability);
+    return {
+      id: deal.id,
+      providerId: deal.id,
+      name: properties.dealname ?? '',
+      amount: toNumber(properties.amount),
+      stage: properties.dealstage ?? undefined,
+      closeDate: properties.closedate ? new Date(properties.closedate) : undefined,
+      accountId: deal.associations?.companies?.results[0]?.id,
+      contactId: deal.associations?.contacts?.results[0]?.id,
+      // HubSpot reports probability as a fraction
+      probability: probability !== undefined ? probability * 100 : undefined,
+      customFields: this.customFields(deal),
+      createdAt: deal.createdAt ? new Date(deal.createdAt) : undefined,
+      updatedAt: deal.updatedAt ? new Date(deal.updatedAt) : undefined
+    };
+  }
+
+  /**
+   * Map HubSpot company to Account
+   */
+  private mapHubSpotCompany(company: HubSpotObject): Account {
+    const properties = company.properties;
+    return {
+      id: company.id,
+      providerId: company.id,
+      name: properties.name ?? '',
+      industry: properties.industry ?? undefined,
+      website: properties.website ?? undefined,
+      phone: properties.phone ?? undefined,
+      employees: toNumber(properties.numberofemployees),
+      revenue: toNumber(properties.annualrevenue),
+      address: {
+        street: properties.address ?? undefined,
+        city: properties.city ?? undefined,
+        state: properties.state ?? undefined,
+        postalCode: properties.zip ?? undefined,
+        country: properties.country ?? undefined
+      },
+      customFields: this.customFields(company),
+      createdAt: company.createdAt ? new Date(company.createdAt) : undefined,
+      updatedAt: company.updatedAt ? new Date(company.updatedAt) : undefined
+    };
+  }
+
+  /**
+   * Close client
+   */
+  async close(): Promise<void> {
+    this.client = null;
+    this.tokenExpiresAt = undefined;
+    await super.close();
+  }
+}
+
+function toNumber(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function safeParse(json: string): any {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
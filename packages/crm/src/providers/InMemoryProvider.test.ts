@@ -0,0 +1,114 @@
+import { InMemoryProvider } from './InMemoryProvider';
+
+describe('InMemoryProvider', () => {
+  let crm: InMemoryProvider;
+
+  beforeEach(async () => {
+    crm = new InMemoryProvider();
+    await crm.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('records', () => {
+    it('gives records IDs and timestamps and copies them in and out', async () => {
+      const lead = await crm.createLead({ email: 'jane@acme.com', customFields: { tier: 'gold' } });
+      lead.customFields!.tier = 'silver';
+
+      const stored = await crm.getLead(lead.id!);
+
+      expect(stored).toMatchObject({ id: 'lead-1', providerId: 'lead-1', provider: 'memory', customFields: { tier: 'gold' } });
+      expect(stored.createdAt?.getTime()).toEqual(expect.any(Number));
+    });
+
+    it('keeps the ID a record is created with and skips it when generating IDs', async () => {
+      await crm.createLead({ id: 'lead-1', email: 'jane@acme.com' });
+
+      const generated = await crm.createLead({ email: 'john@acme.com' });
+
+      expect(generated.id).toBe('lead-2');
+    });
+
+    it('rejects a record with the ID of a stored one instead of replacing it', async () => {
+      await crm.createLead({ id: 'vip', email: 'jane@acme.com' });
+
+      await expect(crm.createLead({ id: 'vip', email: 'john@acme.com' })).rejects.toMatchObject({
+        code: 'CREATE_FAILED',
+        details: { code: 'DUPLICATE_VALUE' }
+      });
+      expect((await crm.getLead('vip')).email).toBe('jane@acme.com');
+      expect(() => crm.seed({ accounts: [{ id: 'acme', name: 'Acme' }, { id: 'acme', name: 'Acme Inc' }] }))
+        .toThrow(expect.objectContaining({ code: 'DUPLICATE_VALUE' }));
+    });
+
+    it('fails unknown IDs with NOT_FOUND', async () => {
+      await expect(crm.getAccount('missing')).rejects.toMatchObject({ details: { code: 'NOT_FOUND' } });
+    });
+
+    it('restores a snapshot', async () => {
+      await crm.createLead({ email: 'jane@acme.com' });
+      const snapshot = crm.snapshot();
+      await crm.createLead({ email: 'john@acme.com' });
+
+      crm.restore(snapshot);
+
+      expect((await crm.searchLeads({})).total).toBe(1);
+      expect((await crm.createLead({ email: 'john@acme.com' })).id).toBe('lead-2');
+    });
+  });
+
+  describe('searchLeads', () => {
+    beforeEach(() => {
+      crm.seed({
+        leads: [
+          { id: 'a', email: 'ann@acme.com', company: 'Acme', score: 30, status: 'open' },
+          { id: 'b', email: 'bob@globex.com', company: 'Globex', score: 90, status: 'open' },
+          { id: 'c', email: 'cat@acme.com', company: 'Acme', score: 60, status: 'closed' }
+        ]
+      });
+    });
+
+    it('matches the query, filters, sorting and pagination', async () => {
+      const page = await crm.searchLeads({ query: 'ACME', sortBy: 'score', sortOrder: 'desc', limit: 1 });
+
+      expect(page).toMatchObject({ total: 2, hasMore: true, nextOffset: 1 });
+      expect(page.results.map(lead => lead.id)).toEqual(['c']);
+      expect((await crm.searchLeads({ filters: { status: ['closed', 'lost'] } })).results.map(lead => lead.id))
+        .toEqual(['c']);
+    });
+  });
+
+  describe('simulated failures', () => {
+    it('fails matching calls the given number of times', async () => {
+      crm.injectFailure({ operation: 'createLead', status: 503, times: 1 });
+
+      await expect(crm.createLead({ email: 'jane@acme.com' })).rejects.toMatchObject({
+        details: { code: 'SIMULATED_FAILURE', details: { operation: 'createLead', status: 503 } }
+      });
+      await expect(crm.createLead({ email: 'jane@acme.com' })).resolves.toBeDefined();
+      await expect(crm.getLead('lead-1')).resolves.toBeDefined();
+    });
+
+    it('tries every matching failure with its own probability', async () => {
+      crm.injectFailure({ code: 'FLAKY', probability: 0.1 });
+      crm.injectFailure({ operation: 'getLead', code: 'DOWN', probability: 0.9 });
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      await expect(crm.getLead('lead-1')).rejects.toMatchObject({ details: { code: 'DOWN' } });
+      await expect(crm.createLead({ email: 'jane@acme.com' })).resolves.toBeDefined();
+    });
+
+    it('counts only the calls a failure fails', async () => {
+      crm.injectFailure({ operation: 'getAccount', code: 'ONCE', times: 1, probability: 0.5 });
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.9);
+      crm.seed({ accounts: [{ id: 'acme', name: 'Acme' }] });
+
+      await expect(crm.getAccount('acme')).resolves.toBeDefined();
+      random.mockReturnValue(0.1);
+      await expect(crm.getAccount('acme')).rejects.toMatchObject({ details: { code: 'ONCE' } });
+      await expect(crm.getAccount('acme')).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * In-memory CRM Provider
+ */
+
+import { promises as fs } from 'fs';
+import { BaseCRMProvider } from './BaseCRMProvider';
+import {
+  CRMConfig,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMFixtures,
+  CRMSnapshot,
+  SimulatedFailure,
+  InMemoryProviderOptions,
+  CRMError
+} from '../types';
+import { Lead, Contact } from '@cognio/core';
+
+type Entity = keyof CRMFixtures;
+
+/** ID prefixes by entity */
+const ID_PREFIXES: Record<Entity, string> = {
+  leads: 'lead',
+  contacts: 'contact',
+  opportunities: 'opportunity',
+  accounts: 'account'
+};
+
+/** Date fields of records, revived when fixtures are read from JSON */
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'closeDate'];
+
+/**
+ * Provider that keeps records in process memory, for tests, demos and local development
+ *
+ * Behaves like a CRM: records get IDs and timestamps, unknown IDs fail with NOT_FOUND
+ * and searches honor filters, sorting and pagination. Records are copied in and out,
+ * so callers cannot change stored data. Calls can be delayed and made to fail, and
+ * the state can be seeded, saved and restored. See InMemoryProviderOptions.
+ */
+export class InMemoryProvider extends BaseCRMProvider {
+  private records: Record<Entity, Map<string, any>> = {
+    leads: new Map(),
+    contacts: new Map(),
+    opportunities: new Map(),
+    accounts: new Map()
+  };
+  private sequence: number = 0;
+  private failures: Array<SimulatedFailure & { remaining?: number }> = [];
+  private fixturesLoaded: boolean = false;
+
+  constructor(config: Partial<CRMConfig> = {}) {
+    super({ ...config, provider: 'memory' });
+    this.failures = (this.options.failures || []).map(failure => ({ ...failure, remaining: failure.times }));
+  }
+
+  /**
+   * Initialize the provider, seeding the configured fixtures once
+   */
+  async initialize(): Promise<void> {
+    const { fixtures } = this.options;
+
+    if (fixtures && !this.fixturesLoaded) {
+      try {
+        this.seed(typeof fixtures === 'string' ? JSON.parse(await fs.readFile(fixtures, 'utf8')) : fixtures);
+        this.fixturesLoaded = true;
+      } catch (error: any) {
+        throw new CRMError(
+          'Failed to load CRM fixtures',
+          'INIT_FAILED',
+          'memory',
+          error
+        );
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Create lead
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.call('createLead', 'Failed to create lead', 'CREATE_FAILED', options, () =>
+      this.insert('leads', lead)
+    );
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.call('getLead', 'Failed to get lead', 'READ_FAILED', options, () => this.find('leads', id));
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.call('updateLead', 'Failed to update lead', 'UPDATE_FAILED', options, () =>
+      this.modify('leads', id, updates)
+    );
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    return this.call('deleteLead', 'Failed to delete lead', 'DELETE_FAILED', options, () => {
+      this.find('leads', id);
+      this.records.leads.delete(id);
+    });
+  }
+
+  /**
+   * Search leads
+   * The query matches any text field, ignoring case. Filters match fields or custom
+   * fields exactly; an array matches any of its values and null a missing value.
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    return this.call('searchLeads', 'Failed to search leads', 'SEARCH_FAILED', options, () =>
+      this.search('leads', criteria)
+    );
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.call('createContact', 'Failed to create contact', 'CREATE_FAILED', options, () =>
+      this.insert('contacts', contact)
+    );
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.call('getContact', 'Failed to get contact', 'READ_FAILED', options, () =>
+      this.find('contacts', id)
+    );
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.call('updateContact', 'Failed to update contact', 'UPDATE_FAILED', options, () =>
+      this.modify('contacts', id, updates)
+    );
+  }
+
+  /**
+   * Create opportunity
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.call('createOpportunity', 'Failed to create opportunity', 'CREATE_FAILED', options, () =>
+      this.insert('opportunities', opportunity)
+    );
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.call('getOpportunity', 'Failed to get opportunity', 'READ_FAILED', options, () =>
+      this.find('opportunities', id)
+    );
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    return this.call('createAccount', 'Failed to create account', 'CREATE_FAILED', options, () =>
+      this.insert('accounts', account)
+    );
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    return this.call('getAccount', 'Failed to get account', 'READ_FAILED', options, () =>
+      this.find('accounts', id)
+    );
+  }
+
+  /**
+   * Add records, e.g. parsed from a JSON fixture file
+   * Records without an ID get one; date strings become dates. Records with the ID of a
+   * stored record fail with 'DUPLICATE_VALUE'.
+   */
+  seed(fixtures: CRMFixtures): this {
+    for (const entity of Object.keys(ID_PREFIXES) as Entity[]) {
+      for (const record of fixtures[entity] || []) {
+        const revived: any = { ...record };
+        DATE_FIELDS.forEach(field => {
+          if (typeof revived[field] === 'string') {
+            revived[field] = new Date(revived[field]);
+          }
+        });
+        this.insert(entity, revived);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Copy of the current state
+   */
+  snapshot(): CRMSnapshot {
+    return {
+      leads: [...this.records.leads.values()].map(copy),
+      contacts: [...this.records.contacts.values()].map(copy),
+      opportunities: [...this.records.opportunities.values()].map(copy),
+      accounts: [...this.records.accounts.values()].map(copy),
+      sequence: this.sequence
+    };
+  }
+
+  /**
+   * Replace the state with a snapshot
+   */
+  restore(snapshot: CRMSnapshot): this {
+    this.clear();
+    this.seed(snapshot);
+    this.sequence = Math.max(this.sequence, snapshot.sequence);
+    return this;
+  }
+
+  /**
+   * Remove all records
+   */
+  clear(): this {
+    Object.values(this.records).forEach(records => records.clear());
+    this.sequence = 0;
+    return this;
+  }
+
+  /**
+   * Make calls fail, e.g. `{ operation: 'createLead', status: 503, times: 2 }`
+   */
+  injectFailure(failure: SimulatedFailure): this {
+    this.failures.push({ ...failure, remaining: failure.times });
+    return this;
+  }
+
+  /**
+   * Remove injected failures
+   */
+  clearFailures(): this {
+    this.failures = [];
+    return this;
+  }
+
+  private get options(): InMemoryProviderOptions {
+    return this.config.options || {};
+  }
+
+  /**
+   * Run an operation after the simulated latency, failing it as configured
+   */
+  private async call<T>(
+    operation: string,
+    message: string,
+    code: string,
+    options: CRMRequestOptions | undefined,
+    run: () => T
+  ): Promise<T> {
+    this.ensureInitialized();
+
+    try {
+      return await this.throttle(async () => {
+        await this.withSignal(delay(this.latency()), options);
+        this.simulateFailure(operation);
+        return run();
+      }, options);
+    } catch (error: any) {
+      throw this.wrapError(error, message, code);
+    }
+  }
+
+  private latency(): number {
+    const { latency } = this.options;
+    if (typeof latency === 'number') {
+      return latency;
+    }
+    return latency ? latency.min + Math.random() * (latency.max - latency.min) : 0;
+  }
+
+  /**
+   * Fail a call with the first matching failure that fires
+   * Failures are tried in the order they were added, each with its own probability.
+   */
+  private simulateFailure(operation: string): void {
+    const failure = this.failures.find(candidate =>
+      (!candidate.operation || candidate.operation === operation) &&
+      (candidate.remaining === undefined || candidate.remaining > 0) &&
+      (candidate.probability === undefined || Math.random() < candidate.probability)
+    );
+    if (!failure) {
+      return;
+    }
+
+    if (failure.remaining !== undefined) {
+      failure.remaining--;
+    }
+    throw new CRMError(
+      failure.message || `Simulated failure of ${operation}`,
+      failure.code || 'SIMULATED_FAILURE',
+      'memory',
+      { operation, status: failure.status }
+    );
+  }
+
+  /**
+   * Store a new record, with a generated ID unless it has one
+   * A record whose ID is taken fails with 'DUPLICATE_VALUE' rather than replacing it.
+   */
+  private insert(entity: Entity, record: any): any {
+    const now = new Date();
+    if (record.id !== undefined && this.records[entity].has(record.id)) {
+      throw new CRMError(
+        `${ID_PREFIXES[entity]} already exists: ${record.id}`,
+        'DUPLICATE_VALUE',
+        'memory',
+        { status: 409 }
+      );
+    }
+
+    let id = record.id;
+    while (id === undefined || this.records[entity].has(id)) {
+      id = `${ID_PREFIXES[entity]}-${++this.sequence}`;
+    }
+    const stored = {
+      ...copy(record),
+      id,
+      providerId: id,
+      ...(entity === 'leads' || entity === 'contacts' ? { provider: 'memory' } : {}),
+      createdAt: record.createdAt ?? now,
+      updatedAt: record.updatedAt ?? now
+    };
+    this.records[entity].set(id, stored);
+    return copy(stored);
+  }
+
+  private find(entity: Entity, id: string): any {
+    const record = this.records[entity].get(id);
+    if (!record) {
+      throw new CRMError(
+        `${ID_PREFIXES[entity]} not found: ${id}`,
+        'NOT_FOUND',
+        'memory',
+        { status: 404 }
+      );
+    }
+    return copy(record);
+  }
+
+  private modify(entity: Entity, id: string, updates: Record<string, any>): any {
+    const current = this.find(entity, id);
+    const changes = Object.fromEntries(Object.entries(copy(updates)).filter(([, value]) => value !== undefined));
+    const updated = {
+      ...current,
+      ...changes,
+      id,
+      providerId: id,
+      customFields: updates.customFields ? { ...current.customFields, ...changes.customFields } : current.customFields,
+      updatedAt: new Date()
+    };
+    this.records[entity].set(id, updated);
+    return copy(updated);
+  }
+
+  private search(entity: Entity, criteria: SearchCriteria): SearchResult<any> {
+    let matches = [...this.records[entity].values()];
+
+    if (criteria.query) {
+      const query = criteria.query.toLowerCase();
+      matches = matches.filter(record => Object.entries(record).some(([field, value]) =>
+        !['id', 'providerId', 'provider'].includes(field) && containsText(value, query)
+      ));
+    }
+
+    Object.entries(criteria.filters || {}).forEach(([field, expected]) => {
+      matches = matches.filter(record => {
+        const value = fieldValue(record, field);
+        if (expected === null) {
+          return value === undefined || value === null;
+        }
+        return Array.isArray(expected)
+          ? expected.some(item => equals(value, item))
+          : equals(value, expected);
+      });
+    });
+
+    if (criteria.sortBy) {
+      const direction = criteria.sortOrder === 'desc' ? -1 : 1;
+      matches.sort((a, b) => compareValues(fieldValue(a, criteria.sortBy!), fieldValue(b, criteria.sortBy!), direction));
+    }
+
+    const offset = criteria.offset || 0;
+    const limit = criteria.limit || 100;
+    const results = matches.slice(offset, offset + limit).map(copy);
+
+    return {
+      results,
+      total: matches.length,
+      hasMore: offset + results.length < matches.length,
+      nextOffset: offset + results.length
+    };
+  }
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/** A field of a record, or else a custom field */
+function fieldValue(record: any, field: string): any {
+  return record[field] !== undefined ? record[field] : record.customFields?.[field];
+}
+
+function equals(value: any, expected: any): boolean {
+  if (value instanceof Date || expected instanceof Date) {
+    return new Date(value).getTime() === new Date(expected).getTime();
+  }
+  return value === expected;
+}
+
+/** Order by value, with missing values last in either direction */
+function compareValues(a: any, b: any, direction: number): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b) * direction;
+  }
+  const difference = Number(a instanceof Date ? a.getTime() : a) - Number(b instanceof Date ? b.getTime() : b);
+  return (difference > 0 ? 1 : difference < 0 ? -1 : 0) * direction;
+}
+
+function containsText(value: any, query: string): boolean {
+  if (typeof value === 'string') {
+    return value.toLowerCase().includes(query);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.values(value).some(item => containsText(item, query));
+  }
+  return false;
+}
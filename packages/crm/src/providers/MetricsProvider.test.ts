@@ -0,0 +1,40 @@
+import { MetricsRegistry } from '@cognio/core';
+import { InMemoryProvider } from './InMemoryProvider';
+import { MetricsProvider } from './MetricsProvider';
+
+describe('MetricsProvider', () => {
+  let metrics: MetricsRegistry;
+  let crm: MetricsProvider;
+
+  beforeEach(async () => {
+    metrics = new MetricsRegistry();
+    crm = new MetricsProvider(new InMemoryProvider(), 'memory', metrics);
+    await crm.initialize();
+  });
+
+  it('counts operations by outcome and times them', async () => {
+    const lead = await crm.createLead({ email: 'jane@acme.com' });
+    await crm.getLead(lead.id!);
+    await crm.getLead(lead.id!);
+
+    expect(metrics.getMetric('crm_operations_total')?.series).toEqual(expect.arrayContaining([
+      { labels: { provider: 'memory', operation: 'createLead', status: 'success' }, value: 1 },
+      { labels: { provider: 'memory', operation: 'getLead', status: 'success' }, value: 2 }
+    ]));
+    expect(metrics.getMetric('crm_operation_duration_seconds')?.series).toContainEqual(expect.objectContaining({
+      labels: { provider: 'memory', operation: 'getLead', status: 'success' },
+      value: 2
+    }));
+  });
+
+  it('counts errors by code and rethrows them', async () => {
+    await expect(crm.getLead('missing')).rejects.toMatchObject({ code: 'READ_FAILED' });
+
+    expect(metrics.getMetric('crm_operations_total')?.series).toContainEqual(
+      { labels: { provider: 'memory', operation: 'getLead', status: 'error' }, value: 1 }
+    );
+    expect(metrics.getMetric('crm_operation_errors_total')?.series).toEqual([
+      { labels: { provider: 'memory', operation: 'getLead', code: 'READ_FAILED' }, value: 1 }
+    ]);
+  });
+});
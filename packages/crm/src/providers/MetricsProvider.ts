@@ -0,0 +1,177 @@
+/**
+ * Metrics Provider
+ * Wraps a CRM provider so every operation is counted and timed
+ */
+
+import { Lead, Contact, IMetricsRegistry, getGlobalMetrics } from '@cognio/core';
+import {
+  ICRMProvider,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMQuota
+} from '../types';
+import type { RateLimiter } from '../RateLimiter';
+
+/**
+ * Provider decorator recording operation counts, errors and latency
+ * Metrics are labelled by provider and operation and recorded in the given registry,
+ * or the global one when none is given.
+ */
+export class MetricsProvider implements ICRMProvider {
+  constructor(
+    private provider: ICRMProvider,
+    private providerName: string,
+    private metrics?: IMetricsRegistry
+  ) {}
+
+  /**
+   * Initialize the wrapped provider
+   */
+  async initialize(): Promise<void> {
+    return this.measure('initialize', () => this.provider.initialize());
+  }
+
+  /**
+   * Create lead
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.measure('createLead', () => this.provider.createLead(lead, options));
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.measure('getLead', () => this.provider.getLead(id, options));
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.measure('updateLead', () => this.provider.updateLead(id, updates, options));
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    return this.measure('deleteLead', () => this.provider.deleteLead(id, options));
+  }
+
+  /**
+   * Search leads
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    return this.measure('searchLeads', () => this.provider.searchLeads(criteria, options));
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.measure('createContact', () => this.provider.createContact(contact, options));
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.measure('getContact', () => this.provider.getContact(id, options));
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.measure('updateContact', () => this.provider.updateContact(id, updates, options));
+  }
+
+  /**
+   * Create opportunity
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.measure('createOpportunity', () => this.provider.createOpportunity(opportunity, options));
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.measure('getOpportunity', () => this.provider.getOpportunity(id, options));
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    return this.measure('createAccount', () => this.provider.createAccount(account, options));
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    return this.measure('getAccount', () => this.provider.getAccount(id, options));
+  }
+
+  /**
+   * Last API quota reported by the wrapped provider
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.provider.getQuota?.();
+  }
+
+  /**
+   * Pass the rate limiter on to the wrapped provider
+   */
+  useRateLimiter(limiter: RateLimiter | undefined): boolean {
+    return this.provider.useRateLimiter?.(limiter) ?? false;
+  }
+
+  /**
+   * Close the wrapped provider
+   */
+  async close(): Promise<void> {
+    return this.provider.close();
+  }
+
+  /**
+   * Run an operation and record its outcome and duration
+   */
+  private async measure<T>(
+    operation: string,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const registry = this.metrics ?? getGlobalMetrics();
+    if (!registry) {
+      return request();
+    }
+
+    const labels = { provider: this.providerName, operation };
+    const startTime = Date.now();
+    let status = 'success';
+
+    try {
+      return await request();
+    } catch (error) {
+      status = 'error';
+      registry
+        .counter('crm_operation_errors_total', 'CRM operation errors by error code', ['provider', 'operation', 'code'])
+        .inc({ ...labels, code: String((error as any)?.code || 'UNKNOWN') });
+      throw error;
+    } finally {
+      registry
+        .counter('crm_operations_total', 'CRM operations by outcome', ['provider', 'operation', 'status'])
+        .inc({ ...labels, status });
+      registry
+        .histogram('crm_operation_duration_seconds', 'CRM operation duration in seconds', ['provider', 'operation', 'status'])
+        .observe({ ...labels, status }, (Date.now() - startTime) / 1000);
+    }
+  }
+}
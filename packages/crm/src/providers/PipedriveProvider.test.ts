@@ -0,0 +1,168 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { PipedriveProvider } from './PipedriveProvider';
+
+interface Recorded {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+}
+
+type Handler = (request: Recorded) => { status?: number; body: any } | Promise<{ status?: number; body: any }>;
+
+const SCORE_KEY = 'a'.repeat(40);
+
+/** Pipedrive API stand-in answering with the handler of a route, or 404 */
+async function startPipedrive(routes: Record<string, Handler>): Promise<{ server: Server; url: string; requests: Recorded[] }> {
+  const requests: Recorded[] = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let text = '';
+    for await (const chunk of req) {
+      text += chunk;
+    }
+    const url = new URL(req.url!, 'http://localhost');
+    const request = { method: req.method!, path: url.pathname, query: url.searchParams, body: text ? JSON.parse(text) : undefined };
+    requests.push(request);
+
+    const route = Object.keys(routes).find(key => {
+      const [method, pattern] = key.split(' ');
+      return method === request.method && new RegExp(`^${pattern}$`).test(request.path);
+    });
+    const { status = 200, body } = route ? await routes[route](request) : { status: 404, body: { success: false, error: 'Not found' } };
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+const ok = (data: any, additional_data?: any) => ({ body: { success: true, data, additional_data } });
+
+describe('PipedriveProvider', () => {
+  let server: Server;
+  let requests: Recorded[];
+  let provider: PipedriveProvider;
+
+  async function start(routes: Record<string, Handler>): Promise<void> {
+    let endpoint: string;
+    ({ server, requests, url: endpoint } = await startPipedrive({ 'GET /users/me': () => ok({ id: 1 }), ...routes }));
+    provider = new PipedriveProvider({ provider: 'pipedrive', apiKey: 'token', endpoint });
+    await provider.initialize();
+  }
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('createLead', () => {
+    it('keeps the industry, source, score and status of the lead', async () => {
+      await start({
+        'GET /organizations/search': () => ok({ items: [] }),
+        'POST /organizations': () => ok({ id: 7 }),
+        'GET /persons/search': () => ok({ items: [] }),
+        'POST /persons': () => ok({ id: 3 }),
+        'GET /dealFields': () => ok([{ key: SCORE_KEY, name: 'Score', field_type: 'double' }]),
+        'POST /leads': () => ok({ id: 'lead-1', is_archived: false }),
+        'PATCH /leads/lead-1': () => ok({ id: 'lead-1', is_archived: true })
+      });
+
+      const lead = await provider.createLead({
+        email: 'jane@acme.com',
+        firstName: 'Jane',
+        company: 'Acme',
+        industry: 'Software',
+        source: 'webinar',
+        score: 80,
+        status: 'archived'
+      });
+
+      const body = (method: string, path: string) =>
+        requests.find(request => request.method === method && request.path === path)?.body;
+      expect(body('POST', '/organizations')).toEqual({ name: 'Acme', industry: 'Software' });
+      expect(body('POST', '/leads')).toMatchObject({ origin_id: 'webinar', [SCORE_KEY]: 80, person_id: 3, organization_id: 7 });
+      expect(body('PATCH', '/leads/lead-1')).toEqual({ is_archived: true });
+      expect(lead).toMatchObject({ id: 'lead-1', status: 'archived', score: 80, industry: 'Software' });
+    });
+
+    it('fails when there is no field for the score', async () => {
+      await start({
+        'GET /persons/search': () => ok({ items: [{ item: { id: 3 } }] }),
+        'GET /dealFields': () => ok([])
+      });
+
+      await expect(provider.createLead({ email: 'jane@acme.com', score: 80 }))
+        .rejects.toMatchObject({ code: 'CREATE_FAILED', details: { code: 'INVALID_FIELD' } });
+      expect(requests.some(request => request.path === '/leads')).toBe(false);
+    });
+  });
+
+  describe('searchLeads', () => {
+    const lead = (id: number, personId: number) => ({ id: `lead-${id}`, person_id: personId, organization_id: 7, is_archived: false });
+
+    it('reads each linked person and organization once', async () => {
+      await start({
+        'GET /leads': () => ok([lead(1, 3), lead(2, 3), lead(3, 4)]),
+        'GET /persons/\\d+': request => ok({ id: Number(request.path.split('/')[2]), first_name: 'Jane', email: [{ value: 'jane@acme.com', primary: true }] }),
+        'GET /organizations/7': () => ok({ id: 7, name: 'Acme', industry: 'Software' })
+      });
+
+      const result = await provider.searchLeads({ limit: 10 });
+
+      expect(result.results.map(item => item.company)).toEqual(['Acme', 'Acme', 'Acme']);
+      expect(result.results[0]).toMatchObject({ email: 'jane@acme.com', industry: 'Software' });
+      expect(requests.filter(request => request.path.startsWith('/persons/')).map(request => request.path).sort())
+        .toEqual(['/persons/3', '/persons/4']);
+      expect(requests.filter(request => request.path.startsWith('/organizations/'))).toHaveLength(1);
+    });
+
+    it('reads at most five persons at a time', async () => {
+      let active = 0;
+      let peak = 0;
+      await start({
+        'GET /leads': () => ok(Array.from({ length: 12 }, (_, index) => ({ ...lead(index, index + 1), organization_id: null }))),
+        'GET /persons/\\d+': async request => {
+          peak = Math.max(peak, ++active);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          active--;
+          return ok({ id: Number(request.path.split('/')[2]) });
+        }
+      });
+
+      const result = await provider.searchLeads({});
+
+      expect(result.results).toHaveLength(12);
+      expect(peak).toBeLessThanOrEqual(5);
+    });
+
+    it('leaves the total unset while there are more leads, without reading them', async () => {
+      await start({
+        'GET /leads': request => ok([lead(1, 3), lead(2, 3)], {
+          pagination: { start: Number(request.query.get('start')), limit: 2, more_items_in_collection: true, next_start: 2 }
+        }),
+        'GET /persons/3': () => ok({ id: 3 }),
+        'GET /organizations/7': () => ok({ id: 7, name: 'Acme' })
+      });
+
+      const result = await provider.searchLeads({ limit: 2 });
+
+      expect(result).toMatchObject({ hasMore: true, nextOffset: 2 });
+      expect(result.total).toBeUndefined();
+      expect(result.results).toHaveLength(2);
+      expect(requests.filter(request => request.path === '/leads')).toHaveLength(1);
+    });
+
+    it('reports the offset and the page as the total of the last page', async () => {
+      await start({
+        'GET /leads': () => ok([lead(1, 3)], { pagination: { start: 10, limit: 5, more_items_in_collection: false } }),
+        'GET /persons/3': () => ok({ id: 3 }),
+        'GET /organizations/7': () => ok({ id: 7, name: 'Acme' })
+      });
+
+      const result = await provider.searchLeads({ offset: 10, limit: 5 });
+
+      expect(result).toMatchObject({ total: 11, hasMore: false, nextOffset: undefined });
+      expect(requests.filter(request => request.path === '/leads')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,1010 @@
+/**
+ * Pipedrive CRM Provider
+ */
+
+import { BaseCRMProvider } from './BaseCRMProvider';
+import {
+  CRMConfig,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMQuota,
+  CRMError
+} from '../types';
+import { Lead, Contact, injectTraceContext } from '@cognio/core';
+
+/** Entities whose custom fields are defined together; leads share the deal fields */
+type FieldEntity = 'deal' | 'person' | 'organization';
+
+/** Custom or standard field definition of an entity */
+interface FieldDefinition {
+  key: string;
+  name: string;
+  field_type: string;
+  options?: Array<{ id: number | string; label: string }>;
+}
+
+interface Pipeline {
+  id: number;
+  name: string;
+  order_nr: number;
+}
+
+interface Stage {
+  id: number;
+  name: string;
+  pipeline_id: number;
+  order_nr: number;
+}
+
+/** Response of a Pipedrive API call */
+interface PipedriveResponse<T> {
+  data: T;
+  additional_data?: {
+    pagination?: {
+      start: number;
+      limit: number;
+      more_items_in_collection: boolean;
+      next_start?: number;
+    };
+  };
+}
+
+interface RequestParams {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: any;
+}
+
+/** Custom field keys are 40-character hashes */
+const FIELD_HASH = /^[0-9a-f]{40}$/;
+
+/** Largest page Pipedrive returns */
+const MAX_PAGE_SIZE = 500;
+
+/** Persons or organizations of a page of leads read at the same time */
+const LOOKUP_CONCURRENCY = 5;
+
+/** Lead filters and the list parameters they map to */
+const LEAD_FILTERS: Record<string, string> = {
+  ownerId: 'owner_id',
+  owner_id: 'owner_id',
+  personId: 'person_id',
+  person_id: 'person_id',
+  organizationId: 'organization_id',
+  organization_id: 'organization_id',
+  filterId: 'filter_id',
+  filter_id: 'filter_id'
+};
+
+/** Lead sort fields, with their Pipedrive names */
+const LEAD_SORT_FIELDS: Record<string, string> = {
+  title: 'title',
+  createdAt: 'add_time',
+  updatedAt: 'update_time',
+  expectedCloseDate: 'expected_close_date',
+  add_time: 'add_time',
+  update_time: 'update_time',
+  expected_close_date: 'expected_close_date',
+  id: 'id'
+};
+
+/**
+ * Pipedrive provider implementation
+ *
+ * Leads are Pipedrive leads linked to a person (name, email, phone, job title) and an
+ * organization (company, industry); persons and organizations are matched by email and
+ * name before new ones are created. A lead's source is its origin ID and its score is
+ * kept in the lead field named by the `scoreField` option (default: 'Score').
+ * Contacts are persons, accounts organizations and opportunities deals.
+ * Authenticates with an API token (apiKey).
+ *
+ * Custom fields are read and written in customFields by field name; their hash keys
+ * and option IDs are translated using the entity's field definitions. Opportunity
+ * stages are given by name (or ID) and resolved in the `pipeline` option (name or ID,
+ * default: the first pipeline). `endpoint` replaces the API base URL, e.g.
+ * https://acme.pipedrive.com/api/v1.
+ */
+export class PipedriveProvider extends BaseCRMProvider {
+  private baseUrl: string = 'https://api.pipedrive.com/v1';
+  private fields: Map<FieldEntity, Promise<FieldDefinition[]>> = new Map();
+  private pipelines?: Promise<{ pipelines: Pipeline[]; stages: Stage[] }>;
+  private quota?: CRMQuota;
+
+  constructor(config: CRMConfig) {
+    super({ ...config, provider: 'pipedrive' });
+  }
+
+  /**
+   * Initialize Pipedrive client and verify the API token
+   */
+  async initialize(): Promise<void> {
+    this.validateConfig();
+
+    if (!this.config.apiKey) {
+      throw new CRMError('Pipedrive requires an API token', 'INVALID_CONFIG', 'pipedrive');
+    }
+
+    if (this.config.endpoint) {
+      this.baseUrl = this.config.endpoint.replace(/\/+$/, '');
+    }
+
+    try {
+      await this.request('GET', '/users/me');
+      this.initialized = true;
+    } catch (error: any) {
+      throw new CRMError(
+        'Failed to initialize Pipedrive',
+        'INIT_FAILED',
+        'pipedrive',
+        error
+      );
+    }
+  }
+
+  /**
+   * Create lead, with its person and organization
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      const organizationId = lead.company
+        ? await this.findOrCreateOrganization(lead.company, lead.industry, options)
+        : undefined;
+      const personId = await this.findOrCreatePerson({
+        name: fullName(lead.firstName, lead.lastName) || lead.email,
+        email: lead.email,
+        phone: lead.phone,
+        job_title: lead.title,
+        org_id: organizationId
+      }, options);
+
+      const fields = await this.leadFields(lead, options);
+      let { data } = await this.request<any>('POST', '/leads', {
+        body: withoutUndefined({
+          title: lead.company || fullName(lead.firstName, lead.lastName) || lead.email,
+          person_id: personId,
+          organization_id: organizationId,
+          ...fields
+        })
+      }, options);
+
+      // Leads are created open; archiving them is an update
+      if (isArchived(lead.status)) {
+        ({ data } = await this.request<any>('PATCH', `/leads/${encodeURIComponent(data.id)}`, {
+          body: { is_archived: true }
+        }, options));
+      }
+
+      return {
+        ...lead,
+        id: data.id,
+        providerId: data.id,
+        provider: 'pipedrive',
+        status: data.is_archived ? 'archived' : 'open',
+        createdAt: toDate(data.add_time),
+        updatedAt: toDate(data.update_time),
+        raw: data
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create lead', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      const { data } = await this.request<any>('GET', `/leads/${encodeURIComponent(id)}`, {}, options);
+      const [lead] = await this.mapPipedriveLeads([data], options);
+      return lead;
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get lead', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Update lead and its person
+   * Status 'archived' archives the lead; any other status restores it.
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      const { data: current } = await this.request<any>('GET', `/leads/${encodeURIComponent(id)}`, {}, options);
+      const leadUpdates: Record<string, any> = await this.leadFields(updates, options);
+
+      if (updates.company) {
+        leadUpdates.organization_id = await this.findOrCreateOrganization(
+          updates.company,
+          updates.industry,
+          options
+        );
+      } else if (updates.industry !== undefined && current.organization_id) {
+        await this.request('PUT', `/organizations/${current.organization_id}`, {
+          body: { industry: updates.industry }
+        }, options);
+      }
+      if (updates.status !== undefined) {
+        leadUpdates.is_archived = isArchived(updates.status);
+      }
+
+      const personUpdates = withoutUndefined({
+        email: updates.email !== undefined ? [{ value: updates.email, primary: true }] : undefined,
+        phone: updates.phone !== undefined ? [{ value: updates.phone, primary: true }] : undefined,
+        job_title: updates.title
+      });
+
+      // Persons are named as a whole, so a changed first or last name keeps the other
+      if ((updates.firstName !== undefined || updates.lastName !== undefined) && current.person_id) {
+        const { data: person } = await this.request<any>('GET', `/persons/${current.person_id}`, {}, options);
+        personUpdates.name = fullName(
+          updates.firstName ?? person.first_name,
+          updates.lastName ?? person.last_name
+        );
+      }
+
+      if (Object.keys(personUpdates).length > 0) {
+        if (current.person_id) {
+          await this.request('PUT', `/persons/${current.person_id}`, { body: personUpdates }, options);
+        } else {
+          leadUpdates.person_id = await this.findOrCreatePerson({
+            name: fullName(updates.firstName, updates.lastName) || updates.email,
+            email: updates.email,
+            phone: updates.phone,
+            job_title: updates.title,
+            org_id: leadUpdates.organization_id ?? current.organization_id ?? undefined
+          }, options);
+        }
+      }
+
+      if (Object.keys(leadUpdates).length > 0) {
+        await this.request('PATCH', `/leads/${encodeURIComponent(id)}`, { body: leadUpdates }, options);
+      }
+
+      return this.getLead(id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to update lead', 'UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await this.request('DELETE', `/leads/${encodeURIComponent(id)}`, {}, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to delete lead', 'DELETE_FAILED');
+    }
+  }
+
+  /**
+   * Search leads
+   * With a query, leads are found by title, notes and custom fields; otherwise they
+   * are listed. Filters take ownerId, personId, organizationId, filterId (a saved
+   * Pipedrive filter) and status ('open', 'archived' or 'all'). Sorting is not
+   * available with a query. Pipedrive does not count matches, so when there are
+   * more, the total is counted by reading the rest in pages of 500.
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    this.ensureInitialized();
+
+    try {
+      const start = criteria.offset || 0;
+      const query: Record<string, string | number | undefined> = {
+        start,
+        limit: Math.min(criteria.limit || 100, MAX_PAGE_SIZE)
+      };
+
+      Object.entries(criteria.filters || {}).forEach(([key, value]) => {
+        if (key === 'status') {
+          query.archived_status = value === 'archived' ? 'archived' : value === 'all' ? 'all' : 'not_archived';
+        } else if (LEAD_FILTERS[key]) {
+          query[LEAD_FILTERS[key]] = value;
+        } else {
+          throw new CRMError(`Unsupported lead filter: ${key}`, 'INVALID_FIELD', 'pipedrive');
+        }
+      });
+
+      let path = '/leads';
+      let response: PipedriveResponse<any>;
+      let records: any[];
+
+      if (criteria.query) {
+        if (criteria.sortBy) {
+          throw new CRMError('Leads found by query cannot be sorted', 'INVALID_FIELD', 'pipedrive');
+        }
+        path = '/leads/search';
+        Object.assign(query, { term: criteria.query, archived_status: undefined });
+        response = await this.request<any>('GET', path, { query }, options);
+        // Search results carry the linked records as objects
+        records = (response.data?.items || []).map(({ item }: any) => ({
+          ...item,
+          person_id: item.person?.id ?? null,
+          organization_id: item.organization?.id ?? null
+        }));
+      } else {
+        if (criteria.sortBy) {
+          const field = LEAD_SORT_FIELDS[criteria.sortBy];
+          if (!field) {
+            throw new CRMError(`Leads cannot be sorted by ${criteria.sortBy}`, 'INVALID_FIELD', 'pipedrive');
+          }
+          query.sort = `${field} ${criteria.sortOrder === 'desc' ? 'DESC' : 'ASC'}`;
+        }
+        response = await this.request<any[]>('GET', path, { query }, options);
+        records = response.data || [];
+      }
+
+      const leads = await this.mapPipedriveLeads(records, options);
+      const pagination = response.additional_data?.pagination;
+      const hasMore = pagination?.more_items_in_collection === true && records.length > 0;
+      const nextOffset = pagination?.next_start ?? start + records.length;
+
+      return {
+        results: leads,
+        // Pipedrive does not count matches, so the total is known on the last page only
+        total: hasMore ? undefined : start + records.length,
+        hasMore,
+        nextOffset: hasMore ? nextOffset : undefined
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to search leads', 'SEARCH_FAILED');
+    }
+  }
+
+  /**
+   * Create contact as a person
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      const fields = await this.fromCustomFields('person', contact.customFields, options);
+      const { data } = await this.request<any>('POST', '/persons', {
+        body: withoutUndefined({
+          name: contact.name || contact.email,
+          email: [{ value: contact.email, primary: true }],
+          phone: contact.phone ? [{ value: contact.phone, primary: true }] : undefined,
+          ...fields
+        })
+      }, options);
+
+      return {
+        ...contact,
+        id: String(data.id),
+        providerId: String(data.id),
+        provider: 'pipedrive',
+        raw: data
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create contact', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      const { data } = await this.request<any>('GET', `/persons/${encodeURIComponent(id)}`, {}, options);
+      return this.mapPipedrivePerson(data, await this.toCustomFields('person', data, options));
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get contact', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      const fields = await this.fromCustomFields('person', updates.customFields, options);
+      await this.request('PUT', `/persons/${encodeURIComponent(id)}`, {
+        body: withoutUndefined({
+          name: updates.name,
+          email: updates.email !== undefined ? [{ value: updates.email, primary: true }] : undefined,
+          phone: updates.phone !== undefined ? [{ value: updates.phone, primary: true }] : undefined,
+          ...fields
+        })
+      }, options);
+
+      return this.getContact(id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to update contact', 'UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Create opportunity as a deal
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    this.ensureInitialized();
+
+    try {
+      const stage = await this.resolveStage(opportunity.stage, options);
+      const fields = await this.fromCustomFields('deal', opportunity.customFields, options);
+
+      const { data } = await this.request<any>('POST', '/deals', {
+        body: withoutUndefined({
+          title: opportunity.name,
+          value: opportunity.amount,
+          currency: this.config.options?.currency,
+          stage_id: stage?.id,
+          pipeline_id: stage?.pipeline_id,
+          org_id: toId(opportunity.accountId),
+          person_id: toId(opportunity.contactId),
+          expected_close_date: opportunity.closeDate ? toDateString(opportunity.closeDate) : undefined,
+          probability: opportunity.probability,
+          ...fields
+        })
+      }, options);
+
+      return {
+        ...opportunity,
+        id: String(data.id),
+        providerId: String(data.id),
+        createdAt: toDate(data.add_time),
+        updatedAt: toDate(data.update_time)
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create opportunity', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    this.ensureInitialized();
+
+    try {
+      const { data } = await this.request<any>('GET', `/deals/${encodeURIComponent(id)}`, {}, options);
+      const { stages } = await this.loadPipelines(options);
+      const stage = stages.find(candidate => candidate.id === data.stage_id);
+
+      return {
+        id: String(data.id),
+        providerId: String(data.id),
+        name: data.title,
+        amount: data.value ?? undefined,
+        stage: stage?.name ?? (data.stage_id !== undefined ? String(data.stage_id) : undefined),
+        closeDate: data.expected_close_date ? new Date(data.expected_close_date) : undefined,
+        accountId: linkedId(data.org_id),
+        contactId: linkedId(data.person_id),
+        probability: data.probability ?? undefined,
+        customFields: await this.toCustomFields('deal', data, options),
+        createdAt: toDate(data.add_time),
+        updatedAt: toDate(data.update_time)
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get opportunity', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Create account as an organization
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    this.ensureInitialized();
+
+    try {
+      const fields = await this.fromCustomFields('organization', account.customFields, options);
+      const address = account.address
+        ? [
+          account.address.street,
+          account.address.city,
+          account.address.state,
+          account.address.postalCode,
+          account.address.country
+        ].filter(Boolean).join(', ')
+        : undefined;
+
+      const { data } = await this.request<any>('POST', '/organizations', {
+        body: withoutUndefined({
+          name: account.name,
+          address: address || undefined,
+          industry: account.industry,
+          website: account.website,
+          employee_count: account.employees,
+          annual_revenue: account.revenue,
+          ...fields
+        })
+      }, options);
+
+      return {
+        ...account,
+        id: String(data.id),
+        providerId: String(data.id),
+        createdAt: toDate(data.add_time),
+        updatedAt: toDate(data.update_time)
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create account', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    this.ensureInitialized();
+
+    try {
+      const { data } = await this.request<any>('GET', `/organizations/${encodeURIComponent(id)}`, {}, options);
+
+      return {
+        id: String(data.id),
+        providerId: String(data.id),
+        name: data.name,
+        industry: data.industry ?? undefined,
+        website: data.website ?? undefined,
+        employees: data.employee_count ?? undefined,
+        revenue: data.annual_revenue ?? undefined,
+        address: {
+          street: [data.address_route, data.address_street_number].filter(Boolean).join(' ') ||
+            data.address || undefined,
+          city: data.address_locality ?? undefined,
+          state: data.address_admin_area_level_1 ?? undefined,
+          postalCode: data.address_postal_code ?? undefined,
+          country: data.address_country ?? undefined
+        },
+        customFields: await this.toCustomFields('organization', data, options),
+        createdAt: toDate(data.add_time),
+        updatedAt: toDate(data.update_time)
+      };
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get account', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Request quota reported in the rate limit headers of the last response
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.quota;
+  }
+
+  /**
+   * Call the Pipedrive API
+   * Sends the API token and the active trace context as headers. Errors keep their
+   * HTTP status and headers for retry classification and Retry-After.
+   */
+  private async request<T = any>(
+    method: string,
+    path: string,
+    params: RequestParams = {},
+    options?: CRMRequestOptions
+  ): Promise<PipedriveResponse<T>> {
+    const url = new URL(this.baseUrl + path);
+    Object.entries(params.query || {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    });
+
+    const headers = injectTraceContext({
+      'x-api-token': this.config.apiKey!,
+      accept: 'application/json'
+    });
+    if (params.body !== undefined) {
+      headers['content-type'] = 'application/json';
+    }
+
+    const response = await this.throttle(async () => {
+      const sent = await fetch(url, {
+        method,
+        headers,
+        body: params.body !== undefined ? JSON.stringify(params.body) : undefined,
+        signal: options?.signal
+      });
+      this.readQuota(sent.headers);
+      return sent;
+    }, options);
+
+    const text = await this.withSignal(response.text(), options);
+    const body = text ? safeParse(text) : undefined;
+
+    if (!response.ok || body?.success === false) {
+      const error: Error & { status?: number; errorCode?: string; headers?: Headers } = new Error(
+        body?.error || `Pipedrive request failed with status ${response.status}`
+      );
+      error.status = response.status;
+      error.errorCode = body?.errorCode !== undefined ? String(body.errorCode) : undefined;
+      error.headers = response.headers;
+      throw error;
+    }
+
+    return body ?? { data: undefined };
+  }
+
+  private readQuota(headers: Headers): void {
+    const limit = Number(headers.get('x-ratelimit-limit'));
+    const remaining = Number(headers.get('x-ratelimit-remaining'));
+    if (headers.has('x-ratelimit-limit') && !Number.isNaN(limit) && !Number.isNaN(remaining)) {
+      this.quota = { used: limit - remaining, limit, remaining, updatedAt: new Date() };
+    }
+  }
+
+  /**
+   * ID of the person with an email, creating the person if there is none
+   */
+  private async findOrCreatePerson(
+    person: { name?: string; email?: string; phone?: string; job_title?: string; org_id?: number },
+    options?: CRMRequestOptions
+  ): Promise<number> {
+    if (person.email) {
+      const existing = await this.findId('/persons/search', person.email, 'email', options);
+      if (existing !== undefined) {
+        return existing;
+      }
+    }
+
+    const { data } = await this.request<any>('POST', '/persons', {
+      body: withoutUndefined({
+        name: person.name,
+        email: person.email ? [{ value: person.email, primary: true }] : undefined,
+        phone: person.phone ? [{ value: person.phone, primary: true }] : undefined,
+        job_title: person.job_title,
+        org_id: person.org_id
+      })
+    }, options);
+    return data.id;
+  }
+
+  /**
+   * ID of the organization with a name, creating the organization if there is none
+   * An industry given is set on the organization found or created.
+   */
+  private async findOrCreateOrganization(
+    name: string,
+    industry: string | undefined,
+    options?: CRMRequestOptions
+  ): Promise<number> {
+    const existing = await this.findId('/organizations/search', name, 'name', options);
+    if (existing !== undefined) {
+      if (industry !== undefined) {
+        await this.request('PUT', `/organizations/${existing}`, { body: { industry } }, options);
+      }
+      return existing;
+    }
+
+    const { data } = await this.request<any>('POST', '/organizations', {
+      body: withoutUndefined({ name, industry })
+    }, options);
+    return data.id;
+  }
+
+  private async findId(path: string, term: string, field: string, options?: CRMRequestOptions): Promise<number | undefined> {
+    const { data } = await this.request<any>('GET', path, {
+      query: { term, fields: field, exact_match: true, limit: 1 }
+    }, options);
+    return data?.items?.[0]?.item?.id;
+  }
+
+  /**
+   * Field definitions of an entity, loaded once
+   */
+  private loadFields(entity: FieldEntity, options?: CRMRequestOptions): Promise<FieldDefinition[]> {
+    let fields = this.fields.get(entity);
+    if (!fields) {
+      fields = this.request<FieldDefinition[]>('GET', `/${entity}Fields`, {
+        query: { limit: 500 }
+      }, options).then(response => response.data || []);
+      this.fields.set(entity, fields);
+      // A failed load is retried by the next request
+      fields.catch(() => this.fields.delete(entity));
+    }
+    return fields;
+  }
+
+  /**
+   * Lead request fields of a lead's source, score and custom fields
+   * Fails with 'INVALID_FIELD' when a score is given and there is no score field.
+   */
+  private async leadFields(lead: Partial<Lead>, options?: CRMRequestOptions): Promise<Record<string, any>> {
+    const fields = await this.fromCustomFields('deal', lead.customFields, options);
+
+    if (lead.source !== undefined) {
+      fields.origin_id = lead.source;
+    }
+    if (lead.score !== undefined) {
+      const scoreField = findField(await this.loadFields('deal', options), this.scoreField());
+      if (!scoreField) {
+        throw new CRMError(
+          `No Pipedrive lead field named ${this.scoreField()} holds the score; set the scoreField option`,
+          'INVALID_FIELD',
+          'pipedrive'
+        );
+      }
+      fields[scoreField.key] = lead.score;
+    }
+    return fields;
+  }
+
+  private scoreField(): string {
+    return this.config.options?.scoreField ?? 'Score';
+  }
+
+  /**
+   * Request body fields for customFields given by field name or key
+   * Option labels of enum and set fields are translated to option IDs. Names that
+   * match no field are sent as they are.
+   */
+  private async fromCustomFields(
+    entity: FieldEntity,
+    customFields: Record<string, any> | undefined,
+    options?: CRMRequestOptions
+  ): Promise<Record<string, any>> {
+    if (!customFields || Object.keys(customFields).length === 0) {
+      return {};
+    }
+
+    const definitions = await this.loadFields(entity, options);
+    const fields: Record<string, any> = {};
+
+    Object.entries(customFields).forEach(([name, value]) => {
+      const definition = findField(definitions, name);
+      if (!definition) {
+        fields[name] = value;
+        return;
+      }
+
+      const optionId = (label: any) =>
+        definition.options?.find(option => option.label === label)?.id ?? label;
+      if (definition.field_type === 'set' && Array.isArray(value)) {
+        fields[definition.key] = value.map(optionId).join(',');
+      } else if (definition.field_type === 'enum') {
+        fields[definition.key] = optionId(value);
+      } else {
+        fields[definition.key] = value;
+      }
+    });
+
+    return fields;
+  }
+
+  /**
+   * customFields of a record by field name, from its hash-keyed custom fields
+   * Option IDs of enum and set fields are translated to their labels.
+   */
+  private async toCustomFields(
+    entity: FieldEntity,
+    record: Record<string, any>,
+    options?: CRMRequestOptions
+  ): Promise<Record<string, any> | undefined> {
+    const keys = Object.keys(record).filter(key => FIELD_HASH.test(key) && record[key] !== null);
+    if (keys.length === 0) {
+      return undefined;
+    }
+
+    const definitions = await this.loadFields(entity, options);
+    const customFields: Record<string, any> = {};
+
+    keys.forEach(key => {
+      const definition = definitions.find(field => field.key === key);
+      const value = record[key];
+      const label = (id: any) =>
+        definition?.options?.find(option => String(option.id) === String(id))?.label ?? id;
+
+      if (definition?.field_type === 'set') {
+        customFields[definition.name] = String(value).split(',').map(label);
+      } else if (definition?.field_type === 'enum') {
+        customFields[definition.name] = label(value);
+      } else {
+        customFields[definition?.name ?? key] = value;
+      }
+    });
+
+    return customFields;
+  }
+
+  /**
+   * Pipelines and stages, loaded once
+   */
+  private loadPipelines(options?: CRMRequestOptions): Promise<{ pipelines: Pipeline[]; stages: Stage[] }> {
+    if (!this.pipelines) {
+      this.pipelines = Promise.all([
+        this.request<Pipeline[]>('GET', '/pipelines', {}, options),
+        this.request<Stage[]>('GET', '/stages', {}, options)
+      ]).then(([pipelines, stages]) => ({
+        pipelines: (pipelines.data || []).sort((a, b) => a.order_nr - b.order_nr),
+        stages: (stages.data || []).sort((a, b) => a.order_nr - b.order_nr)
+      }));
+      this.pipelines.catch(() => {
+        this.pipelines = undefined;
+      });
+    }
+    return this.pipelines;
+  }
+
+  /**
+   * Stage of a new deal, by name or ID, in the configured pipeline
+   * Without a stage, the first stage of a configured pipeline; otherwise Pipedrive's default.
+   */
+  private async resolveStage(stageName: string | undefined, options?: CRMRequestOptions): Promise<Stage | undefined> {
+    const pipelineOption = this.config.options?.pipeline;
+    if (stageName === undefined && pipelineOption === undefined) {
+      return undefined;
+    }
+
+    const { pipelines, stages } = await this.loadPipelines(options);
+    const pipeline = pipelineOption === undefined
+      ? pipelines[0]
+      : pipelines.find(candidate => matches(candidate, pipelineOption));
+    if (!pipeline) {
+      throw new CRMError(`Unknown Pipedrive pipeline: ${pipelineOption}`, 'INVALID_FIELD', 'pipedrive');
+    }
+
+    const pipelineStages = stages.filter(stage => stage.pipeline_id === pipeline.id);
+    const stage = stageName === undefined
+      ? pipelineStages[0]
+      : pipelineStages.find(candidate => matches(candidate, stageName));
+    if (!stage) {
+      throw new CRMError(
+        `Unknown stage ${stageName} in Pipedrive pipeline ${pipeline.name}`,
+        'INVALID_FIELD',
+        'pipedrive'
+      );
+    }
+    return stage;
+  }
+
+  /**
+   * Map Pipedrive leads to CRMLeads with their persons and organizations
+   * Each linked person and organization is read once, a few at a time.
+   */
+  private async mapPipedriveLeads(leads: any[], options?: CRMRequestOptions): Promise<CRMLead[]> {
+    const personIds = [...new Set(leads.map(lead => lead.person_id).filter(Boolean))];
+    const organizationIds = [...new Set(leads.map(lead => lead.organization_id).filter(Boolean))];
+    const read = (path: string) => async (id: number) =>
+      (await this.request<any>('GET', `${path}/${id}`, {}, options)).data;
+
+    const persons = await mapLimit(personIds, LOOKUP_CONCURRENCY, read('/persons'));
+    const organizations = await mapLimit(organizationIds, LOOKUP_CONCURRENCY, read('/organizations'));
+    const personsById = new Map(persons.map(person => [person.id, person]));
+    const organizationsById = new Map(organizations.map(organization => [organization.id, organization]));
+    const scoreKey = leads.some(lead => Object.keys(lead).some(key => FIELD_HASH.test(key)))
+      ? findField(await this.loadFields('deal', options), this.scoreField())?.key
+      : undefined;
+
+    return Promise.all(leads.map(async lead => {
+      const person = personsById.get(lead.person_id);
+      const organization = organizationsById.get(lead.organization_id);
+      return {
+        id: lead.id,
+        providerId: lead.id,
+        provider: 'pipedrive',
+        firstName: person?.first_name ?? undefined,
+        lastName: person?.last_name ?? undefined,
+        email: primaryValue(person?.email) ?? '',
+        phone: primaryValue(person?.phone),
+        company: organization?.name,
+        title: person?.job_title ?? undefined,
+        industry: organization?.industry ?? undefined,
+        source: lead.origin_id ?? lead.source_name ?? undefined,
+        score: scoreKey !== undefined && lead[scoreKey] !== null && lead[scoreKey] !== undefined
+          ? Number(lead[scoreKey])
+          : undefined,
+        status: lead.is_archived ? 'archived' : 'open',
+        customFields: await this.toCustomFields('deal', lead, options),
+        createdAt: toDate(lead.add_time),
+        updatedAt: toDate(lead.update_time),
+        raw: lead
+      };
+    }));
+  }
+
+  /**
+   * Map Pipedrive person to CRMContact
+   */
+  private mapPipedrivePerson(person: any, customFields?: Record<string, any>): CRMContact {
+    return {
+      id: String(person.id),
+      providerId: String(person.id),
+      provider: 'pipedrive',
+      email: primaryValue(person.email) ?? '',
+      name: person.name,
+      phone: primaryValue(person.phone),
+      customFields,
+      raw: person
+    };
+  }
+
+  /**
+   * Close provider
+   */
+  async close(): Promise<void> {
+    this.fields.clear();
+    this.pipelines = undefined;
+    await super.close();
+  }
+}
+
+function fullName(firstName?: string, lastName?: string): string {
+  return [firstName, lastName].filter(Boolean).join(' ');
+}
+
+function isArchived(status: string | undefined): boolean {
+  return status?.toLowerCase() === 'archived';
+}
+
+/** Field definition with a key, or else a name ignoring case */
+function findField(definitions: FieldDefinition[], name: string): FieldDefinition | undefined {
+  return definitions.find(field => field.key === name) ||
+    definitions.find(field => field.name.toLowerCase() === name.toLowerCase());
+}
+
+/** Results of calling fn with every item, running at most limit calls at a time */
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function matches(candidate: { id: number; name: string }, nameOrId: string | number): boolean {
+  return String(candidate.id) === String(nameOrId) ||
+    candidate.name.toLowerCase() === String(nameOrId).toLowerCase();
+}
+
+/** Primary value of a person's email or phone list */
+function primaryValue(values: Array<{ value: string; primary?: boolean }> | undefined): string | undefined {
+  const value = values?.find(item => item.primary)?.value ?? values?.[0]?.value;
+  return value || undefined;
+}
+
+/** ID of a linked record, which Pipedrive returns as an ID or an object */
+function linkedId(value: any): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  return String(typeof value === 'object' ? value.value : value);
+}
+
+function toId(value: string | undefined): number | undefined {
+  return value !== undefined ? Number(value) : undefined;
+}
+
+/** Pipedrive times are UTC without a zone, e.g. '2024-01-31 12:00:00' */
+function toDate(value: string | null | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function toDateString(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function withoutUndefined(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+function safeParse(json: string): any {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,82 @@
+import { Lead } from '@cognio/core';
+import { InMemoryProvider } from './InMemoryProvider';
+import { RateLimitedProvider } from './RateLimitedProvider';
+import { RateLimiter } from '../RateLimiter';
+import { ICRMProvider, CRMLead, CRMQuota, CRMRequestOptions } from '../types';
+
+/** Provider sending two API requests to create a lead */
+class TwoStepProvider extends InMemoryProvider {
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    const created = await super.createLead(lead, options);
+    return this.updateLead(created.id!, { status: 'new' }, options);
+  }
+}
+
+/** Provider without limiter support, reporting a fixed quota */
+function plainProvider(quota?: CRMQuota): ICRMProvider {
+  const memory = new InMemoryProvider();
+  return {
+    initialize: () => memory.initialize(),
+    createLead: (lead, options) => memory.createLead(lead, options),
+    getLead: (id, options) => memory.getLead(id, options),
+    updateLead: (id, updates, options) => memory.updateLead(id, updates, options),
+    deleteLead: (id, options) => memory.deleteLead(id, options),
+    searchLeads: (criteria, options) => memory.searchLeads(criteria, options),
+    createContact: (contact, options) => memory.createContact(contact, options),
+    getContact: (id, options) => memory.getContact(id, options),
+    updateContact: (id, updates, options) => memory.updateContact(id, updates, options),
+    createOpportunity: (opportunity, options) => memory.createOpportunity(opportunity, options),
+    getOpportunity: (id, options) => memory.getOpportunity(id, options),
+    createAccount: (account, options) => memory.createAccount(account, options),
+    getAccount: (id, options) => memory.getAccount(id, options),
+    getQuota: () => quota,
+    close: () => memory.close()
+  };
+}
+
+describe('RateLimitedProvider', () => {
+  it('takes a token for every API request of a provider that throttles them itself', async () => {
+    const limiter = new RateLimiter();
+    const schedule = jest.spyOn(limiter, 'schedule');
+    const crm = new RateLimitedProvider(new TwoStepProvider(), limiter);
+    await crm.initialize();
+
+    await crm.createLead({ email: 'jane@acme.com' });
+
+    expect(schedule).toHaveBeenCalledTimes(2);
+  });
+
+  it('takes a token per call of a provider without limiter support', async () => {
+    const limiter = new RateLimiter();
+    const schedule = jest.spyOn(limiter, 'schedule');
+    const crm = new RateLimitedProvider(plainProvider(), limiter);
+    await crm.initialize();
+
+    const lead = await crm.createLead({ email: 'jane@acme.com' });
+    await crm.getLead(lead.id!);
+
+    expect(schedule).toHaveBeenCalledTimes(2);
+  });
+
+  it('records the quota the provider reports and holds back the reserve', async () => {
+    const quota = { used: 95, limit: 100, remaining: 5, updatedAt: new Date() };
+    const crm = new RateLimitedProvider(plainProvider(quota), { quotaReserve: 10 });
+    await crm.initialize();
+
+    await crm.createLead({ email: 'jane@acme.com' });
+
+    expect(crm.getQuota()).toBe(quota);
+    await expect(crm.getLead('lead-1')).rejects.toMatchObject({ code: 'QUOTA_EXCEEDED' });
+    await expect(crm.getLead('lead-1', { priority: 1 })).resolves.toBeDefined();
+  });
+
+  it('throttles calls to the configured rate', async () => {
+    const crm = new RateLimitedProvider(new InMemoryProvider(), { requestsPerSecond: 20, burst: 1 });
+    await crm.initialize();
+    const startTime = Date.now();
+
+    await Promise.all([1, 2, 3].map(i => crm.createLead({ email: `lead${i}@acme.com` })));
+
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(90);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Rate Limited Provider
+ * Wraps a CRM provider so calls are throttled and the API quota is tracked
+ */
+
+import { Lead, Contact } from '@cognio/core';
+import {
+  ICRMProvider,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMQuota,
+  RateLimitConfig
+} from '../types';
+import { RateLimiter } from '../RateLimiter';
+
+/**
+ * Provider decorator running every API request through a rate limiter
+ * After each request the quota reported by the provider is recorded on the limiter.
+ */
+export class RateLimitedProvider implements ICRMProvider {
+  /** Limiter throttling the provider; listen with limiter.onEvent() for 'quota:low' */
+  readonly limiter: RateLimiter;
+  /** Whether the provider takes a token per API request itself */
+  private perRequest: boolean;
+
+  constructor(
+    private provider: ICRMProvider,
+    limiter: RateLimiter | RateLimitConfig = {}
+  ) {
+    this.limiter = limiter instanceof RateLimiter ? limiter : new RateLimiter(limiter);
+    this.perRequest = provider.useRateLimiter?.(this.limiter) ?? false;
+  }
+
+  /**
+   * Initialize the wrapped provider
+   */
+  async initialize(): Promise<void> {
+    return this.provider.initialize();
+  }
+
+  /**
+   * Create lead
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.schedule(() => this.provider.createLead(lead, options), options);
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.schedule(() => this.provider.getLead(id, options), options);
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.schedule(() => this.provider.updateLead(id, updates, options), options);
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    return this.schedule(() => this.provider.deleteLead(id, options), options);
+  }
+
+  /**
+   * Search leads
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    return this.schedule(() => this.provider.searchLeads(criteria, options), options);
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.schedule(() => this.provider.createContact(contact, options), options);
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.schedule(() => this.provider.getContact(id, options), options);
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.schedule(() => this.provider.updateContact(id, updates, options), options);
+  }
+
+  /**
+   * Create opportunity
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.schedule(() => this.provider.createOpportunity(opportunity, options), options);
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.schedule(() => this.provider.getOpportunity(id, options), options);
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    return this.schedule(() => this.provider.createAccount(account, options), options);
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    return this.schedule(() => this.provider.getAccount(id, options), options);
+  }
+
+  /**
+   * Last API quota reported by the provider
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.limiter.getQuota();
+  }
+
+  /**
+   * Close the wrapped provider
+   */
+  async close(): Promise<void> {
+    return this.provider.close();
+  }
+
+  /**
+   * Run a call through the limiter and record the quota it reported
+   * Providers that throttle their own API requests are called directly, so a call
+   * sending several requests takes a token for each.
+   */
+  private schedule<T>(request: () => Promise<T>, options?: CRMRequestOptions): Promise<T> {
+    if (this.perRequest) {
+      return request();
+    }
+    return this.limiter.schedule(async () => {
+      try {
+        return await request();
+      } finally {
+        const quota = this.provider.getQuota?.();
+        if (quota) {
+          this.limiter.updateQuota(quota);
+        }
+      }
+    }, options);
+  }
+}
@@ -0,0 +1,100 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { RestProvider } from './RestProvider';
+import { RestProviderOptions } from '../types';
+
+interface Recorded {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: string;
+}
+
+/** CRM API stand-in answering every request with a fixed body */
+async function startApi(reply: any): Promise<{ server: Server; url: string; requests: Recorded[] }> {
+  const requests: Recorded[] = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const url = new URL(req.url!, 'http://localhost');
+    requests.push({ method: req.method!, path: url.pathname, query: url.searchParams, body });
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(reply));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+describe('RestProvider', () => {
+  let server: Server;
+  let requests: Recorded[];
+
+  async function connect(reply: any, options: Partial<RestProviderOptions>): Promise<RestProvider> {
+    let endpoint: string;
+    ({ server, requests, url: endpoint } = await startApi(reply));
+    const provider = new RestProvider({
+      provider: 'custom',
+      apiKey: 'key',
+      endpoint,
+      options: { operations: {}, ...options }
+    });
+    await provider.initialize();
+    return provider;
+  }
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('sends no body with GET requests, even with a body template', async () => {
+    const provider = await connect({ items: [{ id: '1', email: 'jane@acme.com' }] }, {
+      operations: {
+        searchLeads: { path: '/leads', body: { search: '{query}' }, dataPath: 'items', pagination: { style: 'none' } }
+      }
+    });
+
+    const result = await provider.searchLeads({ query: 'acme', filters: { status: 'open' } });
+
+    expect(result.results).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ method: 'GET', body: '' });
+    expect(requests[0].query.get('status')).toBe('open');
+  });
+
+  it('sends the body template of other methods, with the parameters it does not set', async () => {
+    const provider = await connect({ items: [] }, {
+      operations: {
+        searchLeads: {
+          method: 'POST',
+          path: '/leads/search',
+          body: { search: '{query}' },
+          dataPath: 'items',
+          pagination: { style: 'none' }
+        }
+      }
+    });
+
+    await provider.searchLeads({ query: 'acme', filters: { status: 'open' } });
+
+    expect(requests[0].method).toBe('POST');
+    expect(JSON.parse(requests[0].body)).toEqual({ search: 'acme', status: 'open' });
+    expect([...requests[0].query.keys()]).toEqual([]);
+  });
+
+  it.each([
+    [{ items: [{ id: '1' }, { id: '2' }] }, {}, undefined],
+    [{ items: [{ id: '1' }, { id: '2' }], total: 7 }, { totalPath: 'total' }, 7],
+    [{ items: [{ id: '1' }] }, {}, 11]
+  ])('reports the total only when it is known (%j)', async (reply, pagination, total) => {
+    const provider = await connect(reply, {
+      operations: {
+        searchLeads: { path: '/leads', dataPath: 'items', pagination: { style: 'offset', ...pagination } }
+      }
+    });
+
+    const result = await provider.searchLeads({ limit: 2, offset: 10 });
+
+    expect(result.total).toBe(total);
+  });
+});
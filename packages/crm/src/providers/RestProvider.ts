@@ -0,0 +1,829 @@
+/**
+ * REST CRM Provider
+ */
+
+import { BaseCRMProvider } from './BaseCRMProvider';
+import {
+  CRMConfig,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMQuota,
+  CRMError,
+  RestProviderOptions,
+  RestOperationName,
+  RestOperationConfig,
+  RestEntity
+} from '../types';
+import { Lead, Contact, injectTraceContext } from '@cognio/core';
+
+/** Record type of each operation */
+const OPERATION_ENTITIES: Record<RestOperationName, RestEntity> = {
+  createLead: 'lead',
+  getLead: 'lead',
+  updateLead: 'lead',
+  deleteLead: 'lead',
+  searchLeads: 'lead',
+  createContact: 'contact',
+  getContact: 'contact',
+  updateContact: 'contact',
+  createOpportunity: 'opportunity',
+  getOpportunity: 'opportunity',
+  createAccount: 'account',
+  getAccount: 'account'
+};
+
+/** Mapped fields of each record type; custom fields are mapped separately */
+const RECORD_FIELDS: Record<RestEntity, string[]> = {
+  lead: [
+    'id', 'firstName', 'lastName', 'email', 'phone', 'company', 'title', 'industry',
+    'source', 'score', 'status', 'createdAt', 'updatedAt'
+  ],
+  contact: ['id', 'email', 'name', 'phone'],
+  opportunity: [
+    'id', 'name', 'amount', 'stage', 'closeDate', 'accountId', 'contactId', 'probability',
+    'createdAt', 'updatedAt'
+  ],
+  account: [
+    'id', 'name', 'industry', 'website', 'phone', 'address', 'employees', 'revenue',
+    'createdAt', 'updatedAt'
+  ]
+};
+
+/** Fields set by the CRM, which are read but never sent */
+const READ_ONLY_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'closeDate']);
+
+const ID_FIELDS = new Set(['id', 'accountId', 'contactId']);
+
+/** Most cursors of search pages kept for following pages */
+const MAX_CURSORS = 1000;
+
+/** Time allowed for an OAuth token request, which requests waiting on it share */
+const TOKEN_REQUEST_TIMEOUT = 30000;
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Generic REST provider implementation
+ *
+ * Connects CRMs without a dedicated provider. Each operation is configured in the
+ * `operations` option with its method, URL template, body template, response path and
+ * pagination; records are translated with per-entity field mappings. Authenticates with
+ * the API key as a bearer token, header, query parameter or basic credentials, or with
+ * an OAuth refresh token. See RestProviderOptions.
+ */
+export class RestProvider extends BaseCRMProvider {
+  private options!: RestProviderOptions;
+  private baseUrl: string = '';
+  private accessToken?: string;
+  private tokenExpiresAt?: number;
+  private refreshing?: Promise<void>;
+  private cursors: Map<string, string> = new Map();
+  private quota?: CRMQuota;
+
+  constructor(config: CRMConfig) {
+    super({ ...config, provider: 'custom' });
+  }
+
+  /**
+   * Validate the operations and authentication, and check the connection
+   */
+  async initialize(): Promise<void> {
+    this.options = this.validateOptions();
+    this.baseUrl = this.config.endpoint!.replace(/\/+$/, '');
+
+    try {
+      if (this.options.auth?.type === 'oauth2') {
+        await this.refreshAccessToken();
+      }
+      if (this.options.healthCheck) {
+        await this.request(this.options.healthCheck, 'GET', {});
+      }
+      this.initialized = true;
+    } catch (error: any) {
+      throw new CRMError(
+        'Failed to initialize REST provider',
+        'INIT_FAILED',
+        'custom',
+        error
+      );
+    }
+  }
+
+  /**
+   * Create lead
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      return await this.create('createLead', lead, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create lead', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      return await this.get('getLead', id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get lead', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    this.ensureInitialized();
+
+    try {
+      return await this.update('updateLead', 'getLead', id, updates, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to update lead', 'UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await this.request(this.operation('deleteLead'), 'DELETE', { id }, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to delete lead', 'DELETE_FAILED');
+    }
+  }
+
+  /**
+   * Search leads
+   * Filters are sent as parameters named by the field mapping unless the templates
+   * place them; a query or sort field needs a template placing it.
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    this.ensureInitialized();
+
+    try {
+      return await this.search('searchLeads', criteria, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to search leads', 'SEARCH_FAILED');
+    }
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      return await this.create('createContact', contact, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create contact', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      return await this.get('getContact', id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get contact', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    this.ensureInitialized();
+
+    try {
+      return await this.update('updateContact', 'getContact', id, updates, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to update contact', 'UPDATE_FAILED');
+    }
+  }
+
+  /**
+   * Create opportunity
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    this.ensureInitialized();
+
+    try {
+      return await this.create('createOpportunity', opportunity, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create opportunity', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    this.ensureInitialized();
+
+    try {
+      return await this.get('getOpportunity', id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get opportunity', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    this.ensureInitialized();
+
+    try {
+      return await this.create('createAccount', account, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to create account', 'CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    this.ensureInitialized();
+
+    try {
+      return await this.get('getAccount', id, options);
+    } catch (error: any) {
+      throw this.wrapError(error, 'Failed to get account', 'READ_FAILED');
+    }
+  }
+
+  /**
+   * API quota from the last response carrying the configured rate limit headers
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.quota;
+  }
+
+  /**
+   * Create a record; fields returned by the API replace the given ones
+   */
+  private async create(name: RestOperationName, input: any, options?: CRMRequestOptions): Promise<any> {
+    const operation = this.operation(name);
+    const entity = OPERATION_ENTITIES[name];
+    const record = this.toRemote(entity, operation, input);
+
+    const body = await this.request(operation, 'POST', { input, record }, options);
+    const data = getPath(body, operation.dataPath);
+    return { ...input, ...(isObject(data) ? this.fromRemote(entity, operation, data) : {}) };
+  }
+
+  private async get(name: RestOperationName, id: string, options?: CRMRequestOptions): Promise<any> {
+    const operation = this.operation(name);
+    const body = await this.request(operation, 'GET', { id }, options);
+    const data = getPath(body, operation.dataPath);
+    if (!isObject(data)) {
+      throw unexpectedResponse(name);
+    }
+    return this.fromRemote(OPERATION_ENTITIES[name], operation, data);
+  }
+
+  /**
+   * Update a record
+   * Without a record in the response, the record is read again if its get operation
+   * is configured.
+   */
+  private async update(
+    name: RestOperationName,
+    getName: RestOperationName,
+    id: string,
+    updates: any,
+    options?: CRMRequestOptions
+  ): Promise<any> {
+    const operation = this.operation(name);
+    const entity = OPERATION_ENTITIES[name];
+    const record = this.toRemote(entity, operation, updates);
+
+    const body = await this.request(operation, 'PATCH', { id, input: updates, record }, options);
+    const data = getPath(body, operation.dataPath);
+    if (isObject(data)) {
+      return this.fromRemote(entity, operation, data);
+    }
+    if (this.options.operations[getName]) {
+      return this.get(getName, id, options);
+    }
+    return { ...updates, id };
+  }
+
+  private async search(
+    name: RestOperationName,
+    criteria: SearchCriteria,
+    options?: CRMRequestOptions
+  ): Promise<SearchResult<any>> {
+    const operation = this.operation(name);
+    const entity = OPERATION_ENTITIES[name];
+    const fields = this.fieldsOf(entity, operation);
+    const pagination = operation.pagination ?? { style: 'offset' };
+    const limit = criteria.limit ?? 100;
+    const offset = criteria.offset ?? 0;
+    const templates = JSON.stringify([operation.path, operation.query, operation.body]);
+
+    const placed: Array<[string, string | undefined]> = [['{query}', criteria.query], ['{sortBy}', criteria.sortBy]];
+    for (const [placeholder, value] of placed) {
+      if (value !== undefined && !templates.includes(placeholder)) {
+        throw new CRMError(
+          `Operation ${name} has no ${placeholder} placeholder`,
+          'INVALID_FIELD',
+          'custom',
+          { operation: name }
+        );
+      }
+    }
+
+    // Cursors are remembered by the offset of the page they lead to
+    const cursorKey = JSON.stringify([name, criteria.query, criteria.filters, criteria.sortBy, criteria.sortOrder, limit]);
+    const cursor = offset > 0 ? this.cursors.get(`${cursorKey}:${offset}`) : undefined;
+    if (pagination.style === 'cursor' && offset > 0 && cursor === undefined) {
+      throw new CRMError(
+        'Cursor pagination continues only from the nextOffset of a previous page',
+        'INVALID_FIELD',
+        'custom',
+        { operation: name, offset }
+      );
+    }
+
+    const page = (pagination.firstPage ?? 1) + Math.floor(offset / limit);
+    const params: Record<string, any> = {};
+    if (pagination.style !== 'none') {
+      params[pagination.limitParam ?? 'limit'] = limit;
+    }
+    if (pagination.style === 'offset') {
+      params[pagination.offsetParam ?? 'offset'] = offset;
+    } else if (pagination.style === 'page') {
+      params[pagination.pageParam ?? 'page'] = page;
+    } else if (pagination.style === 'cursor') {
+      params[pagination.cursorParam ?? 'cursor'] = cursor;
+    }
+    if (!templates.includes('{filters')) {
+      Object.entries(criteria.filters || {}).forEach(([field, value]) => {
+        params[fields[field] ?? field] = value;
+      });
+    }
+
+    const body = await this.request(operation, 'GET', {
+      query: criteria.query,
+      filters: criteria.filters,
+      sortBy: criteria.sortBy !== undefined ? fields[criteria.sortBy] ?? criteria.sortBy : undefined,
+      sortOrder: criteria.sortOrder,
+      limit,
+      offset,
+      page,
+      cursor
+    }, options, params);
+
+    const list = getPath(body, operation.dataPath);
+    if (!Array.isArray(list)) {
+      throw unexpectedResponse(name);
+    }
+    const results = list.map(item => this.fromRemote(entity, operation, item));
+
+    const reportedTotal = pagination.totalPath ? Number(getPath(body, pagination.totalPath)) : NaN;
+    const nextCursor = pagination.cursorPath ? getPath(body, pagination.cursorPath) : undefined;
+
+    let hasMore: boolean;
+    if (pagination.style === 'none') {
+      hasMore = false;
+    } else if (pagination.hasMorePath) {
+      hasMore = Boolean(getPath(body, pagination.hasMorePath));
+    } else if (pagination.style === 'cursor') {
+      hasMore = nextCursor !== undefined && nextCursor !== null && nextCursor !== '';
+    } else if (!Number.isNaN(reportedTotal)) {
+      hasMore = offset + results.length < reportedTotal;
+    } else {
+      hasMore = results.length === limit;
+    }
+    hasMore = hasMore && results.length > 0;
+
+    // Without a reported total, it is known on the last page only
+    const total = !Number.isNaN(reportedTotal) ? reportedTotal : hasMore ? undefined : offset + results.length;
+    const nextOffset = hasMore ? offset + results.length : undefined;
+    if (pagination.style === 'cursor' && nextOffset !== undefined) {
+      this.rememberCursor(`${cursorKey}:${nextOffset}`, String(nextCursor));
+    }
+
+    return { results, total, hasMore, nextOffset };
+  }
+
+  private rememberCursor(key: string, cursor: string): void {
+    this.cursors.set(key, cursor);
+    if (this.cursors.size > MAX_CURSORS) {
+      this.cursors.delete(this.cursors.keys().next().value!);
+    }
+  }
+
+  private operation(name: RestOperationName): RestOperationConfig {
+    const operation = this.options.operations[name];
+    if (!operation) {
+      throw new CRMError(
+        `Operation ${name} is not configured for the REST provider`,
+        'NOT_IMPLEMENTED',
+        'custom',
+        { operation: name }
+      );
+    }
+    return operation;
+  }
+
+  /**
+   * Field mapping of an operation, falling back to its entity's
+   */
+  private fieldsOf(entity: RestEntity, operation: RestOperationConfig): Record<string, string> {
+    return operation.fields ?? this.options.entities?.[entity]?.fields ?? {};
+  }
+
+  /**
+   * Pairs of record field path and API field path
+   * A record field with nested mappings, e.g. 'address.city', is mapped by its parts.
+   */
+  private fieldPaths(entity: RestEntity, operation: RestOperationConfig): Array<[string, string]> {
+    const fields = this.fieldsOf(entity, operation);
+    return RECORD_FIELDS[entity].flatMap((field): Array<[string, string]> => {
+      const nested = Object.keys(fields).filter(key => key.startsWith(`${field}.`));
+      return nested.length > 0
+        ? nested.map((key): [string, string] => [key, fields[key]])
+        : [[field, fields[field] ?? field]];
+    });
+  }
+
+  /**
+   * Record in the API's field names
+   */
+  private toRemote(entity: RestEntity, operation: RestOperationConfig, record: any): Record<string, any> {
+    const remote: Record<string, any> = {};
+
+    for (const [field, path] of this.fieldPaths(entity, operation)) {
+      const value = getPath(record, field);
+      if (value !== undefined && !READ_ONLY_FIELDS.has(field)) {
+        setPath(remote, path, value);
+      }
+    }
+
+    if (record.customFields) {
+      const customFieldsPath = this.options.entities?.[entity]?.customFieldsPath;
+      if (customFieldsPath) {
+        setPath(remote, customFieldsPath, record.customFields);
+      } else {
+        Object.assign(remote, record.customFields);
+      }
+    }
+
+    return remote;
+  }
+
+  /**
+   * Record from an API response
+   */
+  private fromRemote(entity: RestEntity, operation: RestOperationConfig, data: any): any {
+    const record: Record<string, any> = {};
+
+    for (const [field, path] of this.fieldPaths(entity, operation)) {
+      const value = getPath(data, path);
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (DATE_FIELDS.has(field)) {
+        setPath(record, field, new Date(value));
+      } else if (ID_FIELDS.has(field)) {
+        setPath(record, field, String(value));
+      } else {
+        setPath(record, field, value);
+      }
+    }
+
+    const customFieldsPath = this.options.entities?.[entity]?.customFieldsPath;
+    const customFields = customFieldsPath ? getPath(data, customFieldsPath) : undefined;
+    if (isObject(customFields)) {
+      record.customFields = customFields;
+    }
+
+    record.providerId = record.id;
+    if (entity === 'lead' || entity === 'contact') {
+      record.provider = 'custom';
+      record.raw = data;
+    }
+    return record;
+  }
+
+  /**
+   * Call an operation
+   * Fills its templates from the context and adds the parameters its templates do not
+   * set. Sends the credentials and the active trace context; errors keep their HTTP
+   * status, API error code and headers for retry classification and Retry-After.
+   */
+  private async request(
+    operation: RestOperationConfig,
+    defaultMethod: string,
+    context: Record<string, any>,
+    options?: CRMRequestOptions,
+    params: Record<string, any> = {}
+  ): Promise<any> {
+    const method = operation.method ?? defaultMethod;
+    const path = fill(operation.path, context, encodeURIComponent);
+    const url = new URL(/^https?:\/\//i.test(path) ? path : this.baseUrl + path);
+
+    const query: Record<string, any> = fill(operation.query ?? {}, context);
+    // GET and HEAD requests have no body
+    let body: any;
+    if (method !== 'GET' && method !== 'HEAD') {
+      body = operation.body !== undefined ? fill(operation.body, context) : context.record;
+    }
+
+    const target = isObject(body) ? body : query;
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && !(key in target)) {
+        target[key] = value;
+      }
+    });
+
+    if (this.options.auth?.type === 'query') {
+      query[this.options.auth.name] = this.config.apiKey;
+    }
+    Object.entries(query).forEach(([key, value]) => {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined && item !== null) {
+          url.searchParams.append(key, item instanceof Date ? item.toISOString() : String(item));
+        }
+      }
+    });
+
+    if (this.options.auth?.type === 'oauth2' && (this.tokenExpiresAt ?? 0) <= Date.now()) {
+      await this.withSignal(this.refreshAccessToken(), options);
+    }
+
+    const send = async (): Promise<Response> => this.throttle(async () => {
+      const sent = await fetch(url, {
+        method,
+        headers: this.headers(body !== undefined),
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: options?.signal
+      });
+      this.readQuota(sent.headers);
+      return sent;
+    }, options);
+
+    let response = await send();
+    if (response.status === 401 && this.options.auth?.type === 'oauth2') {
+      await this.withSignal(this.refreshAccessToken(), options);
+      response = await send();
+    }
+
+    const text = await this.withSignal(response.text(), options);
+    const data = text ? safeParse(text) : undefined;
+
+    if (!response.ok) {
+      const message = getPath(data, this.options.errorMessagePath ?? 'message');
+      const code = getPath(data, this.options.errorCodePath ?? 'code');
+      const error: Error & { status?: number; errorCode?: string; headers?: Headers } = new Error(
+        typeof message === 'string' ? message : `REST request failed with status ${response.status}`
+      );
+      error.status = response.status;
+      error.errorCode = code !== undefined && code !== null ? String(code) : undefined;
+      error.headers = response.headers;
+      throw error;
+    }
+
+    return data;
+  }
+
+  private headers(hasBody: boolean): Record<string, string> {
+    const headers = injectTraceContext({
+      accept: 'application/json',
+      ...this.options.headers
+    });
+    if (hasBody) {
+      headers['content-type'] = 'application/json';
+    }
+
+    const auth = this.options.auth ?? { type: 'bearer' };
+    switch (auth.type) {
+      case 'bearer':
+        headers.authorization = `Bearer ${this.config.apiKey}`;
+        break;
+      case 'basic':
+        headers.authorization = `Basic ${Buffer.from(this.config.apiKey!).toString('base64')}`;
+        break;
+      case 'header':
+        headers[auth.name] = `${auth.prefix ?? ''}${this.config.apiKey}`;
+        break;
+      case 'oauth2':
+        headers.authorization = `Bearer ${this.accessToken}`;
+        break;
+    }
+    return headers;
+  }
+
+  /**
+   * Exchange the OAuth refresh token for an access token
+   * Concurrent requests share one refresh, so it is bounded by a timeout rather than
+   * by any one request's signal; each request stops waiting when its own is aborted.
+   */
+  private refreshAccessToken(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchAccessToken().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async fetchAccessToken(): Promise<void> {
+    const auth = this.options.auth as { type: 'oauth2'; tokenUrl: string; scope?: string };
+    const { clientId, clientSecret, refreshToken } = this.config.oauth!;
+    const form = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: clientId,
+      client_secret: clientSecret
+    });
+    if (auth.scope) {
+      form.set('scope', auth.scope);
+    }
+
+    const response = await fetch(auth.tokenUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded', accept: 'application/json' },
+      body: form.toString(),
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT)
+    });
+    const token = safeParse(await response.text());
+    if (!response.ok || typeof token?.access_token !== 'string') {
+      const error: Error & { status?: number; errorCode?: string } = new Error(
+        token?.error_description || `Token request failed with status ${response.status}`
+      );
+      error.status = response.status;
+      error.errorCode = token?.error;
+      throw error;
+    }
+
+    this.accessToken = token.access_token;
+    // Refresh a minute early so tokens do not expire in flight; tokens without an
+    // expiry are refreshed when rejected
+    this.tokenExpiresAt = token.expires_in
+      ? Date.now() + (Number(token.expires_in) - 60) * 1000
+      : Number.POSITIVE_INFINITY;
+  }
+
+  private readQuota(headers: Headers): void {
+    const quotaHeaders = this.options.quotaHeaders;
+    if (!quotaHeaders || !headers.has(quotaHeaders.limit)) {
+      return;
+    }
+    const limit = Number(headers.get(quotaHeaders.limit));
+    const remaining = Number(headers.get(quotaHeaders.remaining));
+    if (!Number.isNaN(limit) && !Number.isNaN(remaining)) {
+      this.quota = { used: limit - remaining, limit, remaining, updatedAt: new Date() };
+    }
+  }
+
+  /**
+   * Check the endpoint, operations and credentials
+   */
+  private validateOptions(): RestProviderOptions {
+    const options = this.config.options as RestProviderOptions | undefined;
+    const invalid = (message: string) => new CRMError(message, 'INVALID_CONFIG', 'custom');
+
+    if (!this.config.endpoint) {
+      throw invalid('REST provider requires an endpoint');
+    }
+    if (!isObject(options?.operations)) {
+      throw invalid('REST provider requires operations in its options');
+    }
+
+    for (const [name, operation] of Object.entries(options!.operations)) {
+      if (!(name in OPERATION_ENTITIES)) {
+        throw invalid(`Unknown REST operation: ${name}`);
+      }
+      if (typeof operation?.path !== 'string') {
+        throw invalid(`REST operation ${name} requires a path`);
+      }
+      if (operation.pagination?.style === 'cursor' && !operation.pagination.cursorPath) {
+        throw invalid(`REST operation ${name} requires a cursorPath for cursor pagination`);
+      }
+    }
+
+    const auth = options!.auth ?? { type: 'bearer' };
+    if (auth.type === 'oauth2') {
+      if (!auth.tokenUrl || !this.config.oauth) {
+        throw invalid('OAuth authentication requires a tokenUrl and OAuth credentials');
+      }
+    } else if (auth.type !== 'none' && !this.config.apiKey) {
+      throw invalid(`${auth.type} authentication requires an API key`);
+    }
+    if ((auth.type === 'header' || auth.type === 'query') && !auth.name) {
+      throw invalid(`${auth.type} authentication requires a name`);
+    }
+
+    return options!;
+  }
+
+  /**
+   * Close provider
+   */
+  async close(): Promise<void> {
+    this.accessToken = undefined;
+    this.tokenExpiresAt = undefined;
+    this.cursors.clear();
+    await super.close();
+  }
+}
+
+/**
+ * Fill the placeholders of a template
+ * A string that is a single placeholder becomes the value itself; values of
+ * placeholders within strings are encoded, e.g. for URL paths.
+ */
+function fill(template: any, context: Record<string, any>, encode?: (value: string) => string): any {
+  if (typeof template === 'string') {
+    const single = /^\{([^{}]+)\}$/.exec(template);
+    if (single && !encode) {
+      return getPath(context, single[1]);
+    }
+    return template.replace(PLACEHOLDER, (_, path: string) => {
+      const value = getPath(context, path);
+      if (value === undefined || value === null) {
+        return '';
+      }
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return encode ? encode(text) : text;
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => fill(item, context, encode)).filter(item => item !== undefined);
+  }
+  if (isObject(template)) {
+    return Object.fromEntries(
+      Object.entries(template)
+        .map(([key, value]) => [key, fill(value, context, encode)])
+        .filter(([, value]) => value !== undefined)
+    );
+  }
+  return template;
+}
+
+/** Value at a dotted path, e.g. 'data.items' or 'emails.0.value'; no path is the value itself */
+function getPath(value: any, path?: string): any {
+  if (!path) {
+    return value;
+  }
+  return path.split('.').reduce((current, key) => (current === undefined || current === null ? undefined : current[key]), value);
+}
+
+function setPath(target: Record<string, any>, path: string, value: any): void {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let current = target;
+  for (const key of keys) {
+    if (!isObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[last] = value;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function unexpectedResponse(operation: RestOperationName): CRMError {
+  return new CRMError(
+    `Unexpected response to ${operation}; check its dataPath`,
+    'INVALID_RESPONSE',
+    'custom',
+    { operation }
+  );
+}
+
+function safeParse(json: string): any {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,166 @@
+import { Tracer, InMemorySpanExporter, withActiveTrace } from '@cognio/core';
+import * as jsforce from 'jsforce';
+import { SalesforceProvider } from './SalesforceProvider';
+import { RateLimiter } from '../RateLimiter';
+
+/** Stand-in for a jsforce connection, recording the calls made through it */
+class MockConnection {
+  static last: MockConnection;
+
+  accessToken?: string;
+  limitInfo: { apiUsage?: { used: number; limit: number } } = {};
+  objects: Record<string, Record<string, jest.Mock>> = {};
+  query = jest.fn();
+  login = jest.fn(async () => ({}));
+  logout = jest.fn(async () => undefined);
+
+  constructor(public options: { loginUrl: string }) {
+    MockConnection.last = this;
+  }
+
+  sobject(name: string): Record<string, jest.Mock> {
+    this.objects[name] ??= {
+      create: jest.fn(),
+      retrieve: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    };
+    return this.objects[name];
+  }
+}
+
+jest.mock('jsforce', () => ({ Connection: jest.fn((options) => new MockConnection(options)) }));
+
+describe('SalesforceProvider', () => {
+  let crm: SalesforceProvider;
+  let connection: MockConnection;
+
+  beforeEach(async () => {
+    crm = new SalesforceProvider({
+      provider: 'salesforce',
+      apiKey: 'jane@acme.com:secret',
+      options: { loginUrl: 'https://acme.my.salesforce.com' }
+    });
+    await crm.initialize();
+    connection = MockConnection.last;
+  });
+
+  it('logs in with the username and password of the API key', () => {
+    expect(jsforce.Connection).toHaveBeenCalledWith({ loginUrl: 'https://acme.my.salesforce.com' });
+    expect(connection.login).toHaveBeenCalledWith('jane@acme.com', 'secret');
+  });
+
+  it('creates leads with Salesforce field names', async () => {
+    connection.sobject('Lead').create.mockResolvedValue({ id: '00Q1', success: true });
+
+    const lead = await crm.createLead({ email: 'jane@acme.com', company: 'Acme', source: 'Web' });
+
+    expect(connection.sobject('Lead').create).toHaveBeenCalledWith(expect.objectContaining({
+      Email: 'jane@acme.com',
+      Company: 'Acme',
+      LastName: 'Unknown',
+      LeadSource: 'Web',
+      Status: 'New'
+    }), { headers: {} });
+    expect(lead).toMatchObject({ id: '00Q1', providerId: '00Q1', provider: 'salesforce' });
+  });
+
+  it('keeps the Salesforce error code of a failed save', async () => {
+    connection.sobject('Lead').create.mockResolvedValue({
+      success: false,
+      errors: [{ errorCode: 'DUPLICATES_DETECTED', message: 'Duplicate lead' }]
+    });
+
+    await expect(crm.createLead({ email: 'jane@acme.com' })).rejects.toMatchObject({
+      code: 'CREATE_FAILED',
+      details: { errorCode: 'DUPLICATES_DETECTED', message: 'Duplicate lead' }
+    });
+  });
+
+  it('maps retrieved leads', async () => {
+    connection.sobject('Lead').retrieve.mockResolvedValue({
+      Id: '00Q1',
+      Email: 'jane@acme.com',
+      LeadSource: 'Web',
+      CreatedDate: '2026-01-02T03:04:05.000Z'
+    });
+
+    const lead = await crm.getLead('00Q1');
+
+    expect(lead).toMatchObject({ id: '00Q1', email: 'jane@acme.com', source: 'Web' });
+    expect(lead.createdAt?.toISOString()).toBe('2026-01-02T03:04:05.000Z');
+  });
+
+  it('builds a SOQL query from search criteria', async () => {
+    connection.query.mockResolvedValue({ records: [{ Id: '00Q1' }], totalSize: 3, done: false });
+
+    const result = await crm.searchLeads({ filters: { Status: 'Open' }, sortBy: 'Email', limit: 1, offset: 1 });
+
+    expect(connection.query).toHaveBeenCalledWith(expect.stringMatching(
+      /FROM Lead WHERE Status = 'Open' ORDER BY Email ASC LIMIT 1 OFFSET 1$/
+    ), { headers: {} });
+    expect(result).toMatchObject({ total: 3, hasMore: true, nextOffset: 2 });
+  });
+
+  it('reports the API usage of the last response as quota', async () => {
+    expect(crm.getQuota()).toBeUndefined();
+
+    connection.limitInfo.apiUsage = { used: 900, limit: 1000 };
+
+    expect(crm.getQuota()).toMatchObject({ used: 900, limit: 1000, remaining: 100 });
+  });
+
+  it('takes a token per request and records the quota on the limiter', async () => {
+    const limiter = new RateLimiter();
+    const schedule = jest.spyOn(limiter, 'schedule');
+    crm.useRateLimiter(limiter);
+    connection.sobject('Account').retrieve.mockImplementation(async () => {
+      connection.limitInfo.apiUsage = { used: 10, limit: 1000 };
+      return { Id: '001A', Name: 'Acme' };
+    });
+
+    await crm.getAccount('001A');
+
+    expect(schedule).toHaveBeenCalledTimes(1);
+    expect(limiter.getQuota()).toMatchObject({ remaining: 990 });
+  });
+
+  it('sends the trace context of the active span with each request', async () => {
+    const span = new Tracer({ exporter: new InMemorySpanExporter() }).startSpan('agent');
+    const { traceId, spanId } = span.context();
+    connection.query.mockResolvedValue({ records: [], totalSize: 0, done: true });
+
+    await withActiveTrace(span.context(), () => crm.searchLeads({}));
+
+    expect(connection.query).toHaveBeenCalledWith(expect.any(String), {
+      headers: { traceparent: `00-${traceId}-${spanId}-01` }
+    });
+  });
+
+  it('reads the trace context before a queued request starts', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    crm.useRateLimiter(limiter);
+    let finish!: () => void;
+    connection.query.mockReturnValueOnce(new Promise(resolve => {
+      finish = () => resolve({ records: [], totalSize: 0, done: true });
+    }));
+    connection.sobject('Lead').retrieve.mockResolvedValue({ Id: '00Q1' });
+    const span = new Tracer({ exporter: new InMemorySpanExporter() }).startSpan('agent');
+
+    const first = crm.searchLeads({});
+    const second = withActiveTrace(span.context(), () => crm.getLead('00Q1'));
+    finish();
+    await Promise.all([first, second]);
+
+    expect(connection.sobject('Lead').retrieve).toHaveBeenCalledWith('00Q1', {
+      headers: { traceparent: expect.stringContaining(span.context().spanId) }
+    });
+  });
+
+  it('logs out on close', async () => {
+    await crm.close();
+
+    expect(connection.logout).toHaveBeenCalled();
+    await expect(crm.getLead('00Q1')).rejects.toMatchObject({ code: 'NOT_INITIALIZED' });
+  });
+});
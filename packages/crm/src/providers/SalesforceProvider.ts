@@ -12,9 +12,11 @@ import {
   Account,
   SearchCriteria,
   SearchResult,
+  CRMRequestOptions,
+  CRMQuota,
   CRMError
 } from '../types';
-import { Lead, Contact } from '@cognio/core';
+import { Lead, Contact, injectTraceContext } from '@cognio/core';
 
 /**
  * Salesforce provider implementation
@@ -60,7 +62,7 @@ export class SalesforceProvider extends BaseCRMProvider {
   /**
    * Create lead in Salesforce
    */
-  async createLead(lead: Lead): Promise<CRMLead> {
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
     this.ensureInitialized();
 
     try {
@@ -77,10 +79,11 @@ export class SalesforceProvider extends BaseCRMProvider {
         ...lead.customFields
       };
 
-      const result = await this.connection!.sobject('Lead').create(sfLead);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Lead').create(sfLead, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
 
       return {
@@ -91,39 +94,30 @@ export class SalesforceProvider extends BaseCRMProvider {
         raw: result
       };
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to create lead',
-        'CREATE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to create lead', 'CREATE_FAILED');
     }
   }
 
   /**
    * Get lead by ID
    */
-  async getLead(id: string): Promise<CRMLead> {
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
     this.ensureInitialized();
 
     try {
-      const result = await this.connection!.sobject('Lead').retrieve(id);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Lead').retrieve(id, request), options);
 
       return this.mapSalesforceLead(result);
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to get lead',
-        'READ_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to get lead', 'READ_FAILED');
     }
   }
 
   /**
    * Update lead
    */
-  async updateLead(id: string, updates: Partial<Lead>): Promise<CRMLead> {
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
     this.ensureInitialized();
 
     try {
@@ -145,49 +139,41 @@ export class SalesforceProvider extends BaseCRMProvider {
         sfUpdates[key] === undefined && delete sfUpdates[key]
       );
 
-      const result: any = await this.connection!.sobject('Lead').update(sfUpdates);
+      const request = this.requestOptions();
+      const result: any = await this.throttle(() => this.connection!.sobject('Lead').update(sfUpdates, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
 
-      return this.getLead(id);
+      return this.getLead(id, options);
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to update lead',
-        'UPDATE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to update lead', 'UPDATE_FAILED');
     }
   }
 
   /**
    * Delete lead
    */
-  async deleteLead(id: string): Promise<void> {
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
     this.ensureInitialized();
 
     try {
-      const result = await this.connection!.sobject('Lead').delete(id);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Lead').delete(id, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to delete lead',
-        'DELETE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to delete lead', 'DELETE_FAILED');
     }
   }
 
   /**
    * Search leads
    */
-  async searchLeads(criteria: SearchCriteria): Promise<SearchResult<CRMLead>> {
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
     this.ensureInitialized();
 
     try {
@@ -225,7 +211,8 @@ export class SalesforceProvider extends BaseCRMProvider {
         query += ` OFFSET ${criteria.offset}`;
       }
 
-      const result = await this.connection!.query(query);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.query(query, request), options);
 
       const leads: CRMLead[] = result.records.map((record: any) => this.mapSalesforceLead(record));
 
@@ -236,19 +223,14 @@ export class SalesforceProvider extends BaseCRMProvider {
         nextOffset: criteria.offset ? criteria.offset + leads.length : leads.length
       };
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to search leads',
-        'SEARCH_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to search leads', 'SEARCH_FAILED');
     }
   }
 
   /**
    * Create contact
    */
-  async createContact(contact: Contact): Promise<CRMContact> {
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
     this.ensureInitialized();
 
     try {
@@ -260,10 +242,11 @@ export class SalesforceProvider extends BaseCRMProvider {
         ...contact.customFields
       };
 
-      const result = await this.connection!.sobject('Contact').create(sfContact);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Contact').create(sfContact, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
 
       return {
@@ -274,39 +257,30 @@ export class SalesforceProvider extends BaseCRMProvider {
         raw: result
       };
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to create contact',
-        'CREATE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to create contact', 'CREATE_FAILED');
     }
   }
 
   /**
    * Get contact by ID
    */
-  async getContact(id: string): Promise<CRMContact> {
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
     this.ensureInitialized();
 
     try {
-      const result = await this.connection!.sobject('Contact').retrieve(id);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Contact').retrieve(id, request), options);
 
       return this.mapSalesforceContact(result);
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to get contact',
-        'READ_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to get contact', 'READ_FAILED');
     }
   }
 
   /**
    * Update contact
    */
-  async updateContact(id: string, updates: Partial<Contact>): Promise<CRMContact> {
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
     this.ensureInitialized();
 
     try {
@@ -326,27 +300,23 @@ export class SalesforceProvider extends BaseCRMProvider {
         sfUpdates[key] === undefined && delete sfUpdates[key]
       );
 
-      const result: any = await this.connection!.sobject('Contact').update(sfUpdates);
+      const request = this.requestOptions();
+      const result: any = await this.throttle(() => this.connection!.sobject('Contact').update(sfUpdates, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
 
-      return this.getContact(id);
+      return this.getContact(id, options);
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to update contact',
-        'UPDATE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to update contact', 'UPDATE_FAILED');
     }
   }
 
   /**
    * Create opportunity
    */
-  async createOpportunity(opportunity: Opportunity): Promise<Opportunity> {
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
     this.ensureInitialized();
 
     try {
@@ -360,10 +330,11 @@ export class SalesforceProvider extends BaseCRMProvider {
         ...opportunity.customFields
       };
 
-      const result = await this.connection!.sobject('Opportunity').create(sfOpp);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Opportunity').create(sfOpp, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
 
       return {
@@ -372,39 +343,30 @@ export class SalesforceProvider extends BaseCRMProvider {
         providerId: result.id
       };
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to create opportunity',
-        'CREATE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to create opportunity', 'CREATE_FAILED');
     }
   }
 
   /**
    * Get opportunity by ID
    */
-  async getOpportunity(id: string): Promise<Opportunity> {
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
     this.ensureInitialized();
 
     try {
-      const result = await this.connection!.sobject('Opportunity').retrieve(id);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Opportunity').retrieve(id, request), options);
 
       return this.mapSalesforceOpportunity(result);
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to get opportunity',
-        'READ_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to get opportunity', 'READ_FAILED');
     }
   }
 
   /**
    * Create account
    */
-  async createAccount(account: Account): Promise<Account> {
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
     this.ensureInitialized();
 
     try {
@@ -428,10 +390,11 @@ export class SalesforceProvider extends BaseCRMProvider {
         });
       }
 
-      const result = await this.connection!.sobject('Account').create(sfAccount);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Account').create(sfAccount, request), options);
 
       if (!result.success) {
-        throw new Error(result.errors?.join(', ') || 'Unknown error');
+        throw this.saveError(result.errors);
       }
 
       return {
@@ -440,35 +403,61 @@ export class SalesforceProvider extends BaseCRMProvider {
         providerId: result.id
       };
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to create account',
-        'CREATE_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to create account', 'CREATE_FAILED');
     }
   }
 
   /**
    * Get account by ID
    */
-  async getAccount(id: string): Promise<Account> {
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
     this.ensureInitialized();
 
     try {
-      const result = await this.connection!.sobject('Account').retrieve(id);
+      const request = this.requestOptions();
+      const result = await this.throttle(() => this.connection!.sobject('Account').retrieve(id, request), options);
 
       return this.mapSalesforceAccount(result);
     } catch (error: any) {
-      throw new CRMError(
-        'Failed to get account',
-        'READ_FAILED',
-        'salesforce',
-        error
-      );
+      throw this.wrapError(error, 'Failed to get account', 'READ_FAILED');
     }
   }
 
+  /**
+   * API usage reported in the Sforce-Limit-Info header of the last response
+   */
+  getQuota(): CRMQuota | undefined {
+    const usage = this.connection?.limitInfo?.apiUsage;
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      used: usage.used,
+      limit: usage.limit,
+      remaining: usage.limit - usage.used,
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Options of an API call, carrying the W3C trace context of the active span
+   * Read before the call is queued, as the limiter may start it from another context.
+   */
+  private requestOptions(): { headers: Record<string, string> } {
+    return { headers: injectTraceContext({}) };
+  }
+
+  /**
+   * Error for a failed save, keeping the Salesforce error code for retry classification
+   */
+  private saveError(errors?: { errorCode?: string; message: string }[]): Error {
+    const error: Error & { errorCode?: string } = new Error(
+      errors?.map(saveError => saveError.message).join(', ') || 'Unknown error'
+    );
+    error.errorCode = errors?.[0]?.errorCode;
+    return error;
+  }
+
   /**
    * Map Salesforce lead to CRMLead
    */
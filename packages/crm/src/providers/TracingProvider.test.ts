@@ -0,0 +1,62 @@
+import { Tracer, InMemorySpanExporter } from '@cognio/core';
+import { InMemoryProvider } from './InMemoryProvider';
+import { TracingProvider } from './TracingProvider';
+import { RateLimiter } from '../RateLimiter';
+
+describe('TracingProvider', () => {
+  let exporter: InMemorySpanExporter;
+  let memory: InMemoryProvider;
+  let crm: TracingProvider;
+
+  beforeEach(async () => {
+    exporter = new InMemorySpanExporter();
+    memory = new InMemoryProvider();
+    crm = new TracingProvider(memory, 'memory', new Tracer({ exporter }));
+    await crm.initialize();
+    exporter.reset();
+  });
+
+  it('records a client span per operation', async () => {
+    await crm.createLead({ email: 'jane@acme.com' });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span).toMatchObject({
+      name: 'crm createLead',
+      kind: 'client',
+      attributes: { 'crm.provider': 'memory', 'crm.operation': 'createLead' },
+      status: { code: 'ok' }
+    });
+  });
+
+  it('records the error of a failed operation and rethrows it', async () => {
+    await expect(crm.getLead('missing')).rejects.toMatchObject({ code: 'READ_FAILED' });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe('error');
+    expect(span.events).toContainEqual(expect.objectContaining({
+      name: 'exception',
+      attributes: expect.objectContaining({ 'exception.code': 'READ_FAILED' })
+    }));
+  });
+
+  it('nests spans under the trace passed with the request', async () => {
+    const tracer = new Tracer({ exporter });
+    const parent = tracer.startSpan('agent');
+
+    await crm.createLead({ email: 'jane@acme.com' }, { trace: parent.context() });
+    parent.end();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.traceId).toBe(parent.context().traceId);
+    expect(span.parentSpanId).toBe(parent.context().spanId);
+  });
+
+  it('forwards the rate limiter and quota to the wrapped provider', () => {
+    const useRateLimiter = jest.spyOn(memory, 'useRateLimiter');
+    const limiter = new RateLimiter();
+
+    expect(crm.useRateLimiter(limiter)).toBe(true);
+    expect(useRateLimiter).toHaveBeenCalledWith(limiter);
+    expect(crm.getQuota()).toBeUndefined();
+  });
+});
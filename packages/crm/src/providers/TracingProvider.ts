@@ -0,0 +1,173 @@
+/**
+ * Tracing Provider
+ * Wraps a CRM provider so every operation is recorded as a span
+ */
+
+import { Lead, Contact, Tracer, getGlobalTracer, getActiveTrace, withActiveTrace } from '@cognio/core';
+import {
+  ICRMProvider,
+  CRMLead,
+  CRMContact,
+  Opportunity,
+  Account,
+  SearchCriteria,
+  SearchResult,
+  CRMRequestOptions,
+  CRMQuota
+} from '../types';
+import type { RateLimiter } from '../RateLimiter';
+
+/**
+ * Provider decorator recording a client span per operation
+ * The span's parent is options.trace or the active span. The operation runs with the
+ * span active, so providers can inject it into outbound requests. Without a tracer
+ * (the given one or the global one) operations run untraced.
+ */
+export class TracingProvider implements ICRMProvider {
+  constructor(
+    private provider: ICRMProvider,
+    private providerName: string,
+    private tracer?: Tracer
+  ) {}
+
+  /**
+   * Initialize the wrapped provider
+   */
+  async initialize(): Promise<void> {
+    return this.trace('initialize', undefined, () => this.provider.initialize());
+  }
+
+  /**
+   * Create lead
+   */
+  async createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.trace('createLead', options, () => this.provider.createLead(lead, options));
+  }
+
+  /**
+   * Get lead by ID
+   */
+  async getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.trace('getLead', options, () => this.provider.getLead(id, options));
+  }
+
+  /**
+   * Update lead
+   */
+  async updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead> {
+    return this.trace('updateLead', options, () => this.provider.updateLead(id, updates, options));
+  }
+
+  /**
+   * Delete lead
+   */
+  async deleteLead(id: string, options?: CRMRequestOptions): Promise<void> {
+    return this.trace('deleteLead', options, () => this.provider.deleteLead(id, options));
+  }
+
+  /**
+   * Search leads
+   */
+  async searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>> {
+    return this.trace('searchLeads', options, () => this.provider.searchLeads(criteria, options));
+  }
+
+  /**
+   * Create contact
+   */
+  async createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.trace('createContact', options, () => this.provider.createContact(contact, options));
+  }
+
+  /**
+   * Get contact by ID
+   */
+  async getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.trace('getContact', options, () => this.provider.getContact(id, options));
+  }
+
+  /**
+   * Update contact
+   */
+  async updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact> {
+    return this.trace('updateContact', options, () => this.provider.updateContact(id, updates, options));
+  }
+
+  /**
+   * Create opportunity
+   */
+  async createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.trace('createOpportunity', options, () => this.provider.createOpportunity(opportunity, options));
+  }
+
+  /**
+   * Get opportunity by ID
+   */
+  async getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity> {
+    return this.trace('getOpportunity', options, () => this.provider.getOpportunity(id, options));
+  }
+
+  /**
+   * Create account
+   */
+  async createAccount(account: Account, options?: CRMRequestOptions): Promise<Account> {
+    return this.trace('createAccount', options, () => this.provider.createAccount(account, options));
+  }
+
+  /**
+   * Get account by ID
+   */
+  async getAccount(id: string, options?: CRMRequestOptions): Promise<Account> {
+    return this.trace('getAccount', options, () => this.provider.getAccount(id, options));
+  }
+
+  /**
+   * Last API quota reported by the wrapped provider
+   */
+  getQuota(): CRMQuota | undefined {
+    return this.provider.getQuota?.();
+  }
+
+  /**
+   * Pass the rate limiter on to the wrapped provider
+   */
+  useRateLimiter(limiter: RateLimiter | undefined): boolean {
+    return this.provider.useRateLimiter?.(limiter) ?? false;
+  }
+
+  /**
+   * Close the wrapped provider
+   */
+  async close(): Promise<void> {
+    return this.provider.close();
+  }
+
+  /**
+   * Run an operation inside a span
+   */
+  private async trace<T>(
+    operation: string,
+    options: CRMRequestOptions | undefined,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const span = (this.tracer ?? getGlobalTracer())?.startSpan(`crm ${operation}`, {
+      kind: 'client',
+      parent: options?.trace ?? getActiveTrace(),
+      attributes: { 'crm.provider': this.providerName, 'crm.operation': operation }
+    });
+    if (!span) {
+      return request();
+    }
+
+    try {
+      const result = await withActiveTrace(span.context(), request);
+      span.setStatus('ok');
+      return result;
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Provider option schemas
+ * Validation of the CRMConfig.options of the built-in providers
+ */
+
+import { z } from 'zod';
+
+const NameSchema = z.string().min(1);
+
+/** Salesforce options */
+export const salesforceOptionsSchema = z.object({
+  loginUrl: z.string().url().optional()
+}).strict();
+
+/** HubSpot options */
+export const hubSpotOptionsSchema = z.object({
+  leadLifecycleStage: NameSchema.optional(),
+  pipeline: NameSchema.optional(),
+  dealStage: NameSchema.optional(),
+  properties: z.array(NameSchema).optional(),
+  sourceProperty: NameSchema.optional(),
+  scoreProperty: NameSchema.optional()
+}).strict();
+
+/** Pipedrive options */
+export const pipedriveOptionsSchema = z.object({
+  pipeline: z.union([NameSchema, z.number().int().positive()]).optional(),
+  currency: z.string().length(3).optional(),
+  scoreField: NameSchema.optional()
+}).strict();
+
+const RecordsSchema = z.array(z.record(z.any())).optional();
+
+const SimulatedFailureSchema = z.object({
+  operation: NameSchema.optional(),
+  code: NameSchema.optional(),
+  message: z.string().optional(),
+  status: z.number().int().min(100).max(599).optional(),
+  times: z.number().int().positive().optional(),
+  probability: z.number().min(0).max(1).optional()
+}).strict();
+
+/** In-memory provider options */
+export const inMemoryOptionsSchema = z.object({
+  fixtures: z.union([
+    NameSchema,
+    z.object({
+      leads: RecordsSchema,
+      contacts: RecordsSchema,
+      opportunities: RecordsSchema,
+      accounts: RecordsSchema
+    }).strict()
+  ]).optional(),
+  latency: z.union([
+    z.number().min(0),
+    z.object({ min: z.number().min(0), max: z.number().min(0) }).strict()
+      .refine(range => range.min <= range.max, { message: 'min must not exceed max' })
+  ]).optional(),
+  failures: z.array(SimulatedFailureSchema).optional()
+}).strict();
+
+const RestPaginationSchema = z.object({
+  style: z.enum(['offset', 'page', 'cursor', 'none']),
+  limitParam: NameSchema.optional(),
+  offsetParam: NameSchema.optional(),
+  pageParam: NameSchema.optional(),
+  firstPage: z.number().int().min(0).optional(),
+  cursorParam: NameSchema.optional(),
+  cursorPath: NameSchema.optional(),
+  totalPath: NameSchema.optional(),
+  hasMorePath: NameSchema.optional()
+}).strict().refine(pagination => pagination.style !== 'cursor' || pagination.cursorPath, {
+  message: 'cursorPath is required for cursor pagination',
+  path: ['cursorPath']
+});
+
+const RestOperationSchema = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional(),
+  path: NameSchema,
+  query: z.record(z.string()).optional(),
+  body: z.any().optional(),
+  dataPath: NameSchema.optional(),
+  fields: z.record(NameSchema).optional(),
+  pagination: RestPaginationSchema.optional()
+}).strict();
+
+const RestEntitySchema = z.object({
+  fields: z.record(NameSchema).optional(),
+  customFieldsPath: NameSchema.optional()
+}).strict();
+
+const RestAuthSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }).strict(),
+  z.object({ type: z.literal('bearer') }).strict(),
+  z.object({ type: z.literal('basic') }).strict(),
+  z.object({ type: z.literal('header'), name: NameSchema, prefix: z.string().optional() }).strict(),
+  z.object({ type: z.literal('query'), name: NameSchema }).strict(),
+  z.object({ type: z.literal('oauth2'), tokenUrl: z.string().url(), scope: z.string().optional() }).strict()
+]);
+
+/** REST provider options */
+export const restOptionsSchema = z.object({
+  operations: z.object({
+    createLead: RestOperationSchema.optional(),
+    getLead: RestOperationSchema.optional(),
+    updateLead: RestOperationSchema.optional(),
+    deleteLead: RestOperationSchema.optional(),
+    searchLeads: RestOperationSchema.optional(),
+    createContact: RestOperationSchema.optional(),
+    getContact: RestOperationSchema.optional(),
+    updateContact: RestOperationSchema.optional(),
+    createOpportunity: RestOperationSchema.optional(),
+    getOpportunity: RestOperationSchema.optional(),
+    createAccount: RestOperationSchema.optional(),
+    getAccount: RestOperationSchema.optional()
+  }).strict(),
+  entities: z.object({
+    lead: RestEntitySchema.optional(),
+    contact: RestEntitySchema.optional(),
+    opportunity: RestEntitySchema.optional(),
+    account: RestEntitySchema.optional()
+  }).strict().optional(),
+  auth: RestAuthSchema.optional(),
+  headers: z.record(z.string()).optional(),
+  errorMessagePath: NameSchema.optional(),
+  errorCodePath: NameSchema.optional(),
+  quotaHeaders: z.object({ limit: NameSchema, remaining: NameSchema }).strict().optional(),
+  healthCheck: RestOperationSchema.optional()
+}).strict();
@@ -2,19 +2,21 @@
  * CRM Agent Types
  */
 
-import { Lead, Contact } from '@cognio/core';
+import { z } from 'zod';
+import { Lead, Contact, TraceContext, ILogger } from '@cognio/core';
+import type { RateLimiter } from '../RateLimiter';
 
 /**
  * CRM provider types
  */
-export type CRMProviderType = 'salesforce' | 'hubspot' | 'pipedrive' | 'custom';
+export type CRMProviderType = 'salesforce' | 'hubspot' | 'pipedrive' | 'memory' | 'custom';
 
 /**
  * CRM configuration
  */
 export interface CRMConfig {
-  /** CRM provider */
-  provider: CRMProviderType;
+  /** CRM provider, built in or registered with a CRMProviderRegistry */
+  provider: CRMProviderType | (string & {});
   /** API key or access token */
   apiKey?: string;
   /** OAuth credentials */
@@ -27,6 +29,226 @@ export interface CRMConfig {
   endpoint?: string;
   /** Additional options */
   options?: Record<string, any>;
+  /** Client-side rate limiting; providers with the same limiter key share one limiter */
+  rateLimit?: RateLimitConfig;
+}
+
+/**
+ * Creates a CRM provider from its configuration
+ */
+export type CRMProviderFactory = (config: CRMConfig) => ICRMProvider;
+
+/**
+ * Provider registered with a CRMProviderRegistry
+ */
+export interface CRMProviderRegistration {
+  /** Provider name, used as CRMConfig.provider */
+  name: string;
+  /** Creates the provider */
+  factory: CRMProviderFactory;
+  /** Schema of the provider's CRMConfig.options, checked before the provider is created */
+  optionsSchema?: z.ZodTypeAny;
+  /** Description */
+  description?: string;
+}
+
+/**
+ * Client-side rate limit of a provider
+ */
+export interface RateLimitConfig {
+  /** Limiter key (default: provider and org, from endpoint, login URL or user) */
+  key?: string;
+  /** Sustained requests per second (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst above the sustained rate (default: requestsPerSecond) */
+  burst?: number;
+  /** Maximum concurrent requests (default: unlimited) */
+  maxConcurrent?: number;
+  /** Maximum queued requests; further requests fail with 'RATE_LIMITED' (default: unlimited) */
+  maxQueue?: number;
+  /** Remaining quota held back for requests with a positive priority (default: 0) */
+  quotaReserve?: number;
+}
+
+/**
+ * API request quota reported by a CRM
+ */
+export interface CRMQuota {
+  /** Requests used in the current period */
+  used: number;
+  /** Requests allowed in the current period */
+  limit: number;
+  /** Requests left in the current period */
+  remaining: number;
+  /** When the quota was read */
+  updatedAt: Date;
+}
+
+/**
+ * Records of the in-memory provider, as seeded from fixtures
+ */
+export interface CRMFixtures {
+  leads?: CRMLead[];
+  contacts?: CRMContact[];
+  opportunities?: Opportunity[];
+  accounts?: Account[];
+}
+
+/**
+ * Saved state of the in-memory provider
+ */
+export interface CRMSnapshot extends Required<CRMFixtures> {
+  /** Last generated record ID number */
+  sequence: number;
+}
+
+/**
+ * Failure injected into in-memory provider calls
+ */
+export interface SimulatedFailure {
+  /** Provider method that fails, e.g. 'createLead' (default: every method) */
+  operation?: string;
+  /** Error code (default: 'SIMULATED_FAILURE') */
+  code?: string;
+  /** Error message */
+  message?: string;
+  /** HTTP status reported with the error, e.g. 503 or 429 */
+  status?: number;
+  /** Number of calls that fail (default: every matching call) */
+  times?: number;
+  /** Chance that a matching call fails, from 0 to 1 (default: 1) */
+  probability?: number;
+}
+
+/**
+ * Options of the in-memory provider, passed in CRMConfig.options
+ */
+export interface InMemoryProviderOptions {
+  /** Records to start with, or the path of a JSON file containing them */
+  fixtures?: CRMFixtures | string;
+  /** Delay of every call in ms, fixed or random within a range */
+  latency?: number | { min: number; max: number };
+  /** Failures injected into calls */
+  failures?: SimulatedFailure[];
+}
+
+/**
+ * Operations of the REST provider, one per ICRMProvider method
+ */
+export type RestOperationName =
+  | 'createLead'
+  | 'getLead'
+  | 'updateLead'
+  | 'deleteLead'
+  | 'searchLeads'
+  | 'createContact'
+  | 'getContact'
+  | 'updateContact'
+  | 'createOpportunity'
+  | 'getOpportunity'
+  | 'createAccount'
+  | 'getAccount';
+
+/**
+ * Record types mapped by the REST provider
+ */
+export type RestEntity = 'lead' | 'contact' | 'opportunity' | 'account';
+
+/**
+ * Authentication of REST provider requests
+ * 'bearer', 'header' and 'query' send the API key, 'basic' sends an apiKey of the form
+ * 'user:password', and 'oauth2' exchanges the OAuth refresh token at tokenUrl.
+ */
+export type RestAuthConfig =
+  | { type: 'none' }
+  | { type: 'bearer' }
+  | { type: 'basic' }
+  | { type: 'header'; name: string; prefix?: string }
+  | { type: 'query'; name: string }
+  | { type: 'oauth2'; tokenUrl: string; scope?: string };
+
+/**
+ * Pagination of a REST search operation
+ * Paging parameters are sent in the query string, or in the body of requests with one.
+ */
+export interface RestPaginationConfig {
+  /** How pages are requested; 'none' returns everything in one response */
+  style: 'offset' | 'page' | 'cursor' | 'none';
+  /** Page size parameter (default: 'limit') */
+  limitParam?: string;
+  /** Offset parameter (default: 'offset') */
+  offsetParam?: string;
+  /** Page number parameter (default: 'page') */
+  pageParam?: string;
+  /** Number of the first page (default: 1) */
+  firstPage?: number;
+  /** Cursor parameter (default: 'cursor') */
+  cursorParam?: string;
+  /** Response path of the next page's cursor */
+  cursorPath?: string;
+  /** Response path of the total number of results */
+  totalPath?: string;
+  /** Response path of a flag telling whether there are more results */
+  hasMorePath?: string;
+}
+
+/**
+ * Request and response of one REST operation
+ *
+ * Templates contain {placeholders} filled from the call: {id}, {record} (the record in
+ * the API's field names), {input} (the record as given), and for searches {query},
+ * {filters.<name>}, {sortBy}, {sortOrder}, {limit}, {offset}, {page} and {cursor}.
+ * A string that is a single placeholder keeps the value's type; placeholders without a
+ * value are left out.
+ */
+export interface RestOperationConfig {
+  /** HTTP method (default: POST to create, PATCH to update, DELETE to delete, otherwise GET) */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** URL template, relative to the endpoint or absolute, e.g. '/leads/{id}' */
+  path: string;
+  /** Query parameter templates */
+  query?: Record<string, string>;
+  /** Body template (default: {record} to create and update, none otherwise); GET requests send none */
+  body?: any;
+  /** Response path of the record, or of the result list of a search (default: the whole body) */
+  dataPath?: string;
+  /** Field mapping of this operation, replacing the entity's */
+  fields?: Record<string, string>;
+  /** Pagination of a search (default: offset and limit parameters) */
+  pagination?: RestPaginationConfig;
+}
+
+/**
+ * Field mapping of a record type
+ */
+export interface RestEntityMapping {
+  /** Record field to API field path, e.g. { firstName: 'first_name', company: 'company.name' } */
+  fields?: Record<string, string>;
+  /** API field path of the custom fields object (default: custom fields are top-level fields) */
+  customFieldsPath?: string;
+}
+
+/**
+ * Options of the REST provider, passed in CRMConfig.options
+ * Requests go to CRMConfig.endpoint; unconfigured operations fail with 'NOT_IMPLEMENTED'.
+ */
+export interface RestProviderOptions {
+  /** Operations of the API */
+  operations: Partial<Record<RestOperationName, RestOperationConfig>>;
+  /** Field mappings by record type; unmapped fields keep their names */
+  entities?: Partial<Record<RestEntity, RestEntityMapping>>;
+  /** Authentication (default: bearer with apiKey, oauth2 needs tokenUrl) */
+  auth?: RestAuthConfig;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Response path of the error message of failed requests (default: 'message') */
+  errorMessagePath?: string;
+  /** Response path of the error code of failed requests (default: 'code') */
+  errorCodePath?: string;
+  /** Rate limit headers read into the quota */
+  quotaHeaders?: { limit: string; remaining: string };
+  /** Operation called by initialize() to verify the connection and credentials */
+  healthCheck?: RestOperationConfig;
 }
 
 /**
@@ -154,14 +376,30 @@ export interface SearchCriteria {
 export interface SearchResult<T> {
   /** Results */
   results: T[];
-  /** Total count */
-  total: number;
+  /** Total count, unless the CRM does not report it before the last page */
+  total?: number;
   /** Has more */
   hasMore: boolean;
   /** Next offset */
   nextOffset?: number;
 }
 
+/**
+ * Per-request options
+ */
+export interface CRMRequestOptions {
+  /** Signal that cancels the request */
+  signal?: AbortSignal;
+  /** Queue priority under rate limiting, higher runs first (default: 0) */
+  priority?: number;
+  /** Parent span of the request (default: the active span) */
+  trace?: TraceContext;
+  /** Logger for the request, carrying the execution's fields */
+  logger?: ILogger;
+  /** Duplicate calls with the same key return the first call's result (CRMAgent methods) */
+  idempotencyKey?: string;
+}
+
 /**
  * CRM provider interface
  */
@@ -170,40 +408,50 @@ export interface ICRMProvider {
   initialize(): Promise<void>;
 
   /** Create lead */
-  createLead(lead: Lead): Promise<CRMLead>;
+  createLead(lead: Lead, options?: CRMRequestOptions): Promise<CRMLead>;
 
   /** Get lead by ID */
-  getLead(id: string): Promise<CRMLead>;
+  getLead(id: string, options?: CRMRequestOptions): Promise<CRMLead>;
 
   /** Update lead */
-  updateLead(id: string, updates: Partial<Lead>): Promise<CRMLead>;
+  updateLead(id: string, updates: Partial<Lead>, options?: CRMRequestOptions): Promise<CRMLead>;
 
   /** Delete lead */
-  deleteLead(id: string): Promise<void>;
+  deleteLead(id: string, options?: CRMRequestOptions): Promise<void>;
 
   /** Search leads */
-  searchLeads(criteria: SearchCriteria): Promise<SearchResult<CRMLead>>;
+  searchLeads(criteria: SearchCriteria, options?: CRMRequestOptions): Promise<SearchResult<CRMLead>>;
 
   /** Create contact */
-  createContact(contact: Contact): Promise<CRMContact>;
+  createContact(contact: Contact, options?: CRMRequestOptions): Promise<CRMContact>;
 
   /** Get contact by ID */
-  getContact(id: string): Promise<CRMContact>;
+  getContact(id: string, options?: CRMRequestOptions): Promise<CRMContact>;
 
   /** Update contact */
-  updateContact(id: string, updates: Partial<Contact>): Promise<CRMContact>;
+  updateContact(id: string, updates: Partial<Contact>, options?: CRMRequestOptions): Promise<CRMContact>;
 
   /** Create opportunity */
-  createOpportunity(opportunity: Opportunity): Promise<Opportunity>;
+  createOpportunity(opportunity: Opportunity, options?: CRMRequestOptions): Promise<Opportunity>;
 
   /** Get opportunity by ID */
-  getOpportunity(id: string): Promise<Opportunity>;
+  getOpportunity(id: string, options?: CRMRequestOptions): Promise<Opportunity>;
 
   /** Create account */
-  createAccount(account: Account): Promise<Account>;
+  createAccount(account: Account, options?: CRMRequestOptions): Promise<Account>;
 
   /** Get account by ID */
-  getAccount(id: string): Promise<Account>;
+  getAccount(id: string, options?: CRMRequestOptions): Promise<Account>;
+
+  /** Last API quota reported by the CRM, if it reports one */
+  getQuota?(): CRMQuota | undefined;
+
+  /**
+   * Take a token from the limiter for every API request the provider sends
+   * Returns true if the provider throttles its own requests; otherwise callers
+   * throttle whole method calls.
+   */
+  useRateLimiter?(limiter: RateLimiter | undefined): boolean;
 
   /** Close provider */
   close(): Promise<void>;
@@ -223,3 +471,28 @@ export class CRMError extends Error {
     this.name = 'CRMError';
   }
 }
+
+/**
+ * Error codes of CRM requests that will not succeed on retry
+ * Validation failures and rejected queries reported by the CRM APIs, and requests
+ * refused because the API quota reserve was reached
+ */
+export const CRM_FATAL_ERROR_CODES = [
+  'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+  'REQUIRED_FIELD_MISSING',
+  'INVALID_FIELD',
+  'INVALID_FIELD_FOR_INSERT_UPDATE',
+  'INVALID_TYPE',
+  'INVALID_EMAIL_ADDRESS',
+  'INVALID_CROSS_REFERENCE_KEY',
+  'INVALID_ID_FIELD',
+  'MALFORMED_ID',
+  'MALFORMED_QUERY',
+  'STRING_TOO_LONG',
+  'DUPLICATE_VALUE',
+  'DUPLICATES_DETECTED',
+  'ENTITY_IS_DELETED',
+  'INSUFFICIENT_ACCESS_OR_READONLY',
+  'INVALID_SESSION_ID',
+  'QUOTA_EXCEEDED'
+];